@@ -0,0 +1,36 @@
+import { Agent } from "@mastra/core/agent";
+import { z } from "zod";
+
+export const clarityAssessmentSchema = z.object({
+  clarityScore: z.number().int().min(1).max(10).describe("How well specified the request is, from 1 (impossible to act on) to 10 (ready to write a story)"),
+  missingDetails: z.array(z.string()).describe("What a product manager would need to know that the submission does not say"),
+  questions: z.array(z.string().min(1)).describe("Two or three clarifying questions for the submitter; empty when the request is clear"),
+});
+
+export type ClarityAssessment = z.infer<typeof clarityAssessmentSchema>;
+
+export const clarityAgent = new Agent({
+  name: "Request Clarity Assessor",
+  instructions: `You judge whether a feature request from a GlossGenius user (a beauty or wellness professional) says enough to write a Jira story without guessing, and if not, what to ask them.
+
+## Scoring
+- 8-10: the problem, who it affects and the desired outcome are clear
+- 5-7: the intent is clear but some details would change the solution
+- 1-4: too vague to act on (e.g. "make the app better", "fix booking", a single word)
+Judge the request itself; missing optional answers such as usage frequency do not lower the score on their own.
+
+## Questions
+When the score is below 8, write two or three questions that would most change what gets built, for example:
+- What are you trying to do when this comes up, and what happens today?
+- Which part of GlossGenius is this about (calendar, payments, messages to clients, ...)?
+- What would you like to happen instead?
+Rules:
+- Address the pro directly, in plain and friendly English, one question per item
+- Be specific to their request; never ask something the submission already answers
+- No product jargon, no yes/no questions, no more than three questions
+- Never ask for personal or client data (names, phone numbers, addresses, card details)
+- Return no questions when the score is 8 or higher
+
+The submission was anonymized: keep placeholders such as [EMAIL] or [CLIENT_NAME] as they are and never guess what they stood for.`,
+  model: "anthropic/claude-sonnet-4-5-20250929",
+});
@@ -1,15 +1,4 @@
 import { Agent } from "@mastra/core/agent";
-import { z } from "zod";
-
-export const typeformParserOutputSchema = z.object({
-  featureDescription: z.string().describe("Raw feature request description from Typeform"),
-  usageFrequency: z.string().optional().describe("How often the user needs this feature"),
-  serviceTypes: z.string().optional().describe("Types of services the user provides"),
-  userInterests: z.string().optional().describe("User interests or areas"),
-  contactEmail: z.string().optional().describe("User's contact email (will be sanitized)"),
-});
-
-export type TypeformParserOutput = z.infer<typeof typeformParserOutputSchema>;
 
 export const typeformParserAgent = new Agent({
   name: "Typeform Response Parser",
@@ -21,6 +10,8 @@ You will receive raw text from Typeform email notifications that look like this:
 
 "Hey, your Feature Request typeform got a new response. Please describe the feature you're requesting. Note anything you like! [feature description] Over the last week, how often have you needed to use this feature? [frequency] What type of services do you provide? [services] At GlossGenius, we are always looking to learn from you! Below are several areas of ongoing research... [interests] GlossGenius Email [email]"
 
+Emails that reached the email intake without going through Typeform (e.g. a feature request a pro emailed to support, forwarded by the support team) arrive the same way, starting with a "Subject:" line. They have no questions to anchor on: use the subject and the pro's own words as the featureDescription, leave out greetings, signatures and forwarding headers, and fill the other fields only if the email states them.
+
 ## Output Format
 
 Return ONLY a valid JSON object with NO markdown, NO code blocks, just pure JSON:
@@ -63,6 +54,7 @@ Return ONLY a valid JSON object with NO markdown, NO code blocks, just pure JSON
 ## Important
 - Return ONLY valid JSON - no explanations, no markdown formatting
 - Preserve the original text exactly as written (don't correct spelling/grammar)
+- Answers may be in another language (e.g. Spanish or Vietnamese) - never translate them; translation happens in a later step
 - If a field cannot be found, use null for that field
 - The featureDescription is the most important field - never return it as null or empty`,
   model: "anthropic/claude-sonnet-4-5-20250929",
@@ -0,0 +1,146 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { LocalHttpSink, setNotifier, WebhookNotifier, type WebhookFormat } from "../integrations/notifier";
+import { matchNotificationRules, notifyIfHighPriority, type AlertCandidate, type NotificationRulesConfig } from "./high-priority-alerts";
+
+const rules: NotificationRulesConfig = {
+  version: 1,
+  rules: [
+    { name: "P1/P2 request", maxPriority: 2 },
+    { name: "Payments request", categories: ["Payments"] },
+    { name: "Lash request", serviceTypes: ["Lashes"], maxPriority: 3 },
+    { name: "Frequently requested", minDuplicateCount: 5 },
+  ],
+};
+
+const newStory: AlertCandidate = {
+  event: "created",
+  summary: "[Payments] - Take deposits when clients book online",
+  priority: "1",
+  storyPoints: 5,
+  category: "Payments",
+  serviceTypes: ["Hair", "Lashes"],
+  duplicateCount: 1,
+  ticketKey: "FR-12",
+  ticketUrl: "https://tracker.example/browse/FR-12",
+};
+
+interface SlackMessage {
+  text: string;
+  blocks: Array<{ type: string; text?: { text: string }; fields?: Array<{ text: string }>; elements?: Array<{ url?: string }> }>;
+}
+
+interface TeamsMessage {
+  type: string;
+  attachments: Array<{
+    contentType: string;
+    content: {
+      type: string;
+      body: Array<{ type: string; text?: string; facts?: Array<{ title: string; value: string }> }>;
+      actions?: Array<{ url: string }>;
+    };
+  }>;
+}
+
+function vote(duplicateCount: number): AlertCandidate {
+  return { ...newStory, event: "duplicate", duplicateCount };
+}
+
+describe("notification rules", () => {
+  test("a new story matches every rule whose conditions all hold", () => {
+    assert.deepEqual(matchNotificationRules(newStory, rules), ["P1/P2 request", "Payments request", "Lash request"]);
+    assert.deepEqual(
+      matchNotificationRules({ ...newStory, priority: "3", category: "Messaging", serviceTypes: [" lashes "] }, rules),
+      ["Lash request"]
+    );
+    assert.deepEqual(matchNotificationRules({ ...newStory, priority: undefined, category: undefined }, rules), []);
+  });
+
+  test("a duplicate vote is announced only when it brings the theme to a rule's exact count", () => {
+    assert.deepEqual(matchNotificationRules(vote(4), rules), []);
+    assert.deepEqual(matchNotificationRules(vote(5), rules), ["Frequently requested"]);
+    assert.deepEqual(matchNotificationRules(vote(6), rules), []);
+  });
+});
+
+describe("webhook notifier", () => {
+  let sink: LocalHttpSink | undefined;
+
+  afterEach(async () => {
+    setNotifier(null);
+    await sink?.close();
+    sink = undefined;
+  });
+
+  // Matched against the default rules in config/notification-rules.ts
+  async function notifyThrough(format: WebhookFormat, candidate: AlertCandidate) {
+    sink = await LocalHttpSink.start();
+    setNotifier(new WebhookNotifier(sink.url, format, { retryDelayMs: 1 }));
+    const matched = await notifyIfHighPriority(candidate);
+    return { matched, received: sink.received };
+  }
+
+  test("posts a Slack Block Kit message for a matching story", async () => {
+    const { matched, received } = await notifyThrough("slack", newStory);
+    assert.deepEqual(matched, ["P1/P2 request"]);
+    assert.equal(received.length, 1);
+
+    const message = received[0].body as SlackMessage;
+    assert.equal(message.text, `P1 feature request: ${newStory.summary}`);
+    assert.deepEqual(message.blocks.map((block) => block.type), ["header", "section", "section", "context", "actions"]);
+    assert.match(message.blocks[1].text?.text ?? "", /New feature request/);
+    assert.ok(message.blocks[2].fields?.some((field) => field.text === "*Priority*\nP1"));
+    assert.equal(message.blocks[4].elements?.[0].url, newStory.ticketUrl);
+  });
+
+  test("posts a Teams Adaptive Card for a vote reaching the duplicate threshold", async () => {
+    const { matched, received } = await notifyThrough("teams", vote(5));
+    assert.deepEqual(matched, ["Frequently requested"]);
+    assert.equal(received.length, 1);
+
+    const message = received[0].body as TeamsMessage;
+    assert.equal(message.type, "message");
+    const [attachment] = message.attachments;
+    assert.equal(attachment.contentType, "application/vnd.microsoft.card.adaptive");
+    assert.equal(attachment.content.type, "AdaptiveCard");
+    assert.equal(attachment.content.body[1].text, "Existing request reached 5 requests");
+    const facts = attachment.content.body.find((element) => element.type === "FactSet")?.facts;
+    assert.deepEqual(facts?.find((fact) => fact.title === "Requests"), { title: "Requests", value: "5" });
+    assert.equal(attachment.content.actions?.[0].url, newStory.ticketUrl);
+  });
+
+  test("sends nothing when no rule matches", async () => {
+    const { matched, received } = await notifyThrough("slack", vote(4));
+    assert.deepEqual(matched, []);
+    assert.equal(received.length, 0);
+  });
+
+  test("retries server errors until the webhook accepts the message", async () => {
+    sink = await LocalHttpSink.start({ failFirst: 2, failureStatus: 503 });
+    await new WebhookNotifier(sink.url, "slack", { maxAttempts: 3, retryDelayMs: 1 }).send({
+      kind: "digest",
+      title: "Weekly digest",
+      markdown: "# Weekly digest",
+      html: "<h1>Weekly digest</h1>",
+    });
+    assert.equal(sink.received.length, 1);
+  });
+
+  test("does not retry a rejected payload", async () => {
+    sink = await LocalHttpSink.start({ failFirst: 1, failureStatus: 400 });
+    const notifier = new WebhookNotifier(sink.url, "slack", { maxAttempts: 3, retryDelayMs: 1 });
+    await assert.rejects(
+      notifier.send({ kind: "digest", title: "Weekly digest", markdown: "# Weekly digest", html: "" }),
+      /slack-webhook delivery failed \(400/
+    );
+    // A retry would have been accepted
+    assert.equal(sink.received.length, 0);
+  });
+
+  test("logs a delivery that fails after its retries instead of throwing", async () => {
+    sink = await LocalHttpSink.start({ failFirst: 3, failureStatus: 503 });
+    setNotifier(new WebhookNotifier(sink.url, "slack", { maxAttempts: 3, retryDelayMs: 1 }));
+    assert.deepEqual(await notifyIfHighPriority(newStory), ["P1/P2 request"]);
+    assert.equal(sink.received.length, 0);
+  });
+});
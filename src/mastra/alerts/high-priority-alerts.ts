@@ -0,0 +1,187 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { notificationRulesConfig } from "../config/notification-rules";
+import { productAreaSchema } from "../domain/feature-request";
+import { escapeHtml } from "../insights/digest-rendering";
+import {
+  getNotifier,
+  type HighPriorityRequestDetails,
+  type HighPriorityRequestNotification,
+} from "../integrations/notifier";
+
+/**
+ * High-Priority Alerts
+ *
+ * Announces feature requests that match the rules in
+ * config/notification-rules.ts through the configured notifier, so PMs hear
+ * about a P1 without having to look in Jira. Delivery is best-effort: a
+ * notifier that still fails after its retries is logged, never failing the run.
+ */
+
+const notificationRuleSchema = z.object({
+  name: z.string().min(1),
+  maxPriority: z.number().int().min(1).max(5).optional(),
+  categories: z.array(productAreaSchema).min(1).optional(),
+  serviceTypes: z.array(z.string().min(1)).min(1).optional(),
+  minDuplicateCount: z.number().int().min(2).optional(),
+}).strict();
+
+export type NotificationRule = z.infer<typeof notificationRuleSchema>;
+
+export const notificationRulesConfigSchema = z.object({
+  version: z.literal(1),
+  rules: z.array(notificationRuleSchema),
+});
+
+export type NotificationRulesConfig = z.infer<typeof notificationRulesConfigSchema>;
+
+/**
+ * What the rules are checked against; the matched rule names are filled in
+ */
+export type AlertCandidate = Omit<HighPriorityRequestDetails, "matchedRules">;
+
+/**
+ * Validates a rules config, throwing one error that lists every problem
+ */
+export function validateNotificationRulesConfig(raw: unknown): NotificationRulesConfig {
+  const parsed = notificationRulesConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid notification rules config:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const rule of parsed.data.rules) {
+    if (seen.has(rule.name)) {
+      problems.push(`rule names must be unique ("${rule.name}" is used twice)`);
+    }
+    seen.add(rule.name);
+    const { name, ...conditions } = rule;
+    if (Object.values(conditions).every((condition) => condition === undefined)) {
+      problems.push(`rule "${name}" has no conditions and would match every request`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid notification rules config:\n${problems.join("\n")}`);
+  }
+
+  return parsed.data;
+}
+
+let loadedConfig: NotificationRulesConfig | undefined;
+
+/**
+ * Loads and validates the rules (NOTIFICATION_RULES_CONFIG JSON file if set)
+ */
+export function loadNotificationRulesConfig(): NotificationRulesConfig {
+  if (!loadedConfig) {
+    const path = process.env.NOTIFICATION_RULES_CONFIG;
+    const raw = path ? JSON.parse(readFileSync(path, "utf8")) : notificationRulesConfig;
+    loadedConfig = validateNotificationRulesConfig(raw);
+  }
+  return loadedConfig;
+}
+
+function ruleMatches(rule: NotificationRule, candidate: AlertCandidate): boolean {
+  // Duplicate votes are only announced when they reach a rule's threshold
+  if (candidate.event === "duplicate" && rule.minDuplicateCount !== candidate.duplicateCount) {
+    return false;
+  }
+  if (rule.minDuplicateCount !== undefined && candidate.duplicateCount < rule.minDuplicateCount) {
+    return false;
+  }
+  if (rule.maxPriority !== undefined && !(candidate.priority && Number(candidate.priority) <= rule.maxPriority)) {
+    return false;
+  }
+  if (rule.categories && !(candidate.category && rule.categories.some((category) => category === candidate.category))) {
+    return false;
+  }
+  if (rule.serviceTypes) {
+    const wanted = new Set(rule.serviceTypes.map((serviceType) => serviceType.trim().toLowerCase()));
+    if (!candidate.serviceTypes.some((serviceType) => wanted.has(serviceType.trim().toLowerCase()))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Names of the rules the request matches, in config order
+ */
+export function matchNotificationRules(
+  candidate: AlertCandidate,
+  config: NotificationRulesConfig = loadNotificationRulesConfig()
+): string[] {
+  return config.rules.filter((rule) => ruleMatches(rule, candidate)).map((rule) => rule.name);
+}
+
+export function buildHighPriorityNotification(request: HighPriorityRequestDetails): HighPriorityRequestNotification {
+  const priority = request.priority ? `P${request.priority}` : "Unscored";
+  const title = request.event === "duplicate"
+    ? `${request.duplicateCount} requests: ${request.summary}`
+    : `${priority} feature request: ${request.summary}`;
+  const ticket = request.ticketKey
+    ? request.ticketUrl ? `[${request.ticketKey}](${request.ticketUrl})` : request.ticketKey
+    : "not filed";
+  const facts: Array<[string, string]> = [
+    ["Priority", priority],
+    ["Story points", request.storyPoints !== undefined ? String(request.storyPoints) : "not estimated"],
+    ["Product area", request.category ?? "unclassified"],
+    ["Service types", request.serviceTypes.join(", ") || "not given"],
+    ["Requests", String(request.duplicateCount)],
+  ];
+
+  const markdown = [
+    `# ${title}`,
+    "",
+    ...facts.map(([label, value]) => `- ${label}: ${value}`),
+    `- Ticket: ${ticket}`,
+    "",
+    `Matched rules: ${request.matchedRules.join(", ")}`,
+  ].join("\n");
+
+  const ticketHtml = request.ticketKey
+    ? request.ticketUrl
+      ? `<a href="${escapeHtml(request.ticketUrl)}">${escapeHtml(request.ticketKey)}</a>`
+      : escapeHtml(request.ticketKey)
+    : "not filed";
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif">
+<h1 style="font-size:20px">${escapeHtml(title)}</h1>
+<ul>${facts.map(([label, value]) => `<li>${label}: ${escapeHtml(value)}</li>`).join("")}<li>Ticket: ${ticketHtml}</li></ul>
+<p style="color:#555">Matched rules: ${escapeHtml(request.matchedRules.join(", "))}</p>
+</body>
+</html>`;
+
+  return { kind: "high_priority_request", title, markdown, html, request };
+}
+
+/**
+ * Sends a notification if the request matches any rule. Returns the matched
+ * rule names (empty when nothing matched or no notifier is configured).
+ *
+ * Never throws: callers run after the issue exists or the vote is recorded,
+ * so a misconfigured notifier or failed delivery is only logged.
+ */
+export async function notifyIfHighPriority(candidate: AlertCandidate): Promise<string[]> {
+  let matchedRules: string[] = [];
+  try {
+    const notifier = getNotifier();
+    if (!notifier) {
+      return [];
+    }
+
+    matchedRules = matchNotificationRules(candidate);
+    if (matchedRules.length === 0) {
+      return [];
+    }
+
+    await notifier.send(buildHighPriorityNotification({ ...candidate, matchedRules }));
+    console.log(`📣 Announced "${candidate.summary}" via ${notifier.name} (${matchedRules.join(", ")})`);
+  } catch (error) {
+    console.error("High-priority notification failed:", error);
+  }
+  return matchedRules;
+}
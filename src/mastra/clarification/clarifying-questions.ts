@@ -0,0 +1,82 @@
+import { escapeHtml } from "../insights/digest-rendering";
+import type { EmailMessage } from "../integrations/mailer";
+
+/**
+ * Clarifying Questions
+ *
+ * Settings and the email for asking the submitter of a vague feature request
+ * two or three follow-up questions (see the "request-clarification" step in
+ * featureRequestWorkflow). Replies come back through
+ * POST /clarifications/:runId; runs nobody answers are resumed by
+ * GET /clarifications/expire once CLARIFICATION_TIMEOUT_HOURS have passed, and
+ * the story is then written with stated assumptions.
+ */
+
+export const CLARIFICATION_STEP_ID = "request-clarification";
+
+// Requests scoring below this (1-10) are held for clarification
+export const DEFAULT_MIN_CLARITY_SCORE = 5;
+export const DEFAULT_CLARIFICATION_TIMEOUT_HOURS = 72;
+
+// Quoted back to the submitter so they know which request is meant
+const QUOTE_MAX_LENGTH = 500;
+
+export function getMinClarityScore(): number {
+  const configured = Number(process.env.CLARITY_MIN_SCORE);
+  return configured >= 1 && configured <= 10 ? configured : DEFAULT_MIN_CLARITY_SCORE;
+}
+
+export function getClarificationTimeoutMs(): number {
+  const configured = Number(process.env.CLARIFICATION_TIMEOUT_HOURS);
+  return (configured > 0 ? configured : DEFAULT_CLARIFICATION_TIMEOUT_HOURS) * 60 * 60_000;
+}
+
+/**
+ * The email with the questions, minus the recipient. The subject carries the
+ * run id so an inbound mail hook can route the reply to
+ * POST /clarifications/:runId; replies go to CLARIFICATION_REPLY_TO when set.
+ */
+export function buildClarificationEmail(params: {
+  runId: string;
+  questions: string[];
+  // Sanitized description, so nothing redacted from the submission is echoed back
+  description: string;
+  expiresAt: string;
+}): Omit<EmailMessage, "to"> {
+  const { runId, questions, expiresAt } = params;
+  const description = params.description.length > QUOTE_MAX_LENGTH
+    ? `${params.description.slice(0, QUOTE_MAX_LENGTH - 1)}…`
+    : params.description;
+  const deadline = new Date(expiresAt).toUTCString();
+
+  const text = [
+    "Hi there,",
+    "",
+    "Thanks for your feature request! Before we write it up for the product team, we'd love a little more detail:",
+    "",
+    ...questions.map((question, index) => `${index + 1}. ${question}`),
+    "",
+    "Just reply to this email with your answers. If we don't hear back by " +
+      `${deadline}, we'll go ahead with our best understanding of your request.`,
+    "",
+    "Your request:",
+    ...description.split("\n").map((line) => `> ${line}`),
+  ].join("\n");
+
+  const html = [
+    "<p>Hi there,</p>",
+    "<p>Thanks for your feature request! Before we write it up for the product team, we'd love a little more detail:</p>",
+    `<ol>${questions.map((question) => `<li>${escapeHtml(question)}</li>`).join("")}</ol>`,
+    `<p>Just reply to this email with your answers. If we don't hear back by ${escapeHtml(deadline)}, ` +
+      "we'll go ahead with our best understanding of your request.</p>",
+    `<p>Your request:</p><blockquote style="border-left:3px solid #ccc;margin:8px 0;padding-left:12px;color:#555">${escapeHtml(description).replace(/\n/g, "<br>")}</blockquote>`,
+  ].join("\n");
+
+  return {
+    subject: `A few questions about your feature request [ref:${runId}]`,
+    text,
+    html,
+    replyTo: process.env.CLARIFICATION_REPLY_TO || undefined,
+    headers: { "X-Feature-Request-Run": runId },
+  };
+}
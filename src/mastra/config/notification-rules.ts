@@ -0,0 +1,32 @@
+import type { NotificationRulesConfig } from "../alerts/high-priority-alerts";
+
+/**
+ * Notification Rules
+ *
+ * When PMs are pinged in the team channel (NOTIFIER; see
+ * integrations/notifier) about a feature request. A rule matches when all
+ * of its conditions hold; a request is announced once, listing every
+ * matching rule. Conditions:
+ * - maxPriority: the story's priority is this or more urgent (1 is highest)
+ * - categories: the request's product area is one of these
+ * - serviceTypes: the submitter offers one of these services (case-insensitive)
+ * - minDuplicateCount: at least this many requests on the same theme
+ *
+ * New stories are checked once the ticket is filed. A near-duplicate vote is
+ * only announced by rules with minDuplicateCount, when the vote brings the
+ * theme to exactly that count, so a popular theme is announced once per rule.
+ *
+ * Deployments can replace this file with a JSON file of the same shape via
+ * NOTIFICATION_RULES_CONFIG=/path/to/rules.json. Bump `version` when the shape changes.
+ *
+ * Example rules:
+ *   { name: "Payments request", categories: ["Payments"] },
+ *   { name: "Lash request", serviceTypes: ["Lashes"], maxPriority: 3 },
+ */
+export const notificationRulesConfig: NotificationRulesConfig = {
+  version: 1,
+  rules: [
+    { name: "P1/P2 request", maxPriority: 2 },
+    { name: "Frequently requested", minDuplicateCount: 5 },
+  ],
+};
@@ -0,0 +1,47 @@
+import type { PriorityScoringConfig } from "../priority/priority-scoring";
+
+/**
+ * Priority Scoring Config
+ *
+ * - weights: multiplied with the agent's 1-10 factor scores; must add up to 1
+ * - bands: minimum final score for priorities "1"-"4"; lower scores are "5"
+ * - adjustments: points added to the weighted score
+ *   - usageFrequency: by the submitter's "how often" answer
+ *   - planTier: by the Typeform hidden field named in `hiddenField`
+ *   - duplicateVotes: per vote after the first, capped at `max`
+ *
+ * Deployments can replace this file with a JSON file of the same shape via
+ * PRIORITY_SCORING_CONFIG=/path/to/priority.json. Bump `version` when the shape changes.
+ */
+export const priorityScoringConfig: PriorityScoringConfig = {
+  version: 1,
+  weights: {
+    userImpact: 0.3,
+    businessValue: 0.3,
+    feasibility: 0.2,
+    urgency: 0.2,
+  },
+  bands: {
+    "1": 8,
+    "2": 6,
+    "3": 4,
+    "4": 2,
+  },
+  adjustments: {
+    usageFrequency: {
+      "Multiple times a day": 1,
+      "Once a day": 0.5,
+    },
+    planTier: {
+      hiddenField: "plan_tier",
+      boosts: {
+        gold: 0.5,
+        platinum: 1,
+      },
+    },
+    duplicateVotes: {
+      perAdditionalVote: 0.25,
+      max: 1.5,
+    },
+  },
+};
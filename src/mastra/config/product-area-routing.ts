@@ -0,0 +1,40 @@
+import type { ProductAreaRoutingConfig } from "../routing/product-area-routing";
+
+/**
+ * Product Area Routing Table
+ *
+ * Maps each product area to where its requests are filed:
+ * - projectKey: Jira project of the team board (defaults to JIRA_PROJECT_KEY)
+ * - components: Jira component names
+ * - assigneePool: Jira account ids; each request is assigned to one of them
+ * - labels: added to the issue alongside the story's own labels
+ *
+ * Classifications with confidence below `minConfidence` use `triage` instead,
+ * and the draft is held for review so a PM can confirm the area.
+ * Deployments can replace this file with a JSON file of the same shape via
+ * PRODUCT_AREA_ROUTING_CONFIG=/path/to/routing.json. Bump `version` when the shape changes.
+ *
+ * Example entry for a payments team board:
+ *   Payments: {
+ *     projectKey: "PAY",
+ *     components: ["Checkout"],
+ *     assigneePool: ["5b10ac8d82e05b22cc7d4ef5", "5b10a2844c20165700ede21g"],
+ *     labels: ["area-payments"],
+ *   },
+ */
+export const productAreaRoutingConfig: ProductAreaRoutingConfig = {
+  version: 1,
+  minConfidence: 0.6,
+  routes: {
+    "Calendar": { components: ["Calendar"], labels: ["area-calendar"] },
+    "Payments": { components: ["Payments"], labels: ["area-payments"] },
+    "Messaging": { components: ["Messaging"], labels: ["area-messaging"] },
+    "Booking website": { components: ["Booking Website"], labels: ["area-booking-website"] },
+    "Client management": { components: ["Client Management"], labels: ["area-client-management"] },
+    "Marketing": { components: ["Marketing"], labels: ["area-marketing"] },
+    "Inventory": { components: ["Inventory"], labels: ["area-inventory"] },
+    "Analytics": { components: ["Analytics"], labels: ["area-analytics"] },
+    "Other": { labels: ["area-other"] },
+  },
+  triage: { labels: ["needs-triage"] },
+};
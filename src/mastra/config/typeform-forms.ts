@@ -0,0 +1,68 @@
+import type { TypeformFormsConfig } from "../typeform/field-mapping";
+
+/**
+ * Typeform Form Definitions
+ *
+ * Maps each Typeform form (by form_id) onto our canonical submission fields.
+ * A field can be matched by:
+ * - { ref }: the field's ref (Typeform > question settings > "Question reference")
+ * - { id }: the field's id
+ * - { title }: fuzzy match against the question title in form_response.definition,
+ *   which keeps working when refs change after a form is edited
+ * Matchers are tried in order; the first that finds an answer wins.
+ *
+ * Forms not listed under `forms` fall back to `defaultForm`.
+ * Deployments can replace this file with a JSON file of the same shape via
+ * TYPEFORM_FORMS_CONFIG=/path/to/forms.json. Bump `version` when the shape changes.
+ *
+ * Example entry for a bug report form:
+ *   "aBcD1234": {
+ *     name: "Bug Report",
+ *     kind: "bug_report",
+ *     fields: {
+ *       featureDescription: [{ ref: "bug_description" }, { title: "What went wrong?" }],
+ *       contactEmail: [{ ref: "email" }],
+ *     },
+ *   },
+ */
+export const typeformFormsConfig: TypeformFormsConfig = {
+  version: 1,
+  defaultForm: {
+    name: "Feature Request",
+    kind: "feature_request",
+    fields: {
+      featureDescription: [
+        { ref: "feature_description" },
+        { ref: "feature_request" },
+        { ref: "description" },
+        { ref: "what_feature" },
+        { title: "Please describe the feature you're requesting. Note anything you like!" },
+      ],
+      usageFrequency: [
+        { ref: "usage_frequency" },
+        { ref: "frequency" },
+        { ref: "how_often" },
+        { title: "Over the last week, how often have you needed to use this feature?" },
+      ],
+      serviceTypes: [
+        { ref: "service_types" },
+        { ref: "services" },
+        { ref: "what_services" },
+        { title: "What type of services do you provide?" },
+      ],
+      userInterests: [
+        { ref: "interests" },
+        { ref: "areas" },
+        { ref: "user_interests" },
+        { title: "Please select the feature areas you're interested in shaping and influencing." },
+      ],
+      contactEmail: [
+        { ref: "email" },
+        { ref: "contact_email" },
+        { ref: "contact" },
+        { title: "GlossGenius Email" },
+      ],
+    },
+  },
+  forms: {},
+};
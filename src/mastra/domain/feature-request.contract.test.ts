@@ -0,0 +1,171 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient } from "@libsql/client";
+import type { Agent } from "@mastra/core/agent";
+import type { ApiRoute } from "@mastra/core/server";
+import { bugReportAgent } from "../agents/bug-report-agent";
+import { jiraFeatureRequestAgent } from "../agents/jira-feature-request-agent";
+import { productAreaClassifierAgent } from "../agents/product-area-classifier-agent";
+import { listFeatureRequestsRoute } from "../routes/feature-requests";
+import { storySchemaScorer } from "../scorers/jira-story-scorers";
+import { setDatabase } from "../storage/database";
+import { SUBMISSION_STATUSES } from "../storage/processed-submissions";
+import { featureRequestWorkflow, reviewDecisionSchema } from "../workflows/feature-request-workflow";
+import {
+  BUG_PLATFORMS,
+  BUG_SEVERITIES,
+  MAX_SUMMARY_LENGTH,
+  PRODUCT_AREAS,
+  STORY_POINTS,
+  featureRequestInputSchema,
+  featureRequestJsonSchemas,
+  generatedBugReportSchema,
+  generatedJiraStorySchema,
+  priorityFactorsSchema,
+} from "./feature-request";
+
+// Contract tests: each consumer of the shared schemas is checked against them,
+// so changing a schema without updating its prompts, steps, routes or scorers fails here
+
+async function instructionsOf(agent: Agent): Promise<string> {
+  const instructions = await agent.getInstructions();
+  assert.equal(typeof instructions, "string");
+  return instructions as string;
+}
+
+/**
+ * Keys of the JSON object template in a prompt's "Required Output Format" section,
+ * at the given indent (2 for top-level fields, 4 for fields nested one level down)
+ */
+function templateKeys(instructions: string, indent: number): string[] {
+  const template = instructions.match(/^\{\n[\s\S]*?\n\}$/m);
+  assert.ok(template, "prompt has no JSON output template");
+  const pattern = new RegExp(`^ {${indent}}"(\\w+)":`, "gm");
+  return [...template[0].matchAll(pattern)].map((match) => match[1]).sort();
+}
+
+const validStory = {
+  summary: "[Messaging] - Send appointment reminders in Spanish",
+  description: "## Problem Statement\n\nPros with Spanish-speaking clients send reminders by hand.",
+  acceptanceCriteria: "- [ ] Given a client who prefers Spanish, When a reminder is sent, Then it is in Spanish",
+  noteForQA: "Check SMS and email reminders.",
+  storyPoints: 5,
+  priorityFactors: {
+    userImpact: { score: 7, rationale: "Many pros have Spanish-speaking clients" },
+    businessValue: { score: 6, rationale: "Reduces no-shows" },
+    feasibility: { score: 8, rationale: "Templates already support locales" },
+    urgency: { score: 4, rationale: "Workaround exists" },
+  },
+};
+
+describe("agents follow the shared schemas", () => {
+  test("the Jira agent's output template has the generated story fields", async () => {
+    const instructions = await instructionsOf(jiraFeatureRequestAgent);
+    assert.deepEqual(templateKeys(instructions, 2), Object.keys(generatedJiraStorySchema.shape).sort());
+    assert.deepEqual(templateKeys(instructions, 4), Object.keys(priorityFactorsSchema.shape).sort());
+    assert.ok(instructions.includes(`Maximum ${MAX_SUMMARY_LENGTH} characters`));
+    assert.ok(instructions.includes(STORY_POINTS.join(", ")));
+  });
+
+  test("the bug report agent's output template has the generated bug fields", async () => {
+    const instructions = await instructionsOf(bugReportAgent);
+    assert.deepEqual(templateKeys(instructions, 2), Object.keys(generatedBugReportSchema.shape).sort());
+    assert.ok(instructions.includes(`Maximum ${MAX_SUMMARY_LENGTH} characters`));
+    for (const value of [...BUG_SEVERITIES, ...BUG_PLATFORMS]) {
+      assert.ok(instructions.includes(value), `bug report prompt does not mention ${value}`);
+    }
+  });
+
+  test("the product area classifier offers every product area", async () => {
+    const instructions = await instructionsOf(productAreaClassifierAgent);
+    for (const area of PRODUCT_AREAS) {
+      assert.ok(instructions.includes(area), `classifier prompt does not mention ${area}`);
+    }
+  });
+});
+
+describe("the workflow follows the shared schemas", () => {
+  test("accepts the shared input schema", () => {
+    assert.equal(featureRequestWorkflow.inputSchema, featureRequestInputSchema);
+  });
+
+  test("review edits are held to the story limits", () => {
+    const decision = { decision: "approve", reviewer: "jane.pm" };
+    assert.ok(reviewDecisionSchema.safeParse({ ...decision, edits: { storyPoints: 8 } }).success);
+    assert.ok(!reviewDecisionSchema.safeParse({ ...decision, edits: { storyPoints: 4 } }).success);
+    assert.ok(!reviewDecisionSchema.safeParse({ ...decision, edits: { summary: "x".repeat(MAX_SUMMARY_LENGTH + 1) } }).success);
+  });
+});
+
+describe("routes follow the shared schemas", () => {
+  const directory = mkdtempSync(join(tmpdir(), "feature-request-contract-"));
+  const reviewerTokens = process.env.REVIEWER_TOKENS;
+
+  async function list(query: Record<string, string>): Promise<number> {
+    const route = listFeatureRequestsRoute as Extract<ApiRoute, { handler: unknown }>;
+    let status = 200;
+    const context = {
+      req: { query: () => query, header: () => "Bearer contract-token" },
+      json: (_body: unknown, responseStatus?: number) => {
+        status = responseStatus ?? 200;
+        return new Response();
+      },
+    };
+    await route.handler(context as unknown as Parameters<typeof route.handler>[0], async () => {});
+    return status;
+  }
+
+  before(() => {
+    setDatabase(createClient({ url: `file:${join(directory, "contract.db")}` }));
+    process.env.REVIEWER_TOKENS = "contract:contract-token";
+  });
+  after(() => {
+    if (reviewerTokens === undefined) delete process.env.REVIEWER_TOKENS;
+    else process.env.REVIEWER_TOKENS = reviewerTokens;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("the list route filters by every product area and submission status", async () => {
+    for (const category of PRODUCT_AREAS) {
+      assert.equal(await list({ category }), 200, `category ${category} was rejected`);
+    }
+    for (const status of SUBMISSION_STATUSES) {
+      assert.equal(await list({ status }), 200, `status ${status} was rejected`);
+    }
+    assert.equal(await list({ category: "Not an area" }), 400);
+    assert.equal(await list({ status: "not_a_status" }), 400);
+  });
+});
+
+describe("scorers follow the shared schemas", () => {
+  async function scoreStory(story: unknown): Promise<number> {
+    const response = JSON.stringify(story);
+    const { score } = await storySchemaScorer.run({
+      input: { inputMessages: [], rememberedMessages: [], systemMessages: [], taggedSystemMessages: {} },
+      output: [{ id: "response", role: "assistant", content: response, parts: [{ type: "text", text: response }] }],
+    });
+    return score;
+  }
+
+  test("the schema scorer accepts a story the agent may generate", async () => {
+    assert.equal(await scoreStory(validStory), 1);
+  });
+
+  test("the schema scorer rejects stories outside the shared limits", async () => {
+    assert.equal(await scoreStory({ ...validStory, storyPoints: 4 }), 0);
+    assert.equal(await scoreStory({ ...validStory, summary: `[Messaging] - ${"x".repeat(MAX_SUMMARY_LENGTH)}` }), 0);
+  });
+});
+
+describe("published JSON Schemas follow the shared schemas", () => {
+  test("the story JSON Schema carries the summary and story point limits", () => {
+    const { properties } = featureRequestJsonSchemas.jiraStory as {
+      properties: { summary: { maxLength: number }; storyPoints: { enum: number[] } };
+    };
+    assert.equal(properties.summary.maxLength, MAX_SUMMARY_LENGTH);
+    assert.deepEqual(properties.storyPoints.enum, [...STORY_POINTS]);
+  });
+});
@@ -0,0 +1,255 @@
+import { z } from "zod";
+
+/**
+ * Feature Request Domain Model
+ *
+ * The single definition of what flows through the system: the workflow
+ * input, the submission extracted from it, and the Jira story or bug report
+ * generated from that. Agents, the workflow, routes, integrations and scorers all import
+ * these schemas rather than declaring their own, and the JSON Schema exports
+ * below are generated from the same definitions.
+ */
+
+export const MAX_SUMMARY_LENGTH = 120;
+
+// Story points follow the Fibonacci scale used in planning
+export const STORY_POINTS = [1, 2, 3, 5, 8, 13, 21] as const;
+
+// Highest priority is "1", lowest is "5"
+export const STORY_PRIORITIES = ["1", "2", "3", "4", "5"] as const;
+
+// "[Category] - Description"; required by the agent prompt, checked by the scorers
+export const SUMMARY_FORMAT = /^\[[^\]]+\] - \S/;
+
+export const BUG_SEVERITIES = ["Critical", "Major", "Minor", "Trivial"] as const;
+
+export const BUG_PLATFORMS = ["iOS", "Android", "Web", "All platforms", "Unknown"] as const;
+
+// Submissions are either feature requests (filed as Stories) or bug reports (filed as Bugs)
+export const REQUEST_TYPES = ["feature", "bug"] as const;
+
+export type RequestType = (typeof REQUEST_TYPES)[number];
+
+/**
+ * Submission fields as extracted from Typeform (webhook mapping or the
+ * parser agent). The contact email is only ever present before sanitization.
+ */
+export const submissionFieldsSchema = z.object({
+  featureDescription: z.string().describe("Raw feature request description from Typeform"),
+  usageFrequency: z.string().optional().describe("How often the user needs this feature"),
+  serviceTypes: z.string().optional().describe("Types of services the user provides"),
+  userInterests: z.string().optional().describe("User interests or areas"),
+  contactEmail: z.string().optional().describe("User's contact email (will be sanitized)"),
+});
+
+export type SubmissionFields = z.infer<typeof submissionFieldsSchema>;
+
+// Channels submissions arrive through; each has a SubmissionSource adapter in intake/
+export const SUBMISSION_SOURCES = ["typeform", "email", "zendesk", "json"] as const;
+
+export type SubmissionSourceType = (typeof SUBMISSION_SOURCES)[number];
+
+export const sourceMetadataSchema = z.object({
+  type: z.enum(SUBMISSION_SOURCES).describe("Intake adapter the submission came through"),
+  externalId: z.string().optional().describe("Id in the source system: Typeform response token, email Message-ID, Zendesk ticket id, ..."),
+  url: z.string().optional().describe("Link back to the original, e.g. the Zendesk ticket"),
+  channel: z.string().optional().describe("Finer-grained origin, e.g. in-app or the Zendesk channel"),
+});
+
+export type SourceMetadata = z.infer<typeof sourceMetadataSchema>;
+
+export const submissionMetadataSchema = z.object({
+  source: sourceMetadataSchema.optional().describe("Where the submission came from; absent for older Typeform runs"),
+  formId: z.string().optional().describe("Typeform form_id"),
+  responseToken: z.string().optional().describe("Typeform form_response.token"),
+  submittedAt: z.string().optional().describe("When the form was submitted, the email sent or the ticket created (ISO 8601)"),
+  formKind: z.enum(["feature_request", "bug_report"]).optional().describe("Kind of form the submission came from (Typeform forms config, or declared by the source)"),
+  regenerationOf: z.string().optional().describe("Id of the processed submission whose story this run regenerates"),
+});
+
+export type SubmissionMetadata = z.infer<typeof submissionMetadataSchema>;
+
+// Extra context about the submitter's account, from Typeform hidden fields and variables
+export const submissionContextSchema = z.object({
+  hiddenFields: z.record(z.string(), z.string()).optional().describe("Typeform hidden fields, e.g. account_id, plan_tier, app_version"),
+  variables: z.record(z.string(), z.union([z.string(), z.number()])).optional().describe("Typeform variables, e.g. score"),
+});
+
+export type SubmissionContext = z.infer<typeof submissionContextSchema>;
+
+/**
+ * Workflow input accepts two shapes:
+ * - "structured": fields already extracted from a Typeform webhook payload
+ * - "raw_text": the whole Typeform email notification as text, which still
+ *   needs extraction by the typeform parser agent
+ */
+export const structuredInputSchema = submissionFieldsSchema.extend({
+  kind: z.literal("structured"),
+  metadata: submissionMetadataSchema.optional(),
+  context: submissionContextSchema.optional(),
+});
+
+export const rawTextInputSchema = z.object({
+  kind: z.literal("raw_text"),
+  text: z.string().describe("The whole Typeform response as a text string"),
+  metadata: submissionMetadataSchema.optional(),
+});
+
+export const featureRequestInputSchema = z.discriminatedUnion("kind", [
+  structuredInputSchema,
+  rawTextInputSchema,
+]);
+
+export type FeatureRequestInput = z.infer<typeof featureRequestInputSchema>;
+
+export const submissionLanguageSchema = z.object({
+  code: z.string().describe("ISO 639-1 code of the submission's language, e.g. es, vi, pt"),
+  name: z.string().describe("English name of the language, e.g. Spanish"),
+  translated: z.boolean().describe("Whether featureDescription was translated to English"),
+  originalDescription: z.string().optional().describe("The (sanitized) description in its original language"),
+});
+
+export type SubmissionLanguage = z.infer<typeof submissionLanguageSchema>;
+
+export const CLARIFICATION_STATUSES = ["answered", "timed_out"] as const;
+
+/**
+ * Follow-up questions sent to the submitter of a vague request and what came
+ * back. Answers are redacted like the rest of the submission.
+ */
+export const submissionClarificationSchema = z.object({
+  status: z.enum(CLARIFICATION_STATUSES).describe("answered, or timed_out when nobody replied in time"),
+  clarityScore: z.number().describe("Clarity score (1-10) that triggered the questions"),
+  questions: z.array(z.string()),
+  answers: z.array(z.string()).describe("Answers in question order; empty when the reply was free text"),
+  reply: z.string().optional().describe("Free-text reply, e.g. the body of the submitter's email"),
+});
+
+export type SubmissionClarification = z.infer<typeof submissionClarificationSchema>;
+
+/**
+ * The sanitized submission passed between workflow steps and to the Jira
+ * agent. It has no contact email field, so the email cannot reach the LLM.
+ */
+export const parsedSubmissionSchema = submissionFieldsSchema.omit({ contactEmail: true }).extend({
+  featureDescription: z.string().min(1).describe("Raw feature request description from Typeform"),
+  context: submissionContextSchema.optional(),
+  language: submissionLanguageSchema.optional().describe("Detected language; featureDescription is English once set"),
+  clarification: submissionClarificationSchema.optional().describe("Clarifying questions asked of the submitter, if any"),
+});
+
+export type ParsedSubmission = z.infer<typeof parsedSubmissionSchema>;
+
+export const priorityFactorSchema = z.object({
+  score: z.number().int().min(1).max(10).describe("Score from 1 (lowest) to 10 (highest)"),
+  rationale: z.string().min(1).describe("One or two sentences justifying the score"),
+});
+
+/**
+ * The four sub-scores the agent rates; code turns them into a priority
+ * (see priority/priority-scoring.ts) so the formula is applied exactly
+ */
+export const priorityFactorsSchema = z.object({
+  userImpact: priorityFactorSchema.describe("How many users are affected and how severely"),
+  businessValue: priorityFactorSchema.describe("Revenue impact and strategic importance"),
+  feasibility: priorityFactorSchema.describe("How easy it is to build; 10 = trivial, 1 = very complex"),
+  urgency: priorityFactorSchema.describe("Market timing and customer commitments"),
+});
+
+export type PriorityFactors = z.infer<typeof priorityFactorsSchema>;
+
+export type PriorityFactor = keyof PriorityFactors;
+
+export const jiraStorySchema = z.object({
+  issueType: z.literal("Story"),
+  summary: z.string().min(1).max(MAX_SUMMARY_LENGTH).describe(`Short Jira ticket title / summary (max ${MAX_SUMMARY_LENGTH} chars)`),
+  description: z.string().min(1).describe("Comprehensive problem statement and proposed solution"),
+  acceptanceCriteria: z.string().trim().min(1).describe("Testable acceptance criteria in Given-When-Then format"),
+  noteForQA: z.string().describe("QA testing notes with scenarios and validation checklist"),
+  storyPoints: z.literal(STORY_POINTS).describe(`Story points estimate (Fibonacci: ${STORY_POINTS.join(", ")})`),
+  priority: z.enum(STORY_PRIORITIES).describe("Priority: 1=Critical, 2=High, 3=Medium, 4=Low, 5=Backlog"),
+  labels: z.array(z.string()).optional().describe("Jira labels added by the workflow, e.g. lang-es"),
+});
+
+// What the Jira agent generates; issue type, labels and the priority computed
+// from the factors are applied by the workflow afterwards
+export const generatedJiraStorySchema = jiraStorySchema
+  .omit({ issueType: true, labels: true, priority: true })
+  .extend({ priorityFactors: priorityFactorsSchema });
+
+export type JiraStory = z.infer<typeof jiraStorySchema>;
+
+export type StoryPoints = JiraStory["storyPoints"];
+
+export type StoryPriority = JiraStory["priority"];
+
+export const bugReportSchema = z.object({
+  issueType: z.literal("Bug"),
+  summary: z.string().min(1).max(MAX_SUMMARY_LENGTH).describe(`Short bug title (max ${MAX_SUMMARY_LENGTH} chars)`),
+  description: z.string().min(1).describe("What is broken, who it affects and the impact on their business"),
+  stepsToReproduce: z.string().trim().min(1).describe("Numbered steps to reproduce the bug"),
+  expectedBehavior: z.string().min(1).describe("What should happen"),
+  actualBehavior: z.string().min(1).describe("What happens instead"),
+  platform: z.enum(BUG_PLATFORMS).describe("Platform the bug was seen on"),
+  severity: z.enum(BUG_SEVERITIES).describe("Critical=blocks work or payments, Major=core flow broken with a workaround, Minor=cosmetic or edge case, Trivial=typo-level"),
+  priority: z.enum(STORY_PRIORITIES).describe("Priority: 1=Critical, 2=High, 3=Medium, 4=Low, 5=Backlog"),
+  labels: z.array(z.string()).optional().describe("Jira labels added by the workflow, e.g. lang-es"),
+});
+
+// What the bug report agent generates
+export const generatedBugReportSchema = bugReportSchema.omit({ issueType: true, labels: true });
+
+export type BugReport = z.infer<typeof bugReportSchema>;
+
+export type BugSeverity = BugReport["severity"];
+
+/**
+ * Anything the workflow files in the tracker, told apart by issue type
+ */
+export const issueDraftSchema = z.discriminatedUnion("issueType", [jiraStorySchema, bugReportSchema]);
+
+export type IssueDraft = z.infer<typeof issueDraftSchema>;
+
+export const requestTypeClassificationSchema = z.object({
+  requestType: z.enum(REQUEST_TYPES).describe("feature for new or changed functionality, bug for something that is broken"),
+  confidence: z.number().min(0).max(1).describe("Confidence in the request type, 0-1"),
+  rationale: z.string().describe("One sentence on why"),
+});
+
+export type RequestTypeClassification = z.infer<typeof requestTypeClassificationSchema>;
+
+// Controlled taxonomy of product areas; each maps to a team board in the routing table
+export const PRODUCT_AREAS = [
+  "Calendar",
+  "Payments",
+  "Messaging",
+  "Booking website",
+  "Client management",
+  "Marketing",
+  "Inventory",
+  "Analytics",
+  "Other",
+] as const;
+
+export const productAreaSchema = z.enum(PRODUCT_AREAS);
+
+export type ProductArea = z.infer<typeof productAreaSchema>;
+
+export const productAreaClassificationSchema = z.object({
+  category: productAreaSchema.describe("Product area the request belongs to"),
+  confidence: z.number().min(0).max(1).describe("Confidence in the category, 0-1"),
+  rationale: z.string().describe("One or two sentences on why this area was chosen"),
+});
+
+export type ProductAreaClassification = z.infer<typeof productAreaClassificationSchema>;
+
+/**
+ * JSON Schema (draft 2020-12) for consumers outside this codebase,
+ * e.g. API docs or clients that enqueue submissions
+ */
+export const featureRequestJsonSchemas = {
+  featureRequestInput: z.toJSONSchema(featureRequestInputSchema),
+  parsedSubmission: z.toJSONSchema(parsedSubmissionSchema),
+  jiraStory: z.toJSONSchema(jiraStorySchema),
+  bugReport: z.toJSONSchema(bugReportSchema),
+};
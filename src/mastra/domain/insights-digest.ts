@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+/**
+ * Insights Digest Domain
+ *
+ * Schemas for the periodic digest that clusters submissions into themes
+ * (see insights/theme-clustering.ts and workflows/insights-digest-workflow.ts).
+ */
+
+export const DIGEST_PERIODS = ["weekly", "monthly"] as const;
+
+export type DigestPeriod = (typeof DIGEST_PERIODS)[number];
+
+export const digestWindowSchema = z.object({
+  period: z.enum(DIGEST_PERIODS),
+  from: z.string().describe("Start of the period, inclusive (ISO 8601)"),
+  to: z.string().describe("End of the period, exclusive (ISO 8601)"),
+  label: z.string().describe("Human-readable period, e.g. \"Week of 2026-10-12\""),
+});
+
+export type DigestWindow = z.infer<typeof digestWindowSchema>;
+
+export const themeStatsSchema = z.object({
+  themeId: z.string(),
+  rank: z.number().int().min(1),
+  volume: z.number().int().describe("Submissions in the theme"),
+  weightedVolume: z.number().describe("Volume weighted by usage frequency"),
+  serviceSpread: z.number().min(0).max(1).describe("Share of the period's service types that asked for the theme"),
+  serviceTypes: z.record(z.string(), z.number()),
+  category: z.string().optional(),
+  trackerKeys: z.array(z.string()),
+  score: z.number(),
+});
+
+export type ThemeStats = z.infer<typeof themeStatsSchema>;
+
+// What the digest agent writes for one theme
+export const themeDigestSchema = z.object({
+  themeId: z.string().describe("Id of the theme, exactly as given"),
+  title: z.string().describe("Short name for the theme, e.g. \"Spanish appointment reminders\""),
+  summary: z.string().describe("Two or three sentences on what users are asking for and why"),
+  quotes: z.array(z.string()).max(3).describe("One to three verbatim excerpts from the theme's submissions"),
+  suggestedAction: z.string().describe("One sentence on what the product team could do next"),
+});
+
+export type ThemeDigest = z.infer<typeof themeDigestSchema>;
+
+export const generatedDigestSchema = z.object({
+  headline: z.string().describe("One sentence on the most important trend of the period"),
+  themes: z.array(themeDigestSchema),
+});
+
+export type GeneratedDigest = z.infer<typeof generatedDigestSchema>;
+
+export const insightsDigestSchema = z.object({
+  window: digestWindowSchema,
+  submissionCount: z.number().int(),
+  themeCount: z.number().int().describe("All themes found; only the top ones are written up"),
+  headline: z.string(),
+  themes: z.array(themeDigestSchema.extend({ stats: themeStatsSchema })),
+  generatedAt: z.string(),
+});
+
+export type InsightsDigest = z.infer<typeof insightsDigestSchema>;
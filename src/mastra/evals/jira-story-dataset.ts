@@ -0,0 +1,87 @@
+import type { ParsedSubmission } from "../domain/feature-request";
+
+/**
+ * Golden Dataset: Jira Story Generation
+ *
+ * Anonymized Typeform submissions used to regression-test the Jira agent.
+ * Wording is kept close to what pros actually send; names, numbers and
+ * addresses are made up (phone numbers use the fictional 555-01xx range).
+ * Some cases deliberately contain PII so the eval exercises redaction and
+ * the leakage scorer. Add a case, then record it with `npm run eval:jira -- --record --case <id>`.
+ */
+
+export interface JiraStoryEvalCase {
+  id: string;
+  // What the case is meant to exercise
+  purpose: string;
+  submission: ParsedSubmission;
+}
+
+export const jiraStoryEvalCases: JiraStoryEvalCase[] = [
+  {
+    id: "spanish-reminders",
+    purpose: "Clear, well-scoped messaging request",
+    submission: {
+      featureDescription:
+        "About half my clients speak Spanish as their first language. I'd love appointment confirmations and reminder texts to go out in Spanish for the clients I mark as Spanish speakers. Right now I copy the reminder into Google Translate and text them myself.",
+      usageFrequency: "Multiple times a day",
+      serviceTypes: "Hair",
+      userInterests: "Client communication, Marketing",
+    },
+  },
+  {
+    id: "no-show-deposits",
+    purpose: "Payments request containing a client name and phone number",
+    submission: {
+      featureDescription:
+        "Last month my client Dana Whitfield no-showed twice and I had no way to charge her. I want to require a deposit only for clients who have no-showed before, not for everyone. She even texted me from (555) 010-0147 saying she forgot. Deposits for everyone scare off new clients.",
+      usageFrequency: "A few times a week",
+      serviceTypes: "Nails",
+      userInterests: "Payments, Booking",
+    },
+  },
+  {
+    id: "recurring-appointments",
+    purpose: "Calendar request with account context from hidden fields",
+    submission: {
+      featureDescription:
+        "Most of my regulars come every 4 or 6 weeks. Let me book a recurring series in one go instead of rebooking each appointment at checkout, and warn me if one of the dates clashes with my time off.",
+      usageFrequency: "Once a day",
+      serviceTypes: "Hair, Barber",
+      userInterests: "Calendar, Booking",
+      context: {
+        hiddenFields: { account_id: "acct_0193", plan_tier: "gold", app_version: "4.12.0" },
+      },
+    },
+  },
+  {
+    id: "waitlist",
+    purpose: "Booking website request with a competitor comparison",
+    submission: {
+      featureDescription:
+        "When I'm fully booked, clients just leave my booking page. Other apps have a waitlist where clients pick the days they can do and get a text when something opens up. I'd want to approve who gets the slot, not first come first served.",
+      usageFrequency: "A few times a week",
+      serviceTypes: "Esthetician, Lashes",
+      userInterests: "Booking website",
+    },
+  },
+  {
+    id: "client-photos",
+    purpose: "Client management request containing a street address",
+    submission: {
+      featureDescription:
+        "I do a lot of color work and need before/after photos on each client's profile with the formula I used. I also do house calls, e.g. at 48 Linden Street, Apt 3, and would like to save notes on parking for each client. Photos in my camera roll get lost.",
+      usageFrequency: "Once a day",
+      serviceTypes: "Hair",
+      userInterests: "Client management",
+    },
+  },
+  {
+    id: "vague-speed",
+    purpose: "Vague request where the agent has to state its assumptions",
+    submission: {
+      featureDescription: "The app is slow sometimes, please make it faster.",
+      usageFrequency: "Less than once a week",
+    },
+  },
+];
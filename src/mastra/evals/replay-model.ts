@@ -0,0 +1,53 @@
+import type { MastraModelConfig } from "@mastra/core/llm";
+
+/**
+ * Replay Model
+ *
+ * A language model that returns previously recorded responses in order,
+ * so evals can run offline and deterministically. Implements the parts of
+ * the AI SDK v2 model interface that agents use (generate and stream).
+ */
+export function createReplayModel(responses: string[], modelId = "replay"): MastraModelConfig {
+  const queue = [...responses];
+
+  const next = (): string => {
+    const text = queue.shift();
+    if (text === undefined) {
+      throw new Error(`Replay model ${modelId} has no recorded response left`);
+    }
+    return text;
+  };
+
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  const model = {
+    specificationVersion: "v2",
+    provider: "replay",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async () => ({
+      content: [{ type: "text", text: next() }],
+      finishReason: "stop",
+      usage,
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      warnings: [],
+    }),
+    doStream: async () => {
+      const text = next();
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "0" });
+          controller.enqueue({ type: "text-delta", id: "0", delta: text });
+          controller.enqueue({ type: "text-end", id: "0" });
+          controller.enqueue({ type: "finish", finishReason: "stop", usage });
+          controller.close();
+        },
+      });
+      return { stream, rawCall: { rawPrompt: null, rawSettings: {} } };
+    },
+  };
+
+  // The v2 interface types come from a provider package we don't depend on directly
+  return model as unknown as MastraModelConfig;
+}
@@ -0,0 +1,274 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import type { ScorerRunInputForAgent, ScorerRunOutputForAgent } from "@mastra/core/scores";
+import { jiraFeatureRequestAgent } from "../agents/jira-feature-request-agent";
+import { sanitizeFields } from "../privacy/pii-sanitizer";
+import { buildJiraStoryPrompt } from "../workflows/feature-request-workflow";
+import {
+  DEFAULT_JUDGE_MODEL,
+  acceptanceCriteriaScorer,
+  createFaithfulnessScorer,
+  piiLeakageScorer,
+  storyPointsScorer,
+  storySchemaScorer,
+  type JiraStoryGroundTruth,
+} from "../scorers/jira-story-scorers";
+import { jiraStoryEvalCases, type JiraStoryEvalCase } from "./jira-story-dataset";
+import { createReplayModel } from "./replay-model";
+
+/**
+ * Jira Story Eval CLI
+ *
+ * Runs the Jira story scorers over the golden dataset. By default it replays
+ * recorded agent and judge responses, so it runs offline, costs nothing and
+ * gives the same report every time. After changing the agent prompt, re-record
+ * with --record (needs model API keys) and compare the reports.
+ *
+ * Usage:
+ *   npm run eval:jira                          # offline, prints a Markdown report
+ *   npm run eval:jira -- --report report.md    # also write the report to a file
+ *   npm run eval:jira -- --json report.json    # machine-readable results
+ *   npm run eval:jira -- --record              # call the live models and update recordings
+ *   npm run eval:jira -- --case waitlist       # run a single case
+ *
+ * Exits with code 1 when any scorer's average falls below its threshold.
+ */
+
+const DEFAULT_RECORDINGS_PATH = fileURLToPath(new URL("./jira-story-recordings.json", import.meta.url));
+
+// Minimum average score per scorer for the suite to pass
+const THRESHOLDS: Record<ScorerKey, number> = {
+  storySchema: 1,
+  acceptanceCriteria: 0.9,
+  storyPoints: 1,
+  piiLeakage: 1,
+  faithfulness: 0.7,
+};
+
+type ScorerKey = "storySchema" | "acceptanceCriteria" | "storyPoints" | "piiLeakage" | "faithfulness";
+
+const SCORER_KEYS = Object.keys(THRESHOLDS) as ScorerKey[];
+
+interface CaseRecording {
+  response: string;
+  judgeResponse: string;
+}
+
+interface Recordings {
+  recordedAt: string;
+  agentModel: string;
+  judgeModel: string;
+  cases: Record<string, CaseRecording>;
+}
+
+interface CaseResult {
+  id: string;
+  purpose: string;
+  scores: Partial<Record<ScorerKey, { score: number; reason?: string }>>;
+  error?: string;
+}
+
+function loadRecordings(path: string): Recordings {
+  if (!existsSync(path)) {
+    return { recordedAt: "", agentModel: "", judgeModel: "", cases: {} };
+  }
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+interface AgentScorerRun {
+  input: ScorerRunInputForAgent;
+  output: ScorerRunOutputForAgent;
+  groundTruth: JiraStoryGroundTruth;
+}
+
+/**
+ * Shapes a prompt/response pair like the run an agent hands to its scorers
+ */
+function toAgentRun(prompt: string, response: string, groundTruth: JiraStoryGroundTruth): AgentScorerRun {
+  return {
+    input: {
+      inputMessages: [{ id: "prompt", role: "user", content: prompt, parts: [{ type: "text", text: prompt }] }],
+      rememberedMessages: [],
+      systemMessages: [],
+      taggedSystemMessages: {},
+    },
+    output: [{ id: "response", role: "assistant", content: response, parts: [{ type: "text", text: response }] }],
+    groundTruth,
+  };
+}
+
+async function evaluateCase(
+  evalCase: JiraStoryEvalCase,
+  recordings: Recordings,
+  record: boolean
+): Promise<CaseResult> {
+  const result: CaseResult = { id: evalCase.id, purpose: evalCase.purpose, scores: {} };
+
+  // Same redaction the workflow applies before the agent sees anything
+  const { sanitized, matches } = sanitizeFields(evalCase.submission);
+  const prompt = buildJiraStoryPrompt(sanitized);
+  const groundTruth: JiraStoryGroundTruth = { knownPiiValues: matches.map((match) => match.value) };
+
+  let response: string;
+  if (record) {
+    console.log(`🎙️ Recording ${evalCase.id}...`);
+    response = (await jiraFeatureRequestAgent.generate(prompt)).text.trim();
+  } else {
+    const recording = recordings.cases[evalCase.id];
+    if (!recording) {
+      result.error = "No recorded response; run with --record";
+      return result;
+    }
+    response = recording.response;
+  }
+
+  const run = toAgentRun(prompt, response, groundTruth);
+  const deterministicScorers = {
+    storySchema: storySchemaScorer,
+    acceptanceCriteria: acceptanceCriteriaScorer,
+    storyPoints: storyPointsScorer,
+    piiLeakage: piiLeakageScorer,
+  };
+  for (const [key, scorer] of Object.entries(deterministicScorers)) {
+    const { score, reason } = await scorer.run(run);
+    result.scores[key as ScorerKey] = { score, reason };
+  }
+
+  // Replays store the judge's structured verdict, which the replay model returns verbatim
+  const judgeModel = record ? undefined : createReplayModel([recordings.cases[evalCase.id]!.judgeResponse], `judge:${evalCase.id}`);
+  const faithfulness = await createFaithfulnessScorer(judgeModel).run(run);
+  result.scores.faithfulness = { score: faithfulness.score, reason: faithfulness.reason };
+
+  if (record) {
+    recordings.cases[evalCase.id] = {
+      response,
+      judgeResponse: JSON.stringify(faithfulness.analyzeStepResult),
+    };
+  }
+
+  return result;
+}
+
+function average(results: CaseResult[], key: ScorerKey): number | undefined {
+  const scores = results
+    .map((result) => result.scores[key]?.score)
+    .filter((score): score is number => typeof score === "number");
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+}
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? "–" : score.toFixed(2);
+}
+
+function renderReport(results: CaseResult[], recordings: Recordings, mode: string): { markdown: string; passed: boolean } {
+  const lines: string[] = [
+    "# Jira Story Eval Report",
+    "",
+    `- **Mode:** ${mode}`,
+    `- **Recordings:** ${recordings.recordedAt || "none"} (agent ${recordings.agentModel || "?"}, judge ${recordings.judgeModel || "?"})`,
+    `- **Cases:** ${results.length}`,
+    "",
+    `| Case | ${SCORER_KEYS.join(" | ")} |`,
+    `| --- | ${SCORER_KEYS.map(() => "---").join(" | ")} |`,
+  ];
+  for (const result of results) {
+    const cells = result.error
+      ? SCORER_KEYS.map(() => "error")
+      : SCORER_KEYS.map((key) => formatScore(result.scores[key]?.score));
+    lines.push(`| ${result.id} | ${cells.join(" | ")} |`);
+  }
+
+  let passed = true;
+  lines.push("", "## Summary", "", "| Scorer | Average | Threshold | Result |", "| --- | --- | --- | --- |");
+  for (const key of SCORER_KEYS) {
+    const avg = average(results, key);
+    const ok = avg !== undefined && avg >= THRESHOLDS[key];
+    passed &&= ok;
+    lines.push(`| ${key} | ${formatScore(avg)} | ${THRESHOLDS[key].toFixed(2)} | ${ok ? "✅ pass" : "❌ fail"} |`);
+  }
+  if (results.some((result) => result.error)) {
+    passed = false;
+  }
+
+  const details = results.filter((result) =>
+    result.error || SCORER_KEYS.some((key) => (result.scores[key]?.score ?? 1) < THRESHOLDS[key])
+  );
+  if (details.length > 0) {
+    lines.push("", "## Details", "");
+    for (const result of details) {
+      lines.push(`### ${result.id}`, "", `_${result.purpose}_`, "");
+      if (result.error) {
+        lines.push(`- **error:** ${result.error}`);
+      }
+      for (const key of SCORER_KEYS) {
+        const entry = result.scores[key];
+        if (entry && entry.score < THRESHOLDS[key]) {
+          lines.push(`- **${key}** (${formatScore(entry.score)}): ${entry.reason ?? ""}`);
+        }
+      }
+      lines.push("");
+    }
+  }
+
+  lines.push("", passed ? "**Result: PASS**" : "**Result: FAIL**");
+  return { markdown: lines.join("\n"), passed };
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      record: { type: "boolean", default: false },
+      case: { type: "string", multiple: true },
+      recordings: { type: "string", default: DEFAULT_RECORDINGS_PATH },
+      report: { type: "string" },
+      json: { type: "string" },
+    },
+  });
+
+  const recordings = loadRecordings(values.recordings!);
+  const selected = values.case?.length
+    ? jiraStoryEvalCases.filter((evalCase) => values.case!.includes(evalCase.id))
+    : jiraStoryEvalCases;
+  if (selected.length === 0) {
+    throw new Error(`No eval cases match: ${values.case!.join(", ")}`);
+  }
+
+  const results: CaseResult[] = [];
+  for (const evalCase of selected) {
+    try {
+      results.push(await evaluateCase(evalCase, recordings, values.record!));
+    } catch (error) {
+      results.push({
+        id: evalCase.id,
+        purpose: evalCase.purpose,
+        scores: {},
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (values.record) {
+    recordings.recordedAt = new Date().toISOString();
+    recordings.agentModel = String(jiraFeatureRequestAgent.model);
+    recordings.judgeModel = process.env.EVAL_JUDGE_MODEL || DEFAULT_JUDGE_MODEL;
+    writeFileSync(values.recordings!, JSON.stringify(recordings, null, 2) + "\n");
+    console.log(`💾 Saved recordings to ${values.recordings}`);
+  }
+
+  const { markdown, passed } = renderReport(results, recordings, values.record ? "live (recording)" : "offline replay");
+  console.log(markdown);
+  if (values.report) {
+    writeFileSync(values.report, markdown + "\n");
+  }
+  if (values.json) {
+    writeFileSync(values.json, JSON.stringify({ passed, thresholds: THRESHOLDS, results }, null, 2) + "\n");
+  }
+
+  process.exitCode = passed ? 0 : 1;
+}
+
+main().catch((error) => {
+  console.error("Eval run failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,59 @@
+import type { SubmissionLanguage } from "../domain/feature-request";
+
+/**
+ * Submission Language Helpers
+ *
+ * Most submissions are in English, so an obviously English description skips
+ * the translator agent. The check is deliberately conservative: anything
+ * with non-ASCII letters or too few English function words goes to the agent.
+ */
+
+const ENGLISH_STOPWORDS = new Set([
+  "the", "and", "to", "a", "of", "i", "my", "is", "it", "for", "in", "that",
+  "would", "be", "with", "when", "can", "have", "like", "so", "they", "on",
+  "this", "we", "want", "need", "clients", "but", "not", "are", "do", "if",
+]);
+
+// Frequent Spanish/Portuguese words that survive the ASCII check (accented text never gets this far)
+const NON_ENGLISH_STOPWORDS = new Set([
+  "de", "la", "que", "el", "en", "los", "las", "por", "para", "con", "una", "um",
+  "uma", "como", "mis", "meus", "minhas", "es", "y", "o", "e",
+]);
+
+export const ENGLISH: SubmissionLanguage = { code: "en", name: "English", translated: false };
+
+/**
+ * True when the text is very likely English without asking a model
+ */
+export function looksLikeEnglish(text: string): boolean {
+  if (/[^\u0000-\u007f‘’“”–—…]/.test(text)) {
+    return false;
+  }
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  if (words.length === 0) {
+    return false;
+  }
+  const english = words.filter((word) => ENGLISH_STOPWORDS.has(word)).length;
+  const other = words.filter((word) => NON_ENGLISH_STOPWORDS.has(word)).length;
+  return english >= Math.min(3, words.length) && english / words.length >= 0.15 && other <= english / 4;
+}
+
+/**
+ * Jira label recording the submission language, e.g. "lang-es"
+ */
+export function languageLabel(language: SubmissionLanguage): string {
+  return `lang-${language.code.toLowerCase()}`;
+}
+
+/**
+ * Appendix with the submitter's own words, added to translated stories
+ */
+export function formatOriginalTextAppendix(language: SubmissionLanguage): string {
+  return [
+    `## Original Submission (${language.name})`,
+    "",
+    "_The request above was generated from an English translation of this text._",
+    "",
+    language.originalDescription ?? "",
+  ].join("\n");
+}
@@ -0,0 +1,237 @@
+import type { Mastra } from "@mastra/core/mastra";
+import { randomUUID } from "node:crypto";
+import { normalizeTypeformResponse } from "../intake/typeform-source";
+import { sanitizeFeatureRequestInput } from "../privacy/pii-sanitizer";
+import { recordFailure } from "../queue/feature-request-worker";
+import { idempotencyLedger } from "../storage/idempotency-ledger";
+import {
+  importStore,
+  type ImportRecord,
+  type ImportRow,
+  type ImportRowOutcome,
+  type ImportRowStatus,
+  type ImportSummary,
+  type NewImportRow,
+} from "../storage/imports";
+import { detectExportFormat, parseTypeformExport, type ExportFormat } from "./typeform-export";
+
+/**
+ * Typeform Import Runner
+ *
+ * Runs historical Typeform responses through featureRequestWorkflow. Rows are
+ * mapped like webhook deliveries and share the webhook's idempotency keys, so
+ * a response that already arrived through the webhook (or an earlier import)
+ * is reported as a duplicate instead of creating a second story.
+ *
+ * Every row's state is stored (storage/imports.ts): running the same import
+ * again resumes it, skipping rows that are already done. Rows are processed
+ * with bounded concurrency, and run starts are spaced out to stay under the
+ * model providers' rate limits.
+ */
+
+export const DEFAULT_IMPORT_CONCURRENCY = 2;
+export const MAX_IMPORT_CONCURRENCY = 10;
+export const DEFAULT_IMPORT_RATE_PER_MINUTE = 30;
+
+// Marks imported submissions in their source metadata
+const IMPORT_CHANNEL = "import";
+
+export interface ImportRunOptions {
+  concurrency?: number;
+  // Maximum workflow runs started per minute
+  ratePerMinute?: number;
+  // Queue rows that failed in an earlier pass again
+  retryFailed?: boolean;
+  // Called after each row, e.g. for CLI progress
+  onRow?: (row: ImportRow, status: ImportRowStatus) => void;
+}
+
+/**
+ * Parses an export and stores it as a new import; nothing runs yet
+ */
+export async function createTypeformImport(
+  text: string,
+  options: { source: string; format?: ExportFormat; formId?: string }
+): Promise<ImportRecord> {
+  const exportRows = parseTypeformExport(text, options);
+
+  const rows: NewImportRow[] = exportRows.map((row): NewImportRow => {
+    if (!row.payload) {
+      return { rowNumber: row.rowNumber, externalId: row.token, status: "failed", error: row.error };
+    }
+    const result = normalizeTypeformResponse(row.payload, IMPORT_CHANNEL);
+    switch (result.outcome) {
+      case "accepted":
+        return {
+          rowNumber: row.rowNumber,
+          externalId: row.token,
+          status: "pending",
+          input: result.input,
+          idempotencyKeys: result.idempotencyKeys,
+        };
+      case "ignored":
+        return { rowNumber: row.rowNumber, externalId: row.token, status: "skipped", error: result.message };
+      case "rejected":
+        return { rowNumber: row.rowNumber, externalId: row.token, status: "failed", error: result.error };
+    }
+  });
+
+  const format = options.format ?? detectExportFormat(text);
+  const record = await importStore.create({ source: options.source, format, formId: options.formId }, rows);
+  console.log(`📦 Import ${record.id}: ${rows.length} row(s) from ${options.source}`);
+  return record;
+}
+
+/**
+ * Spaces calls to acquire() at least 60s / ratePerMinute apart
+ */
+function createRateLimiter(ratePerMinute: number): () => Promise<void> {
+  const intervalMs = 60_000 / ratePerMinute;
+  let nextStartAt = 0;
+  return async () => {
+    const now = Date.now();
+    const startAt = Math.max(now, nextStartAt);
+    nextStartAt = startAt + intervalMs;
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  };
+}
+
+async function processRow(mastra: Mastra, row: ImportRow): Promise<ImportRowOutcome> {
+  // A row that ran before (interrupted or failed) runs again under its own run id
+  const runId = row.runId ?? randomUUID();
+  if (!row.runId) {
+    // Recorded before the keys are claimed, so an import interrupted in between
+    // never finds the keys held by a run its row does not know about
+    await importStore.setRowRun(row.importId, row.rowNumber, runId);
+  }
+
+  if (row.idempotencyKeys.length > 0) {
+    const claim = await idempotencyLedger.claim(row.idempotencyKeys, runId);
+    // The keys are still held by this row's own run when an interrupted import resumes
+    if (!claim.claimed && claim.runId !== runId) {
+      return { status: "duplicate", runId: claim.runId, error: `Already processed as run ${claim.runId}` };
+    }
+  }
+
+  try {
+    const workflow = mastra.getWorkflow("featureRequestWorkflow");
+    const run = await workflow.createRunAsync({ runId });
+    const result = await run.start({ inputData: row.input! });
+
+    if (result.status === "success") {
+      return { status: result.result.outcome === "duplicate" ? "duplicate" : "created", runId };
+    }
+    if (result.status === "suspended") {
+      return { status: "awaiting_review", runId };
+    }
+    throw new Error(
+      result.status === "failed" && result.error instanceof Error
+        ? result.error.message
+        : String((result as { error?: unknown }).error ?? `Workflow ${result.status}`)
+    );
+  } catch (error) {
+    // Workflow errors can arrive as serialized strings including the stack; keep the first line only
+    const message = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+    await recordFailure(runId, message);
+    // Let a retry of this row (or a later webhook delivery) process the response
+    if (row.idempotencyKeys.length > 0) {
+      await idempotencyLedger.release(row.idempotencyKeys, runId).catch((releaseError) => {
+        console.error("Failed to release idempotency keys:", releaseError);
+      });
+    }
+    return { status: "failed", runId, error: message };
+  }
+}
+
+const activeImports = new Map<string, Promise<ImportSummary>>();
+
+/**
+ * Processes an import's remaining rows and returns its summary. Calling it
+ * again for the same import in the same process joins the running pass.
+ */
+export function runImport(mastra: Mastra, importId: string, options: ImportRunOptions = {}): Promise<ImportSummary> {
+  let running = activeImports.get(importId);
+  if (!running) {
+    running = (async () => {
+      const record = await importStore.get(importId);
+      if (!record) {
+        throw new Error(`Import ${importId} not found`);
+      }
+      if (options.retryFailed) {
+        const requeued = await importStore.retryFailedRows(importId);
+        console.log(`🔁 Retrying ${requeued} failed row(s)`);
+      }
+      await importStore.setStatus(importId, "running");
+
+      const concurrency = Math.min(Math.max(1, options.concurrency ?? DEFAULT_IMPORT_CONCURRENCY), MAX_IMPORT_CONCURRENCY);
+      const acquire = createRateLimiter(Math.max(1, options.ratePerMinute ?? DEFAULT_IMPORT_RATE_PER_MINUTE));
+
+      const worker = async () => {
+        for (let row = await importStore.claimNextRow(importId); row; row = await importStore.claimNextRow(importId)) {
+          await acquire();
+          const outcome = await processRow(mastra, row);
+          // Only the redacted submission is kept once the row has run
+          await importStore.finishRow(importId, row.rowNumber, outcome, row.input && sanitizeFeatureRequestInput(row.input).submission);
+          if (outcome.status === "failed") {
+            console.error(`Import row ${row.rowNumber} failed:`, outcome.error);
+          }
+          options.onRow?.(row, outcome.status);
+        }
+      };
+      await Promise.all(Array.from({ length: concurrency }, worker));
+
+      // Rows still locked by an importer that died are picked up by a later resume once the lock expires
+      const summary = (await importStore.summary(importId))!;
+      if (summary.counts.pending + summary.counts.processing > 0) {
+        return summary;
+      }
+      await importStore.setStatus(importId, "completed");
+      return (await importStore.summary(importId))!;
+    })().finally(() => {
+      activeImports.delete(importId);
+    });
+    activeImports.set(importId, running);
+  }
+  return running;
+}
+
+export function isImportRunning(importId: string): boolean {
+  return activeImports.has(importId);
+}
+
+/**
+ * Markdown summary of an import: counts per outcome and every failed or skipped row
+ */
+export function formatImportReport(summary: ImportSummary): string {
+  const { counts } = summary;
+  const lines = [
+    `# Typeform import ${summary.id}`,
+    "",
+    `Source: ${summary.source} (${summary.format}${summary.formId ? `, form ${summary.formId}` : ""})`,
+    `Status: ${summary.status}`,
+    "",
+    "| Outcome | Rows |",
+    "| --- | --- |",
+    `| Created | ${counts.created} |`,
+    `| Awaiting review | ${counts.awaiting_review} |`,
+    `| Duplicate | ${counts.duplicate} |`,
+    `| Skipped | ${counts.skipped} |`,
+    `| Failed | ${counts.failed} |`,
+  ];
+  const remaining = counts.pending + counts.processing;
+  if (remaining > 0) {
+    lines.push(`| Not processed yet | ${remaining} |`);
+  }
+  lines.push(`| **Total** | ${summary.totalRows} |`);
+
+  if (summary.problems.length > 0) {
+    lines.push("", "## Failed and skipped rows", "", "| Row | Response | Outcome | Reason |", "| --- | --- | --- | --- |");
+    for (const problem of summary.problems) {
+      const reason = (problem.error ?? "").replace(/\|/g, "\\|");
+      lines.push(`| ${problem.rowNumber} | ${problem.externalId ?? ""} | ${problem.status} | ${reason} |`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,95 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { importStore } from "../storage/imports";
+import { createTypeformImport, formatImportReport, runImport } from "./import-runner";
+import type { ExportFormat } from "./typeform-export";
+
+/**
+ * Typeform Import CLI
+ *
+ * Runs a Typeform CSV export or responses API JSON dump through the feature
+ * request workflow (see import-runner.ts). Uses the same database as the
+ * server (DATABASE_URL), so duplicates of webhook deliveries are detected and
+ * an interrupted import can be resumed with its id. DATABASE_URL is required:
+ * the server's default file path is relative to .mastra/output, so from the
+ * repo root it would open a different database. For the local dev server's
+ * database, use DATABASE_URL=file:.mastra/mastra.db.
+ *
+ * Usage:
+ *   DATABASE_URL=libsql://... DATABASE_AUTH_TOKEN=... npm run import:typeform -- --file responses.csv --form-id aBcD1234
+ *   npm run import:typeform -- --file responses.json --concurrency 4 --rate 60
+ *   npm run import:typeform -- --resume <import id>                # continue after an interruption
+ *   npm run import:typeform -- --resume <import id> --retry-failed # also retry failed rows
+ *   npm run import:typeform -- --file responses.csv --report import.md --json import.json
+ *
+ * Exits with code 1 when any row failed.
+ */
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: "string" },
+      format: { type: "string" },
+      "form-id": { type: "string" },
+      resume: { type: "string" },
+      "retry-failed": { type: "boolean", default: false },
+      concurrency: { type: "string" },
+      rate: { type: "string" },
+      report: { type: "string" },
+      json: { type: "string" },
+    },
+  });
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("Set DATABASE_URL to the server's database (e.g. file:.mastra/mastra.db for the local dev server)");
+  }
+  if (!values.file === !values.resume) {
+    throw new Error("Pass either --file <export> or --resume <import id>");
+  }
+  if (values.format && values.format !== "csv" && values.format !== "json") {
+    throw new Error(`Unknown --format ${values.format}; use csv or json`);
+  }
+
+  let importId = values.resume;
+  if (values.file) {
+    const record = await createTypeformImport(readFileSync(values.file, "utf8"), {
+      source: basename(values.file),
+      format: values.format as ExportFormat | undefined,
+      formId: values["form-id"],
+    });
+    importId = record.id;
+    console.log(`Resume with: npm run import:typeform -- --resume ${record.id}`);
+  } else if (!(await importStore.get(importId!))) {
+    throw new Error(`Import ${importId} not found`);
+  }
+
+  // Loaded only now, so nothing opens the default database before DATABASE_URL is checked
+  const { mastra } = await import("../index");
+  let done = 0;
+  const summary = await runImport(mastra, importId!, {
+    concurrency: values.concurrency ? Number(values.concurrency) : undefined,
+    ratePerMinute: values.rate ? Number(values.rate) : undefined,
+    retryFailed: values["retry-failed"],
+    onRow: (row, status) => {
+      done++;
+      console.log(`[${done}] row ${row.rowNumber} (${row.externalId ?? "no token"}): ${status}`);
+    },
+  });
+
+  const markdown = formatImportReport(summary);
+  console.log(markdown);
+  if (values.report) {
+    writeFileSync(values.report, markdown + "\n");
+  }
+  if (values.json) {
+    writeFileSync(values.json, JSON.stringify(summary, null, 2) + "\n");
+  }
+
+  process.exitCode = summary.counts.failed > 0 ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error("Import failed:", error);
+  process.exitCode = 1;
+});
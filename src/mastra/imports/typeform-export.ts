@@ -0,0 +1,261 @@
+import { z } from "zod";
+import { typeformAnswerSchema, typeformWebhookSchema, type TypeformWebhook } from "../typeform/payload";
+
+/**
+ * Typeform Export Parsing
+ *
+ * Turns historical Typeform responses into the same payload shape the webhook
+ * receives, so they are mapped by the per-form field definitions in
+ * config/typeform-forms.ts exactly like live responses.
+ *
+ * Two formats are accepted:
+ * - CSV download (Results > Responses > Download > CSV): a "#" column with the
+ *   response token, one column per question titled like the question, hidden
+ *   fields, then "Start Date (UTC)", "Submit Date (UTC)", "Network ID", ...
+ *   Exports have no refs, so questions are matched by title.
+ * - Responses API JSON (GET /forms/{form_id}/responses): a page such as
+ *   { "items": [...] }, or an array of pages or items. Answers carry field refs;
+ *   a "form" key with the form definition (GET /forms/{form_id}) also makes
+ *   title matchers work.
+ *
+ * Neither format includes the form id, so pass it to use that form's mapping;
+ * without it the default form mapping applies.
+ */
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportRow {
+  // 1-based position in the export, for the summary report
+  rowNumber: number;
+  // Response token; undefined when the row has none and cannot be deduplicated
+  token?: string;
+  payload?: TypeformWebhook;
+  // Why the row could not be read
+  error?: string;
+}
+
+export interface ParseExportOptions {
+  format?: ExportFormat;
+  formId?: string;
+}
+
+// Fallback when no form id is given; only matches forms via defaultForm
+const UNKNOWN_FORM_ID = "import";
+
+const CSV_METADATA_COLUMNS = new Set([
+  "#",
+  "response type",
+  "start date (utc)",
+  "stage date (utc)",
+  "submit date (utc)",
+  "network id",
+  "tags",
+  "ending",
+]);
+
+// Hidden field columns are named after the field key (e.g. account_id), unlike question titles
+const HIDDEN_FIELD_COLUMN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, doubled quotes and line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Typeform CSV dates are "YYYY-MM-DD HH:MM:SS" in UTC
+ */
+function csvDateToIso(value: string | undefined): string | undefined {
+  if (!value?.trim()) return undefined;
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.trim().replace(" ", "T")}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function parseTypeformCsv(text: string, formId: string = UNKNOWN_FORM_ID): ExportRow[] {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return [];
+  }
+
+  const columnIndex = (name: string) => header.findIndex((title) => title.trim().toLowerCase() === name);
+  const tokenColumn = columnIndex("#");
+  const startColumn = columnIndex("start date (utc)");
+  const submitColumn = columnIndex("submit date (utc)");
+  if (tokenColumn === -1) {
+    throw new Error('Not a Typeform CSV export: missing the "#" column');
+  }
+
+  const questionColumns: number[] = [];
+  const hiddenColumns: number[] = [];
+  header.forEach((title, index) => {
+    const name = title.trim();
+    if (!name || CSV_METADATA_COLUMNS.has(name.toLowerCase())) return;
+    (HIDDEN_FIELD_COLUMN.test(name) ? hiddenColumns : questionColumns).push(index);
+  });
+  const fields = questionColumns.map((index) => ({
+    id: `column_${index}`,
+    type: "short_text",
+    title: header[index].trim(),
+  }));
+
+  return records.map((cells, position) => {
+    const rowNumber = position + 1;
+    const token = cells[tokenColumn]?.trim() || undefined;
+    if (!token) {
+      return { rowNumber, error: 'Missing response token ("#" column)' };
+    }
+
+    const submittedAt = csvDateToIso(cells[submitColumn]);
+    const payload = {
+      event_id: `import:${token}`,
+      event_type: "form_response",
+      form_response: {
+        form_id: formId,
+        token,
+        landed_at: csvDateToIso(cells[startColumn]) ?? submittedAt ?? "",
+        submitted_at: submittedAt ?? "",
+        definition: { id: formId, title: "", fields },
+        answers: questionColumns
+          .filter((index) => cells[index]?.trim())
+          .map((index) => ({
+            type: "text",
+            text: cells[index].trim(),
+            field: { id: `column_${index}`, type: "short_text" },
+          })),
+        hidden: Object.fromEntries(hiddenColumns.map((index) => [header[index].trim(), cells[index]?.trim() ?? ""])),
+      },
+    };
+    return { rowNumber, token, payload: typeformWebhookSchema.parse(payload) };
+  });
+}
+
+const definitionFieldSchema = z.object({
+  id: z.string(),
+  ref: z.string().optional(),
+  type: z.string(),
+  title: z.string(),
+});
+
+const apiResponseItemSchema = z.object({
+  token: z.string().optional(),
+  response_id: z.string().optional(),
+  landed_at: z.string().optional(),
+  submitted_at: z.string().optional(),
+  answers: z.array(typeformAnswerSchema).nullish(),
+  hidden: z.record(z.string(), z.string()).nullish(),
+  variables: typeformWebhookSchema.shape.form_response.shape.variables.nullish(),
+});
+
+const apiDumpPageSchema = z.object({
+  form: z.object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    fields: z.array(definitionFieldSchema).optional(),
+  }).optional(),
+  items: z.array(z.unknown()),
+});
+
+export function parseTypeformResponsesJson(text: string, formId?: string): ExportRow[] {
+  const body: unknown = JSON.parse(text);
+  const pages = Array.isArray(body)
+    ? body.some((entry) => entry && typeof entry === "object" && "items" in entry)
+      ? body
+      : [{ items: body }]
+    : [body];
+
+  const rows: ExportRow[] = [];
+  for (const page of pages) {
+    const parsedPage = apiDumpPageSchema.safeParse(page);
+    if (!parsedPage.success) {
+      throw new Error(`Not a Typeform responses export:\n${z.prettifyError(parsedPage.error)}`);
+    }
+    const { form, items } = parsedPage.data;
+    const pageFormId = formId ?? form?.id ?? UNKNOWN_FORM_ID;
+
+    for (const item of items) {
+      const rowNumber = rows.length + 1;
+      const parsedItem = apiResponseItemSchema.safeParse(item);
+      if (!parsedItem.success) {
+        rows.push({ rowNumber, error: `Invalid response: ${z.prettifyError(parsedItem.error)}` });
+        continue;
+      }
+
+      const response = parsedItem.data;
+      const token = response.token ?? response.response_id;
+      if (!token) {
+        rows.push({ rowNumber, error: "Missing response token" });
+        continue;
+      }
+      rows.push({
+        rowNumber,
+        token,
+        payload: {
+          event_id: `import:${token}`,
+          event_type: "form_response",
+          form_response: {
+            form_id: pageFormId,
+            token,
+            landed_at: response.landed_at ?? response.submitted_at ?? "",
+            submitted_at: response.submitted_at ?? "",
+            definition: { id: pageFormId, title: form?.title ?? "", fields: form?.fields ?? [] },
+            answers: response.answers ?? [],
+            hidden: response.hidden ?? undefined,
+            variables: response.variables ?? undefined,
+          },
+        },
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Guesses the format from the content when it is not given: JSON dumps start
+ * with an object or array, CSV exports with the header row
+ */
+export function detectExportFormat(text: string): ExportFormat {
+  return /^\uFEFF?\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+export function parseTypeformExport(text: string, options: ParseExportOptions = {}): ExportRow[] {
+  const format = options.format ?? detectExportFormat(text);
+  return format === "csv" ? parseTypeformCsv(text, options.formId) : parseTypeformResponsesJson(text, options.formId);
+}
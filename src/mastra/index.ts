@@ -5,42 +5,116 @@ import { LibSQLStore } from "@mastra/libsql";
 // Agents
 import { typeformParserAgent } from "./agents/typeform-parser-agent";
 import { jiraFeatureRequestAgent } from "./agents/jira-feature-request-agent";
+import { submissionTranslatorAgent } from "./agents/submission-translator-agent";
+import { productAreaClassifierAgent } from "./agents/product-area-classifier-agent";
+import { requestTypeClassifierAgent } from "./agents/request-type-classifier-agent";
+import { bugReportAgent } from "./agents/bug-report-agent";
+import { insightsDigestAgent } from "./agents/insights-digest-agent";
+import { clarityAgent } from "./agents/clarity-agent";
 
 // Workflows
 import { featureRequestWorkflow } from "./workflows/feature-request-workflow";
+import { insightsDigestWorkflow } from "./workflows/insights-digest-workflow";
+
+// Vectors
+import { featureRequestVector } from "./vectors/feature-request-index";
 
 // Routes
-import { typeformWebhookRoute, typeformWebhookHealthRoute } from "./routes/typeform-webhook";
+import {
+  typeformWebhookRoute,
+  typeformWebhookHealthRoute,
+  typeformWebhookRunStatusRoute,
+  typeformWebhookWorkerRoute,
+  typeformWebhookDryRunRoute,
+} from "./routes/typeform-webhook";
+import { listReviewsRoute, approveReviewRoute, rejectReviewRoute, publishReviewRoute } from "./routes/reviews";
+import { emailIntakeRoute, zendeskIntakeRoute, jsonIntakeRoute } from "./routes/intake";
+import {
+  listFeatureRequestsRoute,
+  getFeatureRequestRoute,
+  regenerateFeatureRequestRoute,
+  bulkRegenerateFeatureRequestsRoute,
+  listStoryVersionsRoute,
+  chooseCanonicalVersionRoute,
+} from "./routes/feature-requests";
+import { createImportRoute, getImportRoute, resumeImportRoute } from "./routes/imports";
+import { runInsightsDigestRoute } from "./routes/digests";
+import { answerClarificationRoute, expireClarificationsRoute } from "./routes/clarifications";
+import { startFeatureRequestWorker } from "./queue/feature-request-worker";
+import { loadTypeformFormsConfig } from "./typeform/field-mapping";
+import { loadProductAreaRoutingConfig } from "./routing/product-area-routing";
+import { loadPriorityScoringConfig } from "./priority/priority-scoring";
+import { loadNotificationRulesConfig } from "./alerts/high-priority-alerts";
+import { getNotifier } from "./integrations/notifier";
+import { databaseConfigFromEnv } from "./storage/database";
 import { VercelDeployer } from "@mastra/deployer-vercel";
 
+// Fail fast on a broken form mapping instead of queueing empty submissions
+loadTypeformFormsConfig();
+loadProductAreaRoutingConfig();
+loadPriorityScoringConfig();
+loadNotificationRulesConfig();
+// Surfaces NOTIFIER misconfiguration now rather than on the first alert
+getNotifier();
+
 export const mastra = new Mastra({
   agents: { 
     typeformParserAgent,
     jiraFeatureRequestAgent,
+    submissionTranslatorAgent,
+    productAreaClassifierAgent,
+    requestTypeClassifierAgent,
+    bugReportAgent,
+    insightsDigestAgent,
+    clarityAgent,
   },
   workflows: { 
     featureRequestWorkflow,
+    insightsDigestWorkflow,
+  },
+  vectors: {
+    featureRequestVector,
   },
   deployer: new VercelDeployer({
     maxDuration: 300,
     memory: 1536,
     regions: ["iad1"],
   }),
-  storage: new LibSQLStore({
-    // Stores workflow snapshots, traces, etc.
-    // For production, change to: url: process.env.DATABASE_URL
-    url: ":memory:",
-  }),
+  // Workflow snapshots, traces, etc. share the application database (DATABASE_URL,
+  // a local file by default) so suspended reviews and run history survive restarts
+  storage: new LibSQLStore(databaseConfigFromEnv()),
   server: {
     port: 4111,
     apiRoutes: [
       typeformWebhookRoute,
       typeformWebhookHealthRoute,
+      typeformWebhookRunStatusRoute,
+      typeformWebhookWorkerRoute,
+      typeformWebhookDryRunRoute,
+      emailIntakeRoute,
+      zendeskIntakeRoute,
+      jsonIntakeRoute,
+      listReviewsRoute,
+      approveReviewRoute,
+      rejectReviewRoute,
+      publishReviewRoute,
+      listFeatureRequestsRoute,
+      getFeatureRequestRoute,
+      regenerateFeatureRequestRoute,
+      bulkRegenerateFeatureRequestsRoute,
+      listStoryVersionsRoute,
+      chooseCanonicalVersionRoute,
+      createImportRoute,
+      getImportRoute,
+      resumeImportRoute,
+      runInsightsDigestRoute,
+      answerClarificationRoute,
+      expireClarificationsRoute,
     ],
     cors: {
       origin: ["*"], // Configure for your domain in production
       allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-      allowHeaders: ["Content-Type", "Authorization", "X-Typeform-Signature"],
+      allowHeaders: ["Content-Type", "Authorization", "Typeform-Signature", "X-Typeform-Signature"],
     },
   },
   logger: new PinoLogger({
@@ -51,3 +125,8 @@ export const mastra = new Mastra({
     default: { enabled: true },
   },
 });
+
+// Long-running servers can poll the job queue; serverless deployments use the worker route instead
+if (process.env.FEATURE_REQUEST_WORKER === "poll") {
+  startFeatureRequestWorker(mastra, Number(process.env.FEATURE_REQUEST_WORKER_INTERVAL_MS) || undefined);
+}
@@ -0,0 +1,118 @@
+import type { InsightsDigest } from "../domain/insights-digest";
+
+/**
+ * Digest Rendering
+ *
+ * Markdown for chat and files, and a self-contained HTML page (inline styles
+ * only, so it also works as an email body).
+ */
+
+export function digestTitle(digest: InsightsDigest): string {
+  return `Product insights: ${digest.window.label}`;
+}
+
+function formatServiceTypes(serviceTypes: Record<string, number>): string {
+  const entries = Object.entries(serviceTypes).sort((a, b) => b[1] - a[1]);
+  return entries.length > 0 ? entries.map(([name, count]) => `${name} (${count})`).join(", ") : "not given";
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function renderDigestMarkdown(digest: InsightsDigest): string {
+  const lines = [
+    `# ${digestTitle(digest)}`,
+    "",
+    `${digest.submissionCount} feature request(s) in ${digest.themeCount} theme(s), ${digest.window.from.slice(0, 10)} to ${digest.window.to.slice(0, 10)} (exclusive).`,
+  ];
+  if (digest.themes.length === 0) {
+    lines.push("", "No feature requests were submitted in this period.");
+    return lines.join("\n");
+  }
+
+  lines.push("", `**${digest.headline}**`, "", "| # | Theme | Requests | Score | Area |", "| --- | --- | --- | --- | --- |");
+  for (const theme of digest.themes) {
+    lines.push(`| ${theme.stats.rank} | ${theme.title} | ${theme.stats.volume} | ${theme.stats.score} | ${theme.stats.category ?? ""} |`);
+  }
+
+  for (const theme of digest.themes) {
+    const { stats } = theme;
+    lines.push(
+      "",
+      `## ${stats.rank}. ${theme.title}`,
+      "",
+      theme.summary,
+      "",
+      `- Requests: ${stats.volume} (usage-weighted ${stats.weightedVolume.toFixed(1)})`,
+      `- Service types: ${formatServiceTypes(stats.serviceTypes)}; ${formatPercent(stats.serviceSpread)} of the period's service types`,
+    );
+    if (stats.trackerKeys.length > 0) {
+      lines.push(`- Tickets: ${stats.trackerKeys.join(", ")}`);
+    }
+    if (theme.quotes.length > 0) {
+      lines.push("");
+      for (const quote of theme.quotes) {
+        lines.push(`> ${quote.replace(/\s*\n\s*/g, " ")}`);
+      }
+    }
+    lines.push("", `**Suggested next step:** ${theme.suggestedAction}`);
+  }
+  return lines.join("\n");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderDigestHtml(digest: InsightsDigest): string {
+  const title = escapeHtml(digestTitle(digest));
+  const sections: string[] = [
+    `<h1 style="font-size:22px">${title}</h1>`,
+    `<p>${digest.submissionCount} feature request(s) in ${digest.themeCount} theme(s), ${escapeHtml(digest.window.from.slice(0, 10))} to ${escapeHtml(digest.window.to.slice(0, 10))} (exclusive).</p>`,
+  ];
+
+  if (digest.themes.length === 0) {
+    sections.push("<p>No feature requests were submitted in this period.</p>");
+  } else {
+    const rows = digest.themes
+      .map((theme) =>
+        `<tr><td>${theme.stats.rank}</td><td>${escapeHtml(theme.title)}</td><td>${theme.stats.volume}</td>` +
+        `<td>${theme.stats.score}</td><td>${escapeHtml(theme.stats.category ?? "")}</td></tr>`
+      )
+      .join("");
+    sections.push(
+      `<p><strong>${escapeHtml(digest.headline)}</strong></p>`,
+      `<table cellpadding="6" style="border-collapse:collapse" border="1"><tr><th>#</th><th>Theme</th><th>Requests</th><th>Score</th><th>Area</th></tr>${rows}</table>`
+    );
+
+    for (const theme of digest.themes) {
+      const { stats } = theme;
+      const tickets = stats.trackerKeys.length > 0 ? `<li>Tickets: ${escapeHtml(stats.trackerKeys.join(", "))}</li>` : "";
+      const quotes = theme.quotes
+        .map((quote) => `<blockquote style="border-left:3px solid #ccc;margin:8px 0;padding-left:12px;color:#555">${escapeHtml(quote)}</blockquote>`)
+        .join("");
+      sections.push(
+        `<h2 style="font-size:18px">${stats.rank}. ${escapeHtml(theme.title)}</h2>`,
+        `<p>${escapeHtml(theme.summary)}</p>`,
+        `<ul><li>Requests: ${stats.volume} (usage-weighted ${stats.weightedVolume.toFixed(1)})</li>` +
+          `<li>Service types: ${escapeHtml(formatServiceTypes(stats.serviceTypes))}; ${formatPercent(stats.serviceSpread)} of the period's service types</li>${tickets}</ul>`,
+        quotes,
+        `<p><strong>Suggested next step:</strong> ${escapeHtml(theme.suggestedAction)}</p>`
+      );
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;max-width:720px;margin:0 auto;padding:16px">
+${sections.filter(Boolean).join("\n")}
+</body>
+</html>`;
+}
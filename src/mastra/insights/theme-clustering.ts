@@ -0,0 +1,170 @@
+/**
+ * Theme Clustering
+ *
+ * Groups a period's submissions into themes by embedding similarity and ranks
+ * the themes for the insights digest. Each submission joins the theme whose
+ * centroid it is most similar to (at least the threshold), or starts a new one.
+ *
+ * Themes are ranked by
+ *   score = weighted volume × (1 + service spread)
+ * where weighted volume counts each submission as 1 plus its usage frequency
+ * weight (0-1, see USAGE_FREQUENCY_WEIGHTS), and service spread is the share
+ * of the period's service types that asked for the theme (0-1). A theme
+ * requested daily by hair, nail and lash pros outranks one requested as often
+ * by a single kind of business.
+ */
+
+export interface DigestSubmission {
+  id: string;
+  // Sanitized description; PII was redacted before it was stored
+  text: string;
+  usageFrequency?: string;
+  serviceTypes: string[];
+  category?: string;
+  summary?: string;
+  trackerKey?: string;
+  submittedAt: string;
+}
+
+export interface RankedTheme {
+  id: string;
+  submissions: DigestSubmission[];
+  // Submissions closest to the theme's centroid, most typical first
+  representatives: DigestSubmission[];
+  volume: number;
+  weightedVolume: number;
+  // Submissions per service type
+  serviceTypes: Record<string, number>;
+  serviceSpread: number;
+  // Most common product area among the theme's submissions
+  category?: string;
+  trackerKeys: string[];
+  score: number;
+}
+
+export const DEFAULT_THEME_SIMILARITY_THRESHOLD = 0.78;
+
+const REPRESENTATIVES_PER_THEME = 5;
+
+// Keyed by the usageFrequency answer, matched case-insensitively; unknown answers weigh 0
+export const USAGE_FREQUENCY_WEIGHTS: Record<string, number> = {
+  "multiple times a day": 1,
+  "once a day": 0.8,
+  "a few times a week": 0.6,
+  "once a week": 0.4,
+  "less than once a week": 0.2,
+  never: 0,
+};
+
+export function getThemeSimilarityThreshold(): number {
+  const configured = Number(process.env.DIGEST_THEME_SIMILARITY_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_THEME_SIMILARITY_THRESHOLD;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Splits a comma-separated answer ("Hair, Nails") into its values
+ */
+export function splitAnswer(value: string | undefined): string[] {
+  return (value || "").split(",").map((part) => part.trim()).filter(Boolean);
+}
+
+function usageWeight(usageFrequency: string | undefined): number {
+  return USAGE_FREQUENCY_WEIGHTS[(usageFrequency || "").trim().toLowerCase()] ?? 0;
+}
+
+interface Cluster {
+  members: Array<{ submission: DigestSubmission; embedding: number[] }>;
+  centroid: number[];
+}
+
+/**
+ * Greedy single-pass clustering in submission order, so the same period
+ * always produces the same themes
+ */
+export function clusterSubmissions(
+  items: Array<{ submission: DigestSubmission; embedding: number[] }>,
+  threshold: number = getThemeSimilarityThreshold()
+): Cluster[] {
+  const clusters: Cluster[] = [];
+  for (const item of items) {
+    let best: { cluster: Cluster; similarity: number } | undefined;
+    for (const cluster of clusters) {
+      const similarity = cosineSimilarity(item.embedding, cluster.centroid);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { cluster, similarity };
+      }
+    }
+
+    if (!best) {
+      clusters.push({ members: [item], centroid: [...item.embedding] });
+      continue;
+    }
+    const { cluster } = best;
+    cluster.members.push(item);
+    const size = cluster.members.length;
+    cluster.centroid = cluster.centroid.map((value, i) => value + (item.embedding[i] - value) / size);
+  }
+  return clusters;
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Scores the clusters and returns them as themes, highest score first
+ */
+export function rankThemes(clusters: Cluster[]): RankedTheme[] {
+  const periodServiceTypes = new Set(
+    clusters.flatMap((cluster) => cluster.members.flatMap((member) => member.submission.serviceTypes))
+  );
+
+  const themes = clusters.map((cluster): Omit<RankedTheme, "id"> => {
+    const submissions = cluster.members.map((member) => member.submission);
+    const serviceTypes: Record<string, number> = {};
+    for (const submission of submissions) {
+      for (const serviceType of submission.serviceTypes) {
+        serviceTypes[serviceType] = (serviceTypes[serviceType] || 0) + 1;
+      }
+    }
+
+    const weightedVolume = submissions.reduce((total, submission) => total + 1 + usageWeight(submission.usageFrequency), 0);
+    const serviceSpread = periodServiceTypes.size > 0 ? Object.keys(serviceTypes).length / periodServiceTypes.size : 0;
+    const representatives = [...cluster.members]
+      .sort((a, b) => cosineSimilarity(b.embedding, cluster.centroid) - cosineSimilarity(a.embedding, cluster.centroid))
+      .slice(0, REPRESENTATIVES_PER_THEME)
+      .map((member) => member.submission);
+
+    return {
+      submissions,
+      representatives,
+      volume: submissions.length,
+      weightedVolume,
+      serviceTypes,
+      serviceSpread,
+      category: mostCommon(submissions.map((submission) => submission.category)),
+      trackerKeys: [...new Set(submissions.map((submission) => submission.trackerKey).filter((key): key is string => !!key))],
+      score: Math.round(weightedVolume * (1 + serviceSpread) * 100) / 100,
+    };
+  });
+
+  return themes
+    .sort((a, b) => b.score - a.score || b.volume - a.volume)
+    .map((theme, index) => ({ id: `theme-${index + 1}`, ...theme }));
+}
@@ -0,0 +1,60 @@
+import { createHash } from "node:crypto";
+import { featureRequestInputSchema } from "../domain/feature-request";
+import { getIntakeSecrets, verifyBearerToken } from "../security/intake-auth";
+import { parseEml } from "./eml";
+import type { SubmissionSource } from "./types";
+
+/**
+ * Email Source
+ *
+ * Raw RFC 822 messages (.eml), e.g. Typeform email notifications or feature
+ * requests forwarded by the support team, posted by an inbound-mail webhook.
+ * The message becomes a raw_text submission, so the typeform parser agent
+ * extracts the fields after PII redaction. The sender's address is not part of
+ * the text: it is never needed for analysis.
+ */
+export const emailSource: SubmissionSource = {
+  type: "email",
+  name: "Email intake",
+
+  authenticate(delivery) {
+    const tokens = getIntakeSecrets("EMAIL_INTAKE_TOKEN");
+    if (tokens.length === 0) {
+      return "not_configured";
+    }
+    return verifyBearerToken(delivery.header("authorization"), tokens) ? "valid" : "invalid";
+  },
+
+  normalize(delivery) {
+    if (!delivery.rawBody.trim()) {
+      return { outcome: "rejected", error: "Empty email" };
+    }
+
+    const email = parseEml(delivery.rawBody);
+    if (!email.text) {
+      return { outcome: "rejected", error: "Email has no text body" };
+    }
+
+    console.log("\n📧 Email Received");
+    console.log("Message-ID:", email.messageId);
+
+    const submittedAt = email.date && !Number.isNaN(Date.parse(email.date))
+      ? new Date(email.date).toISOString()
+      : undefined;
+    // Without a Message-ID, the same bytes posted twice are still recognized
+    const externalId = email.messageId || createHash("sha256").update(delivery.rawBody).digest("hex");
+
+    return {
+      outcome: "accepted",
+      idempotencyKeys: [`email:message:${externalId}`],
+      input: featureRequestInputSchema.parse({
+        kind: "raw_text",
+        text: email.subject ? `Subject: ${email.subject}\n\n${email.text}` : email.text,
+        metadata: {
+          source: { type: "email", externalId: email.messageId },
+          submittedAt,
+        },
+      }),
+    };
+  },
+};
@@ -0,0 +1,158 @@
+/**
+ * Minimal RFC 822 / MIME Parser
+ *
+ * Just enough of MIME to read forwarded feature requests and Typeform email
+ * notifications: unfolded headers, RFC 2047 encoded subjects, multipart
+ * bodies, base64 and quoted-printable transfer encodings, and charsets. The
+ * text/plain part is preferred; HTML-only messages are reduced to text.
+ */
+
+export interface ParsedEmail {
+  headers: Record<string, string>;
+  subject?: string;
+  from?: string;
+  messageId?: string;
+  date?: string;
+  text: string;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function splitMessage(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, "\n");
+  const separator = normalized.indexOf("\n\n");
+  const head = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? "" : normalized.slice(separator + 2);
+
+  const headers: Record<string, string> = {};
+  // Folded header lines start with whitespace and continue the previous header
+  for (const line of head.replace(/\n[ \t]+/g, " ").split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(colon + 1).trim();
+    }
+  }
+  return { headers, body };
+}
+
+/**
+ * Reads a parameter such as boundary or charset from a structured header value
+ */
+function headerParam(value: string | undefined, param: string): string | undefined {
+  const match = value?.match(new RegExp(`(?:^|;)\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, "i"));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+function decodeBytes(bytes: Buffer, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return bytes.toString("utf8");
+  }
+}
+
+function quotedPrintableToBytes(text: string): Buffer {
+  const unwrapped = text.replace(/=\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (unwrapped[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(unwrapped[i], "utf8"));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decodes RFC 2047 encoded words, e.g. =?UTF-8?B?...?= or =?ISO-8859-1?Q?...?=
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toUpperCase() === "B"
+        ? Buffer.from(encoded, "base64")
+        : quotedPrintableToBytes(encoded.replace(/_/g, " "));
+      return decodeBytes(bytes, charset);
+    });
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers["content-transfer-encoding"] || "").toLowerCase();
+  const charset = headerParam(part.headers["content-type"], "charset");
+  if (encoding === "base64") {
+    return decodeBytes(Buffer.from(part.body.replace(/\s+/g, ""), "base64"), charset);
+  }
+  if (encoding === "quoted-printable") {
+    return decodeBytes(quotedPrintableToBytes(part.body), charset);
+  }
+  return part.body;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+/**
+ * Finds the best text body: the first text/plain part, else the first text/html part
+ */
+function extractText(part: MimePart): { text: string; html: boolean } | null {
+  const contentType = (part.headers["content-type"] || "text/plain").toLowerCase();
+
+  if (contentType.startsWith("multipart/")) {
+    const boundary = headerParam(part.headers["content-type"], "boundary");
+    if (!boundary) return null;
+    const children = part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((chunk) => !chunk.startsWith("--"))
+      .map((chunk) => splitMessage(chunk.replace(/^\n/, "")));
+    const texts = children.map(extractText).filter((text): text is { text: string; html: boolean } => text !== null);
+    return texts.find((text) => !text.html) ?? texts[0] ?? null;
+  }
+
+  if ((part.headers["content-disposition"] || "").toLowerCase().startsWith("attachment")) {
+    return null;
+  }
+  if (contentType.startsWith("text/plain")) {
+    return { text: decodeBody(part), html: false };
+  }
+  if (contentType.startsWith("text/html")) {
+    return { text: htmlToText(decodeBody(part)), html: true };
+  }
+  return null;
+}
+
+export function parseEml(raw: string): ParsedEmail {
+  const message = splitMessage(raw);
+  const { headers } = message;
+  const text = extractText(message)?.text ?? "";
+  return {
+    headers,
+    subject: headers.subject ? decodeHeaderValue(headers.subject) : undefined,
+    from: headers.from ? decodeHeaderValue(headers.from) : undefined,
+    messageId: headers["message-id"]?.replace(/^<|>$/g, ""),
+    date: headers.date,
+    text: text.trim(),
+  };
+}
@@ -0,0 +1,22 @@
+import type { SubmissionSourceType } from "../domain/feature-request";
+import { emailSource } from "./email-source";
+import { jsonSource } from "./json-source";
+import type { SubmissionSource } from "./types";
+import { typeformSource } from "./typeform-source";
+import { zendeskSource } from "./zendesk-source";
+
+export * from "./types";
+export { typeformSource } from "./typeform-source";
+export { emailSource } from "./email-source";
+export { zendeskSource } from "./zendesk-source";
+export { jsonSource } from "./json-source";
+
+/**
+ * Every intake adapter by source type; each one feeds featureRequestWorkflow
+ */
+export const submissionSources: Record<SubmissionSourceType, SubmissionSource> = {
+  typeform: typeformSource,
+  email: emailSource,
+  zendesk: zendeskSource,
+  json: jsonSource,
+};
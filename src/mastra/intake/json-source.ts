@@ -0,0 +1,85 @@
+import { z } from "zod";
+import {
+  featureRequestInputSchema,
+  submissionContextSchema,
+  submissionFieldsSchema,
+} from "../domain/feature-request";
+import { getIntakeSecrets, verifyBearerToken } from "../security/intake-auth";
+import type { SubmissionSource } from "./types";
+
+/**
+ * Generic JSON Source
+ *
+ * For the in-app feedback form and any other internal tool that can post our
+ * submission fields directly:
+ *
+ *   {
+ *     "id": "fb_123",                       // optional, makes redeliveries idempotent
+ *     "channel": "in-app",                  // optional, defaults to "api"
+ *     "featureDescription": "...",
+ *     "usageFrequency": "Once a day",       // optional, like the rest below
+ *     "serviceTypes": "Hair",
+ *     "userInterests": "Payments",
+ *     "contactEmail": "pro@example.com",
+ *     "submittedAt": "2026-10-01T10:00:00Z",
+ *     "kind": "feature_request",            // or "bug_report"
+ *     "context": { "hiddenFields": { "plan_tier": "gold", "app_version": "5.2.0" } }
+ *   }
+ */
+
+const DEFAULT_CHANNEL = "api";
+
+const jsonSubmissionSchema = submissionFieldsSchema.extend({
+  featureDescription: z.string().trim().min(1),
+  id: z.string().min(1).optional(),
+  channel: z.string().min(1).optional(),
+  submittedAt: z.iso.datetime({ offset: true }).optional(),
+  kind: z.enum(["feature_request", "bug_report"]).optional(),
+  context: submissionContextSchema.optional(),
+});
+
+export const jsonSource: SubmissionSource = {
+  type: "json",
+  name: "JSON intake",
+
+  authenticate(delivery) {
+    const tokens = getIntakeSecrets("JSON_INTAKE_TOKEN");
+    if (tokens.length === 0) {
+      return "not_configured";
+    }
+    return verifyBearerToken(delivery.header("authorization"), tokens) ? "valid" : "invalid";
+  },
+
+  normalize(delivery) {
+    let body;
+    try {
+      body = JSON.parse(delivery.rawBody);
+    } catch {
+      return { outcome: "rejected", error: "Invalid JSON body" };
+    }
+
+    const parseResult = jsonSubmissionSchema.safeParse(body);
+    if (!parseResult.success) {
+      return { outcome: "rejected", error: "Invalid submission", details: z.treeifyError(parseResult.error) };
+    }
+
+    const { id, channel = DEFAULT_CHANNEL, submittedAt, kind, context, ...fields } = parseResult.data;
+    console.log(`\n📨 JSON Submission Received (${channel})`);
+
+    return {
+      outcome: "accepted",
+      // Without an id every post is a new submission
+      idempotencyKeys: id ? [`json:${channel}:${id}`] : [],
+      input: featureRequestInputSchema.parse({
+        kind: "structured",
+        ...fields,
+        context,
+        metadata: {
+          source: { type: "json", externalId: id, channel },
+          submittedAt,
+          formKind: kind,
+        },
+      }),
+    };
+  },
+};
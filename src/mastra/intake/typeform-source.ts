@@ -0,0 +1,109 @@
+import {
+  TYPEFORM_SIGNATURE_HEADERS,
+  getTypeformWebhookSecrets,
+  verifyTypeformSignature,
+} from "../security/typeform-signature";
+import { getSubmissionContext, typeformWebhookSchema, type TypeformWebhook } from "../typeform/payload";
+import { featureRequestInputSchema } from "../domain/feature-request";
+import { PROCESSED_FORM_KINDS, mapTypeformResponse } from "../typeform/field-mapping";
+import type { IntakeResult, SubmissionSource } from "./types";
+
+/**
+ * Typeform Webhook Source
+ *
+ * form_response events, verified with the Typeform-Signature header and mapped
+ * onto our fields with the per-form definitions in config/typeform-forms.ts.
+ */
+export const typeformSource: SubmissionSource = {
+  type: "typeform",
+  name: "Typeform webhook",
+
+  authenticate(delivery) {
+    const secrets = getTypeformWebhookSecrets();
+    if (secrets.length === 0) {
+      return "not_configured";
+    }
+    const signatureHeader = TYPEFORM_SIGNATURE_HEADERS
+      .map((header) => delivery.header(header))
+      .find(Boolean);
+    const verification = verifyTypeformSignature(delivery.rawBody, signatureHeader, secrets);
+    if (!verification.valid) {
+      console.error("Rejected Typeform webhook: invalid signature", verification.reason);
+      return "invalid";
+    }
+    return "valid";
+  },
+
+  normalize(delivery) {
+    let body;
+    try {
+      body = JSON.parse(delivery.rawBody);
+    } catch {
+      return { outcome: "rejected", error: "Invalid JSON body" };
+    }
+
+    console.log("\n📥 Typeform Webhook Received");
+    console.log("Event ID:", body.event_id);
+    console.log("Event Type:", body.event_type);
+
+    // Only process form_response events
+    if (body.event_type !== "form_response") {
+      return { outcome: "ignored", message: "Event type ignored" };
+    }
+
+    const parseResult = typeformWebhookSchema.safeParse(body);
+    if (!parseResult.success) {
+      console.error("Invalid webhook payload:", parseResult.error);
+      return { outcome: "rejected", error: "Invalid webhook payload" };
+    }
+
+    const result = normalizeTypeformResponse(parseResult.data);
+    if (result.outcome !== "accepted") {
+      return result;
+    }
+    return { ...result, idempotencyKeys: [`typeform:event:${parseResult.data.event_id}`, ...result.idempotencyKeys] };
+  },
+};
+
+/**
+ * Maps a form response onto the workflow input. Shared by the webhook and the
+ * historical import, which builds the same payload from export rows.
+ */
+export function normalizeTypeformResponse(payload: TypeformWebhook, channel?: string): IntakeResult {
+  // Map the answers onto our fields using this form's configured definition
+  const mapping = mapTypeformResponse(payload);
+  if (!mapping.form) {
+    console.log("Ignoring response from unconfigured form:", mapping.formId);
+    return { outcome: "ignored", message: "Form not configured; response ignored" };
+  }
+  if (!(PROCESSED_FORM_KINDS as readonly string[]).includes(mapping.form.kind)) {
+    console.log(`Ignoring ${mapping.form.kind} response from form ${mapping.formId}`);
+    return { outcome: "ignored", message: `${mapping.form.name} responses are not processed` };
+  }
+
+  const featureDescription = mapping.values.featureDescription || "";
+  if (!featureDescription) {
+    console.error("Missing feature description in Typeform response");
+    return { outcome: "rejected", error: "Missing feature description" };
+  }
+
+  const response = payload.form_response;
+  return {
+    outcome: "accepted",
+    idempotencyKeys: [`typeform:response:${response.token}`],
+    input: featureRequestInputSchema.parse({
+      kind: "structured",
+      ...mapping.values,
+      featureDescription,
+      // Hidden fields (account ID, plan tier, app version) give the Jira agent extra context
+      context: getSubmissionContext(payload),
+      metadata: {
+        source: { type: "typeform", externalId: response.token, channel },
+        formId: response.form_id,
+        responseToken: response.token,
+        submittedAt: response.submitted_at,
+        formKind: mapping.form.kind,
+      },
+    }),
+  };
+}
@@ -0,0 +1,38 @@
+import type { FeatureRequestInput, SubmissionSourceType } from "../domain/feature-request";
+
+/**
+ * Intake Types
+ *
+ * Every channel a submission can arrive through (Typeform webhook, email,
+ * Zendesk, generic JSON) is a SubmissionSource. A source authenticates the
+ * delivery and normalizes it into the canonical workflow input, with source
+ * metadata attached; queueing, idempotency and responses are shared by all
+ * sources (see routes/intake.ts).
+ */
+
+export interface IntakeDelivery {
+  // Exact request body; signatures are computed over these bytes
+  rawBody: string;
+  header(name: string): string | undefined;
+}
+
+// not_configured means no secret is set for the source; production rejects such deliveries
+export type IntakeAuthentication = "valid" | "invalid" | "not_configured";
+
+export type IntakeResult =
+  | {
+      outcome: "accepted";
+      input: FeatureRequestInput;
+      // A repeat delivery matching any key resolves to the original run
+      idempotencyKeys: string[];
+    }
+  | { outcome: "ignored"; message: string }
+  | { outcome: "rejected"; error: string; details?: unknown };
+
+export interface SubmissionSource {
+  readonly type: SubmissionSourceType;
+  // Human-readable name for logs and error messages
+  readonly name: string;
+  authenticate(delivery: IntakeDelivery): IntakeAuthentication;
+  normalize(delivery: IntakeDelivery): IntakeResult;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { featureRequestInputSchema } from "../domain/feature-request";
+import {
+  ZENDESK_SIGNATURE_HEADER,
+  ZENDESK_TIMESTAMP_HEADER,
+  getIntakeSecrets,
+  verifyZendeskSignature,
+} from "../security/intake-auth";
+import type { SubmissionSource } from "./types";
+
+/**
+ * Zendesk Ticket Source
+ *
+ * Tickets sent by a Zendesk trigger ("Notify active webhook") whose JSON body is:
+ *
+ *   {
+ *     "ticket": {
+ *       "id": "{{ticket.id}}",
+ *       "subject": "{{ticket.title}}",
+ *       "description": "{{ticket.description}}",
+ *       "url": "{{ticket.link}}",
+ *       "created_at": "{{ticket.created_at_with_timestamp}}",
+ *       "channel": "{{ticket.via}}",
+ *       "tags": "{{ticket.tags}}",
+ *       "requester": { "email": "{{ticket.requester.email}}" }
+ *     }
+ *   }
+ *
+ * Which tickets are sent is decided by the trigger's conditions. A
+ * "bug_report" tag marks the ticket as a bug, like a bug report form does.
+ */
+
+const zendeskTicketWebhookSchema = z.object({
+  ticket: z.object({
+    id: z.union([z.string().min(1), z.number()]).transform(String),
+    subject: z.string().optional(),
+    description: z.string().optional(),
+    url: z.string().optional(),
+    created_at: z.string().optional(),
+    channel: z.string().optional(),
+    // Zendesk placeholders render tags as one space-separated string
+    tags: z.union([z.array(z.string()), z.string()]).optional()
+      .transform((tags) => (typeof tags === "string" ? tags.split(/\s+/).filter(Boolean) : tags ?? [])),
+    requester: z.object({ email: z.string().optional() }).optional(),
+  }),
+});
+
+export const zendeskSource: SubmissionSource = {
+  type: "zendesk",
+  name: "Zendesk webhook",
+
+  authenticate(delivery) {
+    const secrets = getIntakeSecrets("ZENDESK_WEBHOOK_SECRET");
+    if (secrets.length === 0) {
+      return "not_configured";
+    }
+    const valid = verifyZendeskSignature(
+      delivery.rawBody,
+      delivery.header(ZENDESK_SIGNATURE_HEADER),
+      delivery.header(ZENDESK_TIMESTAMP_HEADER),
+      secrets
+    );
+    if (!valid) {
+      console.error("Rejected Zendesk webhook: invalid signature");
+      return "invalid";
+    }
+    return "valid";
+  },
+
+  normalize(delivery) {
+    let body;
+    try {
+      body = JSON.parse(delivery.rawBody);
+    } catch {
+      return { outcome: "rejected", error: "Invalid JSON body" };
+    }
+
+    const parseResult = zendeskTicketWebhookSchema.safeParse(body);
+    if (!parseResult.success) {
+      return { outcome: "rejected", error: "Invalid Zendesk payload", details: z.treeifyError(parseResult.error) };
+    }
+
+    const { ticket } = parseResult.data;
+    console.log("\n🎧 Zendesk Ticket Received");
+    console.log("Ticket ID:", ticket.id);
+
+    // The description is the requester's first comment; the subject often summarizes it
+    const description = [ticket.subject, ticket.description]
+      .map((part) => part?.trim())
+      .filter(Boolean)
+      .join("\n\n");
+    if (!description) {
+      return { outcome: "rejected", error: "Ticket has no subject or description" };
+    }
+
+    const submittedAt = ticket.created_at && !Number.isNaN(Date.parse(ticket.created_at))
+      ? new Date(ticket.created_at).toISOString()
+      : undefined;
+
+    return {
+      outcome: "accepted",
+      idempotencyKeys: [`zendesk:ticket:${ticket.id}`],
+      input: featureRequestInputSchema.parse({
+        kind: "structured",
+        featureDescription: description,
+        contactEmail: ticket.requester?.email || undefined,
+        metadata: {
+          source: { type: "zendesk", externalId: ticket.id, url: ticket.url, channel: ticket.channel },
+          submittedAt,
+          formKind: ticket.tags.includes("bug_report") ? "bug_report" : undefined,
+        },
+      }),
+    };
+  },
+};
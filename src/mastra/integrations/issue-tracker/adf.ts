@@ -0,0 +1,97 @@
+/**
+ * Atlassian Document Format (ADF) Conversion
+ *
+ * Jira Cloud's v3 REST API only accepts rich text as ADF documents. The agent
+ * writes lightweight markdown, so this converts the subset it uses:
+ * headings (#), bullet and checkbox lists (- / - [ ]), numbered lists,
+ * **bold** text and plain paragraphs.
+ */
+
+type AdfMark = { type: "strong" };
+type AdfText = { type: "text"; text: string; marks?: AdfMark[] };
+type AdfNode = {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: Array<AdfNode | AdfText>;
+};
+
+export type AdfDocument = { type: "doc"; version: 1; content: AdfNode[] };
+
+function toInlineNodes(text: string): AdfText[] {
+  const nodes: AdfText[] = [];
+  const parts = text.split(/(\*\*[^*]+\*\*)/g).filter(Boolean);
+  for (const part of parts) {
+    const bold = part.match(/^\*\*([^*]+)\*\*$/);
+    nodes.push(bold ? { type: "text", text: bold[1], marks: [{ type: "strong" }] } : { type: "text", text: part });
+  }
+  return nodes;
+}
+
+function paragraph(text: string): AdfNode {
+  return { type: "paragraph", content: toInlineNodes(text) };
+}
+
+export function markdownToAdf(markdown: string): AdfDocument {
+  const content: AdfNode[] = [];
+  let list: AdfNode | null = null;
+  let paragraphLines: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraphLines.length > 0) {
+      content.push(paragraph(paragraphLines.join(" ")));
+      paragraphLines = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      content.push(list);
+      list = null;
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      content.push({
+        type: "heading",
+        attrs: { level: heading[1].length },
+        content: toInlineNodes(heading[2].replace(/\*\*/g, "")),
+      });
+      continue;
+    }
+
+    const bullet = line.match(/^[-*•]\s+(?:\[[ xX]\]\s+)?(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+    if (bullet || numbered) {
+      flushParagraph();
+      const listType = bullet ? "bulletList" : "orderedList";
+      if (list && list.type !== listType) {
+        flushList();
+      }
+      if (!list) {
+        list = { type: listType, content: [] };
+      }
+      const itemText = (bullet ? bullet[1] : numbered![1]) || " ";
+      list.content!.push({ type: "listItem", content: [paragraph(itemText)] });
+      continue;
+    }
+
+    flushList();
+    paragraphLines.push(line);
+  }
+
+  flushParagraph();
+  flushList();
+
+  return { type: "doc", version: 1, content };
+}
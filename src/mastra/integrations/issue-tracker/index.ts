@@ -0,0 +1,52 @@
+import { JiraCloudAdapter, jiraCloudConfigFromEnv } from "./jira-cloud-adapter";
+import { FileIssueTrackerAdapter, InMemoryIssueTrackerAdapter } from "./local-adapters";
+import type { IssueTrackerAdapter } from "./types";
+
+export * from "./types";
+export { JiraCloudAdapter, jiraCloudConfigFromEnv } from "./jira-cloud-adapter";
+export { FileIssueTrackerAdapter, InMemoryIssueTrackerAdapter } from "./local-adapters";
+
+/**
+ * Selects the issue tracker from ISSUE_TRACKER:
+ * - "jira": Jira Cloud (JIRA_* variables required)
+ * - "file": JSON-lines file at ISSUE_TRACKER_FILE (default .mastra/issues.jsonl)
+ * - "memory": in-process only
+ * - "none": issues are not created
+ * Defaults to "jira" when JIRA_BASE_URL is set, otherwise "none".
+ */
+export function createIssueTrackerFromEnv(
+  env: Record<string, string | undefined> = process.env
+): IssueTrackerAdapter | null {
+  const kind = env.ISSUE_TRACKER || (env.JIRA_BASE_URL ? "jira" : "none");
+  switch (kind) {
+    case "jira":
+      return new JiraCloudAdapter(jiraCloudConfigFromEnv(env));
+    case "file":
+      return new FileIssueTrackerAdapter(env.ISSUE_TRACKER_FILE || ".mastra/issues.jsonl");
+    case "memory":
+      return new InMemoryIssueTrackerAdapter();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown ISSUE_TRACKER: ${kind}`);
+  }
+}
+
+let issueTracker: IssueTrackerAdapter | null | undefined;
+
+/**
+ * Returns the process-wide issue tracker, created from the environment on first use
+ */
+export function getIssueTracker(): IssueTrackerAdapter | null {
+  if (issueTracker === undefined) {
+    issueTracker = createIssueTrackerFromEnv();
+  }
+  return issueTracker;
+}
+
+/**
+ * Overrides the issue tracker (e.g. with an in-memory adapter in local scripts)
+ */
+export function setIssueTracker(adapter: IssueTrackerAdapter | null): void {
+  issueTracker = adapter;
+}
@@ -0,0 +1,215 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { BugReport, JiraStory } from "../../domain/feature-request";
+import { markdownToAdf } from "./adf";
+import { JiraCloudAdapter, jiraCloudConfigFromEnv } from "./jira-cloud-adapter";
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+/**
+ * A stand-in for the Jira Cloud REST API: records requests and answers with
+ * the queued responses, or like Jira does when none are queued
+ */
+class MockJiraServer {
+  readonly requests: ReceivedRequest[] = [];
+  readonly responses: Array<{ status: number; body: unknown }> = [];
+  private server?: Server;
+  private issueCount = 0;
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf8");
+        this.requests.push({ method: req.method!, path: req.url!, headers: req.headers, body: text ? JSON.parse(text) : undefined });
+
+        const queued = this.responses.shift();
+        if (queued) {
+          res.writeHead(queued.status, { "Content-Type": "application/json" }).end(JSON.stringify(queued.body));
+        } else if (req.method === "POST" && req.url === "/rest/api/3/issue") {
+          this.issueCount += 1;
+          const body = { id: String(10000 + this.issueCount), key: `PROD-${this.issueCount}`, self: "" };
+          res.writeHead(201, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+        } else if (req.method === "PUT") {
+          res.writeHead(204).end();
+        } else {
+          res.writeHead(201, { "Content-Type": "application/json" }).end("{}");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", () => resolve()));
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.responses.length = 0;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server!.close(() => resolve()));
+  }
+}
+
+function fieldsOf(request: ReceivedRequest): Record<string, unknown> {
+  return request.body.fields as Record<string, unknown>;
+}
+
+const story: JiraStory = {
+  issueType: "Story",
+  summary: "[Messaging] - Send appointment reminders in Spanish",
+  description: "## Problem Statement\n\nPros with Spanish-speaking clients send reminders by hand.",
+  acceptanceCriteria: "- [ ] Given a client who prefers Spanish, When a reminder is sent, Then it is in Spanish",
+  noteForQA: "Check SMS and email reminders.",
+  storyPoints: 5,
+  priority: "2",
+  labels: ["lang-es"],
+};
+
+const bug: BugReport = {
+  issueType: "Bug",
+  summary: "[Payments] - Tip screen freezes on iPad",
+  description: "Checkout cannot be completed.",
+  stepsToReproduce: "1. Start checkout\n2. Tap a tip amount",
+  expectedBehavior: "The tip is added",
+  actualBehavior: "The screen freezes",
+  platform: "iOS",
+  severity: "Critical",
+  priority: "1",
+};
+
+const baseEnv = {
+  JIRA_EMAIL: "bot@example.com",
+  JIRA_API_TOKEN: "token-123",
+  JIRA_PROJECT_KEY: "PROD",
+};
+
+describe("JiraCloudAdapter", () => {
+  const jira = new MockJiraServer();
+
+  function adapter(env: Record<string, string> = {}): JiraCloudAdapter {
+    return new JiraCloudAdapter(jiraCloudConfigFromEnv({ ...baseEnv, JIRA_BASE_URL: `${jira.url}/`, ...env }));
+  }
+
+  before(() => jira.start());
+  beforeEach(() => jira.reset());
+  after(() => jira.close());
+
+  test("creates a story with basic auth and ADF rich text", async () => {
+    const created = await adapter().createIssue(story);
+
+    assert.deepEqual(created, { key: "PROD-1", id: "10001", url: `${jira.url}/browse/PROD-1` });
+    assert.equal(jira.requests.length, 1);
+    const [request] = jira.requests;
+    assert.equal(request.method, "POST");
+    assert.equal(request.path, "/rest/api/3/issue");
+    assert.equal(request.headers.authorization, `Basic ${Buffer.from("bot@example.com:token-123").toString("base64")}`);
+
+    const fields = fieldsOf(request);
+    assert.deepEqual(fields.project, { key: "PROD" });
+    assert.deepEqual(fields.issuetype, { name: "Story" });
+    assert.deepEqual(fields.priority, { name: "High" });
+    assert.equal(fields.summary, story.summary);
+    assert.deepEqual(fields.labels, ["lang-es"]);
+    // Without dedicated fields, acceptance criteria and QA notes are appended to the description
+    assert.deepEqual(
+      fields.description,
+      markdownToAdf(`${story.description}\n\n## Acceptance Criteria\n\n${story.acceptanceCriteria}\n\n## Note for QA\n\n${story.noteForQA}`)
+    );
+  });
+
+  test("leaves story points out unless a field is configured", async () => {
+    await adapter().createIssue(story);
+    assert.ok(!Object.keys(fieldsOf(jira.requests[0])).some((field) => field.startsWith("customfield_")));
+
+    jira.reset();
+    await adapter({ JIRA_STORY_POINTS_FIELD: "customfield_10016" }).createIssue(story);
+    assert.equal(fieldsOf(jira.requests[0]).customfield_10016, 5);
+  });
+
+  test("maps fields and priorities to the configured names", async () => {
+    await adapter({
+      JIRA_ACCEPTANCE_CRITERIA_FIELD: "customfield_10100",
+      JIRA_QA_NOTE_FIELD: "customfield_10101",
+      JIRA_PRIORITY_MAP: "1:Blocker,2:Critical",
+    }).createIssue(story);
+
+    const fields = fieldsOf(jira.requests[0]);
+    assert.deepEqual(fields.priority, { name: "Critical" });
+    assert.deepEqual(fields.description, markdownToAdf(story.description));
+    assert.deepEqual(fields.customfield_10100, markdownToAdf(story.acceptanceCriteria));
+    assert.deepEqual(fields.customfield_10101, markdownToAdf(story.noteForQA));
+  });
+
+  test("files into the routed project with components and assignee", async () => {
+    await adapter().createIssue(story, {
+      projectKey: "MSG",
+      components: ["Reminders"],
+      assignee: "5b10ac8d82e05b22cc7d4ef5",
+      labels: ["area-messaging", "lang-es"],
+    });
+
+    const fields = fieldsOf(jira.requests[0]);
+    assert.deepEqual(fields.project, { key: "MSG" });
+    assert.deepEqual(fields.components, [{ name: "Reminders" }]);
+    assert.deepEqual(fields.assignee, { accountId: "5b10ac8d82e05b22cc7d4ef5" });
+    assert.deepEqual(fields.labels, ["lang-es", "area-messaging"]);
+  });
+
+  test("creates bugs with the bug issue type and severity field", async () => {
+    await adapter({ JIRA_SEVERITY_FIELD: "customfield_10200" }).createIssue(bug);
+
+    const fields = fieldsOf(jira.requests[0]);
+    assert.deepEqual(fields.issuetype, { name: "Bug" });
+    assert.deepEqual(fields.priority, { name: "Highest" });
+    assert.deepEqual(fields.customfield_10200, { value: "Critical" });
+  });
+
+  test("reports Jira's error response", async () => {
+    jira.responses.push({ status: 400, body: { errors: { customfield_10016: "Field cannot be set" } } });
+    await assert.rejects(
+      adapter({ JIRA_STORY_POINTS_FIELD: "customfield_10016" }).createIssue(story),
+      /Jira issue creation failed \(400\): .*Field cannot be set/
+    );
+  });
+
+  test("updates only the issue's content", async () => {
+    await adapter().updateIssue("PROD-7", story);
+
+    const [request] = jira.requests;
+    assert.equal(request.method, "PUT");
+    assert.equal(request.path, "/rest/api/3/issue/PROD-7");
+    assert.equal(fieldsOf(request).summary, story.summary);
+    for (const field of ["project", "issuetype", "labels", "components", "assignee"]) {
+      assert.ok(!(field in fieldsOf(request)), `${field} should not be updated`);
+    }
+  });
+
+  test("adds comments as ADF", async () => {
+    await adapter().addComment("PROD-7", "**+1** from another pro");
+
+    const [request] = jira.requests;
+    assert.equal(request.path, "/rest/api/3/issue/PROD-7/comment");
+    assert.deepEqual(request.body, { body: markdownToAdf("**+1** from another pro") });
+  });
+});
+
+describe("jiraCloudConfigFromEnv", () => {
+  test("lists every missing required variable", () => {
+    assert.throws(
+      () => jiraCloudConfigFromEnv({ JIRA_EMAIL: "bot@example.com" }),
+      /Missing Jira configuration: JIRA_BASE_URL, JIRA_API_TOKEN, JIRA_PROJECT_KEY/
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import type { BugReport, IssueDraft, JiraStory } from "../../domain/feature-request";
+import { markdownToAdf } from "./adf";
+import type { CreatedIssue, IssueRouting, IssueTrackerAdapter } from "./types";
+
+/**
+ * Jira Cloud Issue Tracker Adapter
+ *
+ * Creates issues through the Jira Cloud REST API v3 (POST /rest/api/3/issue)
+ * using basic auth with an Atlassian account email and API token.
+ *
+ * Field mapping is configurable because every Jira site names its custom
+ * fields differently. When no dedicated field is configured for acceptance
+ * criteria, QA notes or bug severity, they are appended to the description instead.
+ * Story points are only sent when JIRA_STORY_POINTS_FIELD names the site's field
+ * (customfield_10016 on most Jira Cloud sites), since Jira rejects unknown fields.
+ * Stories and bugs are created with the configured Story and Bug issue types.
+ */
+
+export type JiraPriority = JiraStory["priority"];
+
+export interface JiraCloudConfig {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+  issueType: string;
+  bugIssueType: string;
+  fields: {
+    summary: string;
+    description: string;
+    acceptanceCriteria?: string;
+    noteForQA?: string;
+    storyPoints?: string;
+    severity?: string;
+  };
+  // Maps our priority "1"-"5" to the names in the project's priority scheme
+  priorityMap: Record<JiraPriority, string>;
+}
+
+// Jira can hang on overloaded sites; give up rather than hold the worker
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_PRIORITY_MAP: Record<JiraPriority, string> = {
+  "1": "Highest",
+  "2": "High",
+  "3": "Medium",
+  "4": "Low",
+  "5": "Lowest",
+};
+
+/**
+ * Parses JIRA_PRIORITY_MAP, e.g. "1:Blocker,2:Critical,3:Major,4:Minor,5:Trivial"
+ */
+function parsePriorityMap(value: string | undefined): Record<JiraPriority, string> {
+  const map = { ...DEFAULT_PRIORITY_MAP };
+  for (const entry of (value || "").split(",")) {
+    const [priority, name] = entry.split(":").map((part) => part.trim());
+    if (priority in map && name) {
+      map[priority as JiraPriority] = name;
+    }
+  }
+  return map;
+}
+
+/**
+ * Builds the adapter config from JIRA_* environment variables
+ */
+export function jiraCloudConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): JiraCloudConfig {
+  const required = ["JIRA_BASE_URL", "JIRA_EMAIL", "JIRA_API_TOKEN", "JIRA_PROJECT_KEY"];
+  const missing = required.filter((name) => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing Jira configuration: ${missing.join(", ")}`);
+  }
+
+  return {
+    baseUrl: env.JIRA_BASE_URL!.replace(/\/+$/, ""),
+    email: env.JIRA_EMAIL!,
+    apiToken: env.JIRA_API_TOKEN!,
+    projectKey: env.JIRA_PROJECT_KEY!,
+    issueType: env.JIRA_ISSUE_TYPE || "Story",
+    bugIssueType: env.JIRA_BUG_ISSUE_TYPE || "Bug",
+    fields: {
+      summary: env.JIRA_SUMMARY_FIELD || "summary",
+      description: env.JIRA_DESCRIPTION_FIELD || "description",
+      acceptanceCriteria: env.JIRA_ACCEPTANCE_CRITERIA_FIELD || undefined,
+      noteForQA: env.JIRA_QA_NOTE_FIELD || undefined,
+      storyPoints: env.JIRA_STORY_POINTS_FIELD || undefined,
+      severity: env.JIRA_SEVERITY_FIELD || undefined,
+    },
+    priorityMap: parsePriorityMap(env.JIRA_PRIORITY_MAP),
+  };
+}
+
+export class JiraCloudAdapter implements IssueTrackerAdapter {
+  readonly name = "jira-cloud";
+
+  constructor(private readonly config: JiraCloudConfig) {}
+
+  /**
+   * Builds the `fields` object for the create-issue request. Routing picks
+   * the project, components and assignee; without it the configured project is used.
+   */
+  buildIssueFields(draft: IssueDraft, routing?: IssueRouting): Record<string, unknown> {
+    const { fields, priorityMap } = this.config;
+
+    const issueFields: Record<string, unknown> = {
+      project: { key: routing?.projectKey || this.config.projectKey },
+      priority: { name: priorityMap[draft.priority] },
+      [fields.summary]: draft.summary,
+      ...(draft.issueType === "Bug" ? this.bugFields(draft) : this.storyFields(draft)),
+    };
+
+    const labels = [...new Set([...(draft.labels || []), ...(routing?.labels || [])])];
+    if (labels.length > 0) {
+      issueFields.labels = labels;
+    }
+    if (routing?.components.length) {
+      issueFields.components = routing.components.map((name) => ({ name }));
+    }
+    if (routing?.assignee) {
+      issueFields.assignee = { accountId: routing.assignee };
+    }
+
+    return issueFields;
+  }
+
+  /**
+   * Builds the `fields` object for updating an issue's content. The issue type,
+   * project, components, assignee and labels stay as they were filed or triaged.
+   */
+  buildUpdateFields(draft: IssueDraft): Record<string, unknown> {
+    const { project, issuetype, labels, components, assignee, ...fields } = this.buildIssueFields(draft);
+    return fields;
+  }
+
+  private storyFields(story: JiraStory): Record<string, unknown> {
+    const { fields } = this.config;
+
+    let description = story.description;
+    if (!fields.acceptanceCriteria) {
+      description += `\n\n## Acceptance Criteria\n\n${story.acceptanceCriteria}`;
+    }
+    if (!fields.noteForQA) {
+      description += `\n\n## Note for QA\n\n${story.noteForQA}`;
+    }
+
+    const storyFields: Record<string, unknown> = {
+      issuetype: { name: this.config.issueType },
+      [fields.description]: markdownToAdf(description),
+    };
+    if (fields.acceptanceCriteria) {
+      storyFields[fields.acceptanceCriteria] = markdownToAdf(story.acceptanceCriteria);
+    }
+    if (fields.noteForQA) {
+      storyFields[fields.noteForQA] = markdownToAdf(story.noteForQA);
+    }
+    if (fields.storyPoints) {
+      storyFields[fields.storyPoints] = story.storyPoints;
+    }
+    return storyFields;
+  }
+
+  private bugFields(bug: BugReport): Record<string, unknown> {
+    const { fields } = this.config;
+
+    const description = [
+      bug.description,
+      `## Steps to Reproduce\n\n${bug.stepsToReproduce}`,
+      `## Expected Behavior\n\n${bug.expectedBehavior}`,
+      `## Actual Behavior\n\n${bug.actualBehavior}`,
+      `- **Platform:** ${bug.platform}` + (fields.severity ? "" : `\n- **Severity:** ${bug.severity}`),
+    ].join("\n\n");
+
+    const bugFields: Record<string, unknown> = {
+      issuetype: { name: this.config.bugIssueType },
+      [fields.description]: markdownToAdf(description),
+    };
+    if (fields.severity) {
+      // Severity is usually a single-select custom field
+      bugFields[fields.severity] = { value: bug.severity };
+    }
+    return bugFields;
+  }
+
+  private headers(): Record<string, string> {
+    const { email, apiToken } = this.config;
+    const auth = Buffer.from(`${email}:${apiToken}`).toString("base64");
+    return {
+      Authorization: `Basic ${auth}`,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    };
+  }
+
+  async createIssue(draft: IssueDraft, routing?: IssueRouting): Promise<CreatedIssue> {
+    const { baseUrl } = this.config;
+
+    const response = await fetch(`${baseUrl}/rest/api/3/issue`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({ fields: this.buildIssueFields(draft, routing) }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Jira issue creation failed (${response.status}): ${errorBody}`);
+    }
+
+    const created = (await response.json()) as { id: string; key: string };
+    return {
+      key: created.key,
+      id: created.id,
+      url: `${baseUrl}/browse/${created.key}`,
+    };
+  }
+
+  async updateIssue(issueKey: string, draft: IssueDraft): Promise<void> {
+    const response = await fetch(
+      `${this.config.baseUrl}/rest/api/3/issue/${encodeURIComponent(issueKey)}`,
+      {
+        method: "PUT",
+        headers: this.headers(),
+        body: JSON.stringify({ fields: this.buildUpdateFields(draft) }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      }
+    );
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Jira issue update failed (${response.status}): ${errorBody}`);
+    }
+  }
+
+  async addComment(issueKey: string, body: string): Promise<void> {
+    const response = await fetch(
+      `${this.config.baseUrl}/rest/api/3/issue/${encodeURIComponent(issueKey)}/comment`,
+      {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({ body: markdownToAdf(body) }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      }
+    );
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Jira comment failed (${response.status}): ${errorBody}`);
+    }
+  }
+}
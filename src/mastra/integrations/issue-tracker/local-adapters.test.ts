@@ -0,0 +1,33 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { JiraStory } from "../../domain/feature-request";
+import { FileIssueTrackerAdapter } from "./local-adapters";
+
+const story: JiraStory = {
+  issueType: "Story",
+  summary: "[Messaging] - Send appointment reminders in Spanish",
+  description: "## Problem Statement\n\nPros with Spanish-speaking clients send reminders by hand.",
+  acceptanceCriteria: "- [ ] Given a client who prefers Spanish, When a reminder is sent, Then it is in Spanish",
+  noteForQA: "Check SMS and email reminders.",
+  storyPoints: 5,
+  priority: "2",
+  labels: ["lang-es"],
+};
+
+describe("FileIssueTrackerAdapter", () => {
+  const directory = mkdtempSync(join(tmpdir(), "file-issue-tracker-"));
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  test("gives concurrently created issues distinct sequential keys", async () => {
+    const tracker = new FileIssueTrackerAdapter(join(directory, "issues.jsonl"));
+
+    const created = await Promise.all(Array.from({ length: 5 }, () => tracker.createIssue(story)));
+
+    assert.deepEqual(created.map((issue) => issue.key), ["LOCAL-1", "LOCAL-2", "LOCAL-3", "LOCAL-4", "LOCAL-5"]);
+    assert.deepEqual((await tracker.readIssues()).map((issue) => issue.key), created.map((issue) => issue.key));
+  });
+});
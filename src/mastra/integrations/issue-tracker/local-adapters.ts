@@ -0,0 +1,137 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { IssueDraft } from "../../domain/feature-request";
+import type { CreatedIssue, IssueRouting, IssueTrackerAdapter } from "./types";
+
+/**
+ * Local Issue Tracker Adapters
+ *
+ * Stand-ins for Jira during development: issues are kept in memory or
+ * appended to a JSON-lines file, and get sequential keys like LOCAL-1.
+ */
+
+export interface StoredIssue extends CreatedIssue {
+  // Named story for compatibility with existing files; bugs are stored here too
+  story: IssueDraft;
+  routing?: IssueRouting;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface StoredUpdate {
+  issueKey: string;
+  story: IssueDraft;
+  updatedAt: string;
+}
+
+export interface StoredComment {
+  issueKey: string;
+  body: string;
+  createdAt: string;
+}
+
+export class InMemoryIssueTrackerAdapter implements IssueTrackerAdapter {
+  readonly name: string = "in-memory";
+  readonly issues: StoredIssue[] = [];
+  readonly comments: StoredComment[] = [];
+
+  constructor(protected readonly projectKey: string = "LOCAL") {}
+
+  protected nextIssue(draft: IssueDraft, sequence: number, routing?: IssueRouting): StoredIssue {
+    const key = `${routing?.projectKey || this.projectKey}-${sequence}`;
+    return {
+      key,
+      id: String(sequence),
+      url: `local://issues/${key}`,
+      story: draft,
+      routing,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  async createIssue(draft: IssueDraft, routing?: IssueRouting): Promise<CreatedIssue> {
+    const issue = this.nextIssue(draft, this.issues.length + 1, routing);
+    this.issues.push(issue);
+    const { key, id, url } = issue;
+    return { key, id, url };
+  }
+
+  async updateIssue(issueKey: string, draft: IssueDraft): Promise<void> {
+    const issue = this.issues.find((candidate) => candidate.key === issueKey);
+    if (!issue) {
+      throw new Error(`Issue ${issueKey} not found`);
+    }
+    issue.story = draft;
+    issue.updatedAt = new Date().toISOString();
+  }
+
+  async addComment(issueKey: string, body: string): Promise<void> {
+    this.comments.push({ issueKey, body, createdAt: new Date().toISOString() });
+  }
+}
+
+/**
+ * Issue keys come from the number of issues in the file, so creations are
+ * serialized: concurrent runs in this process would otherwise read the same
+ * count and file two issues under one key. The file is meant for a single
+ * local process; separate processes must not share it.
+ */
+export class FileIssueTrackerAdapter extends InMemoryIssueTrackerAdapter {
+  readonly name = "file";
+  private pendingCreate: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    projectKey?: string
+  ) {
+    super(projectKey);
+  }
+
+  async readIssues(): Promise<StoredIssue[]> {
+    try {
+      const contents = await readFile(this.filePath, "utf8");
+      return contents
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as StoredIssue);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async createIssue(draft: IssueDraft, routing?: IssueRouting): Promise<CreatedIssue> {
+    const created = this.pendingCreate.then(async () => {
+      const existing = await this.readIssues();
+      const issue = this.nextIssue(draft, existing.length + 1, routing);
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, JSON.stringify(issue) + "\n", "utf8");
+      const { key, id, url } = issue;
+      return { key, id, url };
+    });
+    // A failed creation must not block the ones queued behind it
+    this.pendingCreate = created.catch(() => undefined);
+    return created;
+  }
+
+  /**
+   * Updates are appended to a sibling file rather than rewriting the issues file
+   */
+  async updateIssue(issueKey: string, draft: IssueDraft): Promise<void> {
+    const existing = await this.readIssues();
+    if (!existing.some((issue) => issue.key === issueKey)) {
+      throw new Error(`Issue ${issueKey} not found`);
+    }
+    const update: StoredUpdate = { issueKey, story: draft, updatedAt: new Date().toISOString() };
+    await appendFile(this.filePath.replace(/(\.jsonl)?$/, ".updates.jsonl"), JSON.stringify(update) + "\n", "utf8");
+  }
+
+  /**
+   * Comments go to a sibling file so the issues file stays one issue per line
+   */
+  async addComment(issueKey: string, body: string): Promise<void> {
+    const comment: StoredComment = { issueKey, body, createdAt: new Date().toISOString() };
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath.replace(/(\.jsonl)?$/, ".comments.jsonl"), JSON.stringify(comment) + "\n", "utf8");
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import type { IssueDraft } from "../../domain/feature-request";
+
+/**
+ * Issue Tracker Types
+ *
+ * The workflow only talks to an IssueTrackerAdapter, so the Jira Cloud
+ * implementation can be swapped for the file/in-memory ones in local runs.
+ */
+
+export const createdIssueSchema = z.object({
+  key: z.string().describe("Tracker issue key, e.g. PROD-123"),
+  id: z.string().describe("Tracker internal issue id"),
+  url: z.string().describe("Browser URL of the issue"),
+});
+
+export type CreatedIssue = z.infer<typeof createdIssueSchema>;
+
+// Where an issue is filed; anything not set falls back to the adapter's own defaults
+export const issueRoutingSchema = z.object({
+  projectKey: z.string().optional().describe("Project (team board) to file the issue in"),
+  components: z.array(z.string()).describe("Component names"),
+  assignee: z.string().optional().describe("Tracker account id of the assignee"),
+  labels: z.array(z.string()).describe("Labels added on top of the story's own"),
+});
+
+export type IssueRouting = z.infer<typeof issueRoutingSchema>;
+
+export interface IssueTrackerAdapter {
+  readonly name: string;
+  // Stories and bugs are filed with the tracker's matching issue type
+  createIssue(draft: IssueDraft, routing?: IssueRouting): Promise<CreatedIssue>;
+  // Replaces the issue's content with a new version of the draft; board, assignee and labels are left as they are
+  updateIssue(issueKey: string, draft: IssueDraft): Promise<void>;
+  // Comment bodies are markdown; adapters convert to their own rich text format
+  addComment(issueKey: string, body: string): Promise<void>;
+}
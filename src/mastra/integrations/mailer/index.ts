@@ -0,0 +1,52 @@
+import { MaildirMailer } from "./maildir-mailer";
+import { SmtpMailer, smtpConfigFromEnv } from "./smtp-mailer";
+import type { Mailer } from "./types";
+
+export * from "./types";
+export { MaildirMailer } from "./maildir-mailer";
+export { SmtpMailer, smtpConfigFromEnv, type SmtpConfig } from "./smtp-mailer";
+
+/**
+ * Selects the mailer from MAILER:
+ * - "smtp": SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, MAIL_FROM)
+ * - "maildir": a local Maildir at MAILER_MAILDIR (default .mastra/mail)
+ * - "none": no email is sent
+ * Defaults to "smtp" when SMTP_HOST is set, otherwise "none".
+ */
+export function createMailerFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Mailer | null {
+  const kind = env.MAILER || (env.SMTP_HOST ? "smtp" : "none");
+  switch (kind) {
+    case "smtp":
+      return new SmtpMailer(smtpConfigFromEnv(env));
+    case "maildir":
+      return new MaildirMailer(
+        env.MAILER_MAILDIR || ".mastra/mail",
+        env.MAIL_FROM || "Feature Requests <feature-requests@localhost>"
+      );
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown MAILER: ${kind}`);
+  }
+}
+
+let mailer: Mailer | null | undefined;
+
+/**
+ * Returns the process-wide mailer, created from the environment on first use
+ */
+export function getMailer(): Mailer | null {
+  if (mailer === undefined) {
+    mailer = createMailerFromEnv();
+  }
+  return mailer;
+}
+
+/**
+ * Overrides the mailer (e.g. with a maildir mailer in local scripts)
+ */
+export function setMailer(replacement: Mailer | null): void {
+  mailer = replacement;
+}
@@ -0,0 +1,32 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import { buildMimeMessage, createMessageId } from "./mime";
+import type { EmailMessage, Mailer, SentEmail } from "./types";
+
+/**
+ * Delivers mail into a local Maildir (new/, cur/, tmp/) instead of sending it,
+ * for development: open the directory with any mail client, or read the
+ * files in new/ directly.
+ */
+export class MaildirMailer implements Mailer {
+  readonly name = "maildir";
+
+  constructor(
+    private readonly directory: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    await Promise.all(["new", "cur", "tmp"].map((folder) => mkdir(join(this.directory, folder), { recursive: true })));
+
+    const messageId = createMessageId(this.from);
+    const fileName = `${Date.now()}.${randomUUID()}.${hostname() || "localhost"}`;
+    const tmpPath = join(this.directory, "tmp", fileName);
+    // Written to tmp/ first so readers never see a partial message in new/
+    await writeFile(tmpPath, buildMimeMessage(message, this.from, messageId));
+    await rename(tmpPath, join(this.directory, "new", fileName));
+    return { messageId };
+  }
+}
@@ -0,0 +1,82 @@
+import { randomUUID } from "node:crypto";
+import type { EmailMessage } from "./types";
+
+/**
+ * RFC 5322 message building shared by the SMTP and maildir mailers. Bodies are
+ * base64-encoded UTF-8, so any language survives 7-bit transports.
+ */
+
+const LINE_LENGTH = 76;
+
+/**
+ * Header values are single-line; a newline in a value would let it add headers
+ */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/**
+ * Encodes non-ASCII header text as an RFC 2047 encoded word
+ */
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+function base64Body(text: string): string {
+  const encoded = Buffer.from(text.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64");
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, "g"))?.join("\r\n") ?? "";
+}
+
+/**
+ * The bare address of "Name <address>" or "address"
+ */
+export function emailAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : mailbox);
+}
+
+export function createMessageId(from: string): string {
+  const domain = emailAddress(from).split("@")[1] || "localhost";
+  return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * Builds the full message (headers and body) with CRLF line endings
+ */
+export function buildMimeMessage(message: EmailMessage, from: string, messageId: string): string {
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+  ];
+  if (message.replyTo) {
+    headers.push(`Reply-To: ${headerValue(message.replyTo)}`);
+  }
+  for (const [name, value] of Object.entries(message.headers || {})) {
+    headers.push(`${name.replace(/[^A-Za-z0-9-]/g, "")}: ${encodeHeader(value)}`);
+  }
+
+  const part = (contentType: string, body: string) =>
+    [`Content-Type: ${contentType}; charset=utf-8`, "Content-Transfer-Encoding: base64", "", base64Body(body)].join("\r\n");
+
+  if (!message.html) {
+    return [...headers, part("text/plain", message.text)].join("\r\n");
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
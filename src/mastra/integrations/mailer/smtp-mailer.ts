@@ -0,0 +1,201 @@
+import { once } from "node:events";
+import { hostname } from "node:os";
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls, type TLSSocket } from "node:tls";
+import { buildMimeMessage, createMessageId, emailAddress } from "./mime";
+import type { EmailMessage, Mailer, SentEmail } from "./types";
+
+/**
+ * SMTP Mailer
+ *
+ * Sends mail through an SMTP relay (SendGrid, SES, Postmark, Gmail, ...).
+ * Port 465 uses implicit TLS; other ports upgrade with STARTTLS when the
+ * server offers it. Credentials are sent with AUTH PLAIN, and only over TLS.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (port 465)
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // "Name <address>" or a bare address
+  from: string;
+}
+
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Builds the SMTP config from SMTP_* and MAIL_FROM environment variables
+ */
+export function smtpConfigFromEnv(env: Record<string, string | undefined> = process.env): SmtpConfig {
+  const missing = ["SMTP_HOST", "MAIL_FROM"].filter((name) => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing SMTP configuration: ${missing.join(", ")}`);
+  }
+
+  const secure = env.SMTP_SECURE === "true";
+  return {
+    host: env.SMTP_HOST!,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.MAIL_FROM!,
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session: writes commands and reads (possibly multi-line) replies
+ */
+class SmtpSession {
+  private buffer = "";
+  private readonly lines: string[] = [];
+  private wake?: () => void;
+  private error?: Error;
+
+  constructor(private socket: Socket | TLSSocket) {
+    this.attach(socket);
+  }
+
+  get encrypted(): boolean {
+    return "encrypted" in this.socket && this.socket.encrypted === true;
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf8");
+      let end: number;
+      while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, end));
+        this.buffer = this.buffer.slice(end + 2);
+      }
+      this.wake?.();
+    });
+    socket.on("error", (error) => {
+      this.error = error;
+      this.wake?.();
+    });
+    socket.on("close", () => {
+      this.error ??= new Error("SMTP connection closed");
+      this.wake?.();
+    });
+    socket.setTimeout(COMMAND_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+  }
+
+  private async nextLine(): Promise<string> {
+    while (this.lines.length === 0) {
+      if (this.error) throw this.error;
+      await new Promise<void>((resolve) => (this.wake = resolve));
+      this.wake = undefined;
+    }
+    return this.lines.shift()!;
+  }
+
+  async reply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.nextLine();
+      lines.push(line.slice(4));
+      // "250-" continues a multi-line reply, "250 " ends it
+      if (line[3] !== "-") {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  /**
+   * Sends a command and checks the reply code. The label names the command in
+   * errors, so credentials and message bodies are never logged.
+   */
+  async command(line: string, expected: number[], label = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.reply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed (${reply.code}): ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+    const secured = connectTls({ socket: plain, servername: host });
+    await once(secured, "secureConnect");
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Escapes lines starting with "." so they do not end the DATA section
+ */
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, "..");
+}
+
+export class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  private async connect(): Promise<Socket | TLSSocket> {
+    const { host, port, secure } = this.config;
+    const socket = secure ? connectTls({ host, port, servername: host }) : connectTcp({ host, port });
+    await once(socket, secure ? "secureConnect" : "connect");
+    return socket;
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const { host, user, password, from } = this.config;
+    const messageId = createMessageId(from);
+    const data = buildMimeMessage(message, from, messageId);
+
+    const session = new SmtpSession(await this.connect());
+    try {
+      await session.expect([220], "greeting");
+      const greeting = `EHLO ${hostname() || "localhost"}`;
+      const capabilities = await session.command(greeting, [250]);
+      if (!session.encrypted && capabilities.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))) {
+        await session.command("STARTTLS", [220]);
+        await session.startTls(host);
+        await session.command(greeting, [250]);
+      }
+
+      if (user) {
+        if (!session.encrypted) {
+          throw new Error("SMTP server does not support TLS; refusing to send credentials in plain text");
+        }
+        const token = Buffer.from(`\0${user}\0${password ?? ""}`, "utf8").toString("base64");
+        await session.command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      }
+
+      await session.command(`MAIL FROM:<${emailAddress(from)}>`, [250], "MAIL FROM");
+      await session.command(`RCPT TO:<${emailAddress(message.to)}>`, [250, 251], "RCPT TO");
+      await session.command("DATA", [354]);
+      await session.command(`${dotStuff(data)}\r\n.`, [250], "message");
+      await session.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+
+    return { messageId };
+  }
+}
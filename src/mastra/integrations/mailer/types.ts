@@ -0,0 +1,27 @@
+/**
+ * Mailer Types
+ *
+ * A mailer sends email to submitters (e.g. clarifying questions about their
+ * request). Recipient addresses come straight from the submission and are
+ * never part of anything an LLM sees.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  // Extra headers, e.g. to tie replies back to a workflow run
+  headers?: Record<string, string>;
+}
+
+export interface SentEmail {
+  // The Message-ID header of the sent message
+  messageId: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SentEmail>;
+}
@@ -0,0 +1,22 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Notification, Notifier } from "./types";
+
+/**
+ * Writes each notification to a directory as <timestamp>-<slug>.md and .html,
+ * for local use and for reviewing digests before a real channel is set up
+ */
+export class FileNotifier implements Notifier {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const slug = notification.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60);
+    const basePath = join(this.directory, `${timestamp}-${slug || notification.kind}`);
+    await writeFile(`${basePath}.md`, notification.markdown + "\n");
+    await writeFile(`${basePath}.html`, notification.html + "\n");
+  }
+}
@@ -0,0 +1,62 @@
+import { FileNotifier } from "./file-notifier";
+import type { Notifier } from "./types";
+import { WebhookNotifier } from "./webhook-notifier";
+
+export * from "./types";
+export { FileNotifier } from "./file-notifier";
+export { LocalHttpSink, type LocalHttpSinkOptions, type ReceivedWebhook } from "./local-http-sink";
+export { WebhookNotifier, type WebhookFormat, type WebhookNotifierOptions } from "./webhook-notifier";
+export { toSlackMessage, toTeamsMessage } from "./webhook-payloads";
+
+/**
+ * Selects the notifier from NOTIFIER:
+ * - "slack": Slack incoming webhook at SLACK_WEBHOOK_URL
+ * - "teams": Teams workflow webhook at TEAMS_WEBHOOK_URL
+ * - "file": Markdown and HTML files in NOTIFIER_FILE_DIR (default .mastra/notifications)
+ * - "none": notifications are not sent
+ * Defaults to "slack" or "teams" when that webhook URL is set, otherwise "none".
+ * NOTIFIER_MAX_ATTEMPTS sets the webhook delivery attempts (default 3).
+ */
+export function createNotifierFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Notifier | null {
+  const kind = env.NOTIFIER || (env.SLACK_WEBHOOK_URL ? "slack" : env.TEAMS_WEBHOOK_URL ? "teams" : "none");
+  const webhookOptions = { maxAttempts: env.NOTIFIER_MAX_ATTEMPTS ? Number(env.NOTIFIER_MAX_ATTEMPTS) : undefined };
+  switch (kind) {
+    case "slack":
+      if (!env.SLACK_WEBHOOK_URL) {
+        throw new Error("NOTIFIER=slack requires SLACK_WEBHOOK_URL");
+      }
+      return new WebhookNotifier(env.SLACK_WEBHOOK_URL, "slack", webhookOptions);
+    case "teams":
+      if (!env.TEAMS_WEBHOOK_URL) {
+        throw new Error("NOTIFIER=teams requires TEAMS_WEBHOOK_URL");
+      }
+      return new WebhookNotifier(env.TEAMS_WEBHOOK_URL, "teams", webhookOptions);
+    case "file":
+      return new FileNotifier(env.NOTIFIER_FILE_DIR || ".mastra/notifications");
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown NOTIFIER: ${kind}`);
+  }
+}
+
+let notifier: Notifier | null | undefined;
+
+/**
+ * Returns the process-wide notifier, created from the environment on first use
+ */
+export function getNotifier(): Notifier | null {
+  if (notifier === undefined) {
+    notifier = createNotifierFromEnv();
+  }
+  return notifier;
+}
+
+/**
+ * Overrides the notifier (e.g. with a file notifier in local scripts)
+ */
+export function setNotifier(replacement: Notifier | null): void {
+  notifier = replacement;
+}
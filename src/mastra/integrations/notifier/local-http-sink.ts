@@ -0,0 +1,79 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface ReceivedWebhook {
+  path: string;
+  headers: IncomingHttpHeaders;
+  // Parsed JSON, or the raw text when the body is not JSON
+  body: unknown;
+  receivedAt: string;
+}
+
+export interface LocalHttpSinkOptions {
+  // 0 picks a free port
+  port?: number;
+  // Answers the first N requests with failureStatus, to exercise retries
+  failFirst?: number;
+  failureStatus?: number;
+}
+
+/**
+ * A local HTTP server that records every webhook posted to it, for testing
+ * notifiers without a Slack or Teams workspace:
+ *
+ *   const sink = await LocalHttpSink.start({ failFirst: 1 });
+ *   setNotifier(new WebhookNotifier(sink.url, "slack"));
+ *   ...
+ *   sink.received; // payloads that were accepted
+ *   await sink.close();
+ */
+export class LocalHttpSink {
+  readonly received: ReceivedWebhook[] = [];
+  private requestCount = 0;
+
+  private constructor(
+    private readonly server: Server,
+    private readonly options: LocalHttpSinkOptions
+  ) {}
+
+  static async start(options: LocalHttpSinkOptions = {}): Promise<LocalHttpSink> {
+    const server = createServer();
+    const sink = new LocalHttpSink(server, options);
+    server.on("request", (req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        sink.requestCount += 1;
+        if (sink.requestCount <= (options.failFirst ?? 0)) {
+          res.writeHead(options.failureStatus ?? 503).end("unavailable");
+          return;
+        }
+
+        const text = Buffer.concat(chunks).toString("utf8");
+        let body: unknown = text;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          // Kept as text
+        }
+        sink.received.push({ path: req.url || "/", headers: req.headers, body, receivedAt: new Date().toISOString() });
+        res.writeHead(200, { "Content-Type": "text/plain" }).end("ok");
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+    });
+    return sink;
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Notifier Types
+ *
+ * A notifier delivers messages to people outside the workflow (a chat
+ * channel, a file for local use). Messages carry both Markdown and HTML so
+ * each notifier can send whichever its destination renders; chat webhooks
+ * also use the structured fields to build rich cards.
+ */
+
+export interface DigestNotification {
+  kind: "digest";
+  // Short title: file name, chat fallback text, email subject
+  title: string;
+  markdown: string;
+  html: string;
+}
+
+export interface HighPriorityRequestDetails {
+  // "created" for a new story, "duplicate" when a vote on an existing ticket crossed a threshold
+  event: "created" | "duplicate";
+  summary: string;
+  priority?: string;
+  storyPoints?: number;
+  category?: string;
+  serviceTypes: string[];
+  // Requests on the same theme, including this one
+  duplicateCount: number;
+  ticketKey?: string;
+  ticketUrl?: string;
+  // Names of the notification rules that matched
+  matchedRules: string[];
+}
+
+export interface HighPriorityRequestNotification {
+  kind: "high_priority_request";
+  title: string;
+  markdown: string;
+  html: string;
+  request: HighPriorityRequestDetails;
+}
+
+export type Notification = DigestNotification | HighPriorityRequestNotification;
+
+export interface Notifier {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,93 @@
+import type { Notification, Notifier } from "./types";
+import { toSlackMessage, toTeamsMessage } from "./webhook-payloads";
+
+export type WebhookFormat = "slack" | "teams";
+
+export interface WebhookNotifierOptions {
+  // Delivery attempts before giving up, including the first
+  maxAttempts?: number;
+  // Delay before the first retry; doubled for each retry after it
+  retryDelayMs?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+// Longest Retry-After honored; a longer wait would hold up the workflow step
+const MAX_RETRY_DELAY_MS = 30_000;
+// A hung webhook fails the attempt (and is retried) instead of holding up the workflow step
+const REQUEST_TIMEOUT_MS = 10_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rate limits and server errors are worth retrying; other failures (a
+ * revoked webhook, a rejected payload) will fail the same way again
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Posts notifications to a Slack incoming webhook (Block Kit) or a Teams
+ * workflow webhook (Adaptive Card). Network errors, timeouts, 429s and 5xx
+ * responses are retried with exponential backoff, honoring Retry-After.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name: string;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(
+    private readonly url: string,
+    private readonly format: WebhookFormat,
+    options: WebhookNotifierOptions = {}
+  ) {
+    this.name = `${format}-webhook`;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  buildPayload(notification: Notification): Record<string, unknown> {
+    return this.format === "slack" ? toSlackMessage(notification) : toTeamsMessage(notification);
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const body = JSON.stringify(this.buildPayload(notification));
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      let retryAfterMs: number | undefined;
+      try {
+        const response = await fetch(this.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (response.ok) {
+          return;
+        }
+
+        const errorBody = await response.text();
+        lastError = `${response.status}: ${errorBody}`;
+        if (!isRetryableStatus(response.status)) {
+          break;
+        }
+        const retryAfter = Number(response.headers.get("retry-after"));
+        retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      if (attempt < this.maxAttempts) {
+        const delay = Math.min(retryAfterMs ?? this.retryDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+        console.warn(`⚠️ ${this.name} delivery attempt ${attempt}/${this.maxAttempts} failed (${lastError}); retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+
+    throw new Error(`${this.name} delivery failed (${lastError})`);
+  }
+}
@@ -0,0 +1,132 @@
+import type { HighPriorityRequestDetails, Notification } from "./types";
+
+/**
+ * Webhook Payloads
+ *
+ * Turns notifications into Slack Block Kit messages and Teams Adaptive Cards.
+ * High-priority requests get a card with the summary, priority, story points
+ * and a button to the ticket; digests are sent as their Markdown.
+ */
+
+// Slack rejects header text over 150 characters and markdown blocks over 12,000
+const SLACK_HEADER_MAX_LENGTH = 150;
+const SLACK_MARKDOWN_MAX_LENGTH = 12_000;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Escapes the characters Slack mrkdwn treats as control characters
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Label and value pairs shown on both Slack and Teams cards
+ */
+function requestFacts(request: HighPriorityRequestDetails): Array<{ title: string; value: string }> {
+  return [
+    { title: "Priority", value: request.priority ? `P${request.priority}` : "Not scored" },
+    { title: "Story points", value: request.storyPoints !== undefined ? String(request.storyPoints) : "Not estimated" },
+    { title: "Product area", value: request.category ?? "Unclassified" },
+    { title: "Service types", value: request.serviceTypes.join(", ") || "Not given" },
+    { title: "Requests", value: String(request.duplicateCount) },
+    { title: "Ticket", value: request.ticketKey ?? "Not filed" },
+  ];
+}
+
+function eventLabel(request: HighPriorityRequestDetails): string {
+  return request.event === "duplicate"
+    ? `Existing request reached ${request.duplicateCount} requests`
+    : "New feature request";
+}
+
+export function toSlackMessage(notification: Notification): Record<string, unknown> {
+  const header = {
+    type: "header",
+    text: { type: "plain_text", text: truncate(notification.title, SLACK_HEADER_MAX_LENGTH), emoji: true },
+  };
+
+  if (notification.kind === "digest") {
+    return {
+      text: notification.title,
+      blocks: [header, { type: "markdown", text: truncate(notification.markdown, SLACK_MARKDOWN_MAX_LENGTH) }],
+    };
+  }
+
+  const { request } = notification;
+  const summary = request.ticketUrl
+    ? `*<${request.ticketUrl}|${escapeSlack(request.summary)}>*`
+    : `*${escapeSlack(request.summary)}*`;
+  const blocks: Array<Record<string, unknown>> = [
+    header,
+    { type: "section", text: { type: "mrkdwn", text: `${eventLabel(request)}\n${summary}` } },
+    {
+      type: "section",
+      fields: requestFacts(request).map((fact) => ({
+        type: "mrkdwn",
+        text: `*${fact.title}*\n${escapeSlack(fact.value)}`,
+      })),
+    },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `Matched rules: ${escapeSlack(request.matchedRules.join(", "))}` }],
+    },
+  ];
+  if (request.ticketUrl) {
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: { type: "plain_text", text: `Open ${request.ticketKey ?? "ticket"}` },
+          url: request.ticketUrl,
+          style: "primary",
+        },
+      ],
+    });
+  }
+
+  return { text: notification.title, blocks };
+}
+
+export function toTeamsMessage(notification: Notification): Record<string, unknown> {
+  const body: Array<Record<string, unknown>> = [
+    { type: "TextBlock", text: notification.title, weight: "Bolder", size: "Medium", wrap: true },
+  ];
+  const actions: Array<Record<string, unknown>> = [];
+
+  if (notification.kind === "digest") {
+    body.push({ type: "TextBlock", text: notification.markdown, wrap: true });
+  } else {
+    const { request } = notification;
+    body.push(
+      { type: "TextBlock", text: eventLabel(request), isSubtle: true, spacing: "None", wrap: true },
+      { type: "TextBlock", text: request.summary, weight: "Bolder", wrap: true },
+      { type: "FactSet", facts: requestFacts(request) },
+      { type: "TextBlock", text: `Matched rules: ${request.matchedRules.join(", ")}`, isSubtle: true, size: "Small", wrap: true }
+    );
+    if (request.ticketUrl) {
+      actions.push({ type: "Action.OpenUrl", title: `Open ${request.ticketKey ?? "ticket"}`, url: request.ticketUrl });
+    }
+  }
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          ...(actions.length > 0 ? { actions } : {}),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,46 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { SpreadsheetRow, SpreadsheetSink, SpreadsheetValue } from "./types";
+
+/**
+ * Escapes a value for CSV. Values that a spreadsheet app would evaluate as a
+ * formula are prefixed with an apostrophe, since they come from user input.
+ */
+function toCsvCell(value: SpreadsheetValue): string {
+  let text = value === undefined ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class CsvFileSink implements SpreadsheetSink {
+  readonly name = "csv";
+
+  constructor(
+    private readonly filePath: string,
+    private readonly columns: string[]
+  ) {}
+
+  private async hasHeader(): Promise<boolean> {
+    try {
+      const contents = await readFile(this.filePath, "utf8");
+      return contents.trim().length > 0;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  async appendRow(row: SpreadsheetRow): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    let output = "";
+    if (!(await this.hasHeader())) {
+      output += this.columns.map(toCsvCell).join(",") + "\n";
+    }
+    output += this.columns.map((column) => toCsvCell(row[column])).join(",") + "\n";
+
+    await appendFile(this.filePath, output, "utf8");
+  }
+}
@@ -0,0 +1,141 @@
+import { createSign } from "node:crypto";
+import type { SpreadsheetRow, SpreadsheetSink } from "./types";
+
+/**
+ * Google Sheets Sink
+ *
+ * Appends rows through the Sheets REST API v4, authenticating as a Google
+ * service account (OAuth 2.0 JWT bearer flow). Share the spreadsheet with the
+ * service account's email so it can edit it.
+ */
+
+export interface GoogleSheetsConfig {
+  spreadsheetId: string;
+  sheetName: string;
+  serviceAccountEmail: string;
+  privateKey: string;
+}
+
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const SHEETS_API_URL = "https://sheets.googleapis.com/v4/spreadsheets";
+const SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+/**
+ * Builds the sink config from GOOGLE_* environment variables
+ */
+export function googleSheetsConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): GoogleSheetsConfig {
+  const required = [
+    "GOOGLE_SHEETS_SPREADSHEET_ID",
+    "GOOGLE_SERVICE_ACCOUNT_EMAIL",
+    "GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY",
+  ];
+  const missing = required.filter((name) => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing Google Sheets configuration: ${missing.join(", ")}`);
+  }
+
+  return {
+    spreadsheetId: env.GOOGLE_SHEETS_SPREADSHEET_ID!,
+    sheetName: env.GOOGLE_SHEETS_SHEET_NAME || "Feature Requests",
+    serviceAccountEmail: env.GOOGLE_SERVICE_ACCOUNT_EMAIL!,
+    // Keys stored in env files usually have escaped newlines
+    privateKey: env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY!.replace(/\\n/g, "\n"),
+  };
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+export class GoogleSheetsSink implements SpreadsheetSink {
+  readonly name = "google-sheets";
+
+  private accessToken?: { value: string; expiresAt: number };
+  private headerChecked = false;
+
+  constructor(
+    private readonly config: GoogleSheetsConfig,
+    private readonly columns: string[]
+  ) {}
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const claims = base64Url(JSON.stringify({
+      iss: this.config.serviceAccountEmail,
+      scope: SCOPE,
+      aud: TOKEN_URL,
+      iat: now,
+      exp: now + 3600,
+    }));
+    const signature = createSign("RSA-SHA256")
+      .update(`${header}.${claims}`)
+      .sign(this.config.privateKey, "base64url");
+
+    const response = await fetch(TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: `${header}.${claims}.${signature}`,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Google token request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const token = (await response.json()) as { access_token: string; expires_in: number };
+    this.accessToken = {
+      value: token.access_token,
+      expiresAt: Date.now() + token.expires_in * 1000,
+    };
+    return token.access_token;
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<any> {
+    const token = await this.getAccessToken();
+    const response = await fetch(`${SHEETS_API_URL}/${this.config.spreadsheetId}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Google Sheets request failed (${response.status}): ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  private range(cells: string): string {
+    return encodeURIComponent(`'${this.config.sheetName}'!${cells}`);
+  }
+
+  private async append(values: Array<string | number>): Promise<void> {
+    await this.request(`/values/${this.range("A1")}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`, {
+      method: "POST",
+      body: JSON.stringify({ values: [values] }),
+    });
+  }
+
+  private async ensureHeader(): Promise<void> {
+    if (this.headerChecked) return;
+    const firstRow = await this.request(`/values/${this.range("1:1")}`);
+    if (!firstRow.values || firstRow.values.length === 0) {
+      await this.append(this.columns);
+    }
+    this.headerChecked = true;
+  }
+
+  async appendRow(row: SpreadsheetRow): Promise<void> {
+    await this.ensureHeader();
+    await this.append(this.columns.map((column) => row[column] ?? ""));
+  }
+}
@@ -0,0 +1,66 @@
+import { CsvFileSink } from "./csv-sink";
+import { GoogleSheetsSink, googleSheetsConfigFromEnv } from "./google-sheets-sink";
+import type { SpreadsheetSink } from "./types";
+
+export * from "./types";
+export { CsvFileSink } from "./csv-sink";
+export { GoogleSheetsSink, googleSheetsConfigFromEnv } from "./google-sheets-sink";
+
+/**
+ * Columns of the feature request log the PMs triage from
+ */
+export const SUBMISSION_LOG_COLUMNS = [
+  "Submitted At",
+  "Response Token",
+  "Description",
+  "Usage Frequency",
+  "Service Types",
+  "Interests",
+  "Summary",
+  "Priority",
+  "Story Points",
+  "Jira Key",
+  "Outcome",
+];
+
+/**
+ * Selects the sink from SPREADSHEET_SINK:
+ * - "google-sheets": Google Sheets (GOOGLE_* variables required)
+ * - "csv": CSV file at SPREADSHEET_CSV_PATH (default .mastra/feature-requests.csv)
+ * - "none": rows are not written
+ * Defaults to "google-sheets" when GOOGLE_SHEETS_SPREADSHEET_ID is set, otherwise "none".
+ */
+export function createSpreadsheetSinkFromEnv(
+  env: Record<string, string | undefined> = process.env
+): SpreadsheetSink | null {
+  const kind = env.SPREADSHEET_SINK || (env.GOOGLE_SHEETS_SPREADSHEET_ID ? "google-sheets" : "none");
+  switch (kind) {
+    case "google-sheets":
+      return new GoogleSheetsSink(googleSheetsConfigFromEnv(env), SUBMISSION_LOG_COLUMNS);
+    case "csv":
+      return new CsvFileSink(env.SPREADSHEET_CSV_PATH || ".mastra/feature-requests.csv", SUBMISSION_LOG_COLUMNS);
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown SPREADSHEET_SINK: ${kind}`);
+  }
+}
+
+let spreadsheetSink: SpreadsheetSink | null | undefined;
+
+/**
+ * Returns the process-wide spreadsheet sink, created from the environment on first use
+ */
+export function getSpreadsheetSink(): SpreadsheetSink | null {
+  if (spreadsheetSink === undefined) {
+    spreadsheetSink = createSpreadsheetSinkFromEnv();
+  }
+  return spreadsheetSink;
+}
+
+/**
+ * Overrides the spreadsheet sink (e.g. with a CSV sink in local scripts)
+ */
+export function setSpreadsheetSink(sink: SpreadsheetSink | null): void {
+  spreadsheetSink = sink;
+}
@@ -0,0 +1,16 @@
+/**
+ * Spreadsheet Sink Types
+ *
+ * A sink appends rows to a tabular log (Google Sheets in production, a CSV file
+ * locally). Each sink is created with a fixed list of columns and writes the
+ * header row itself the first time it finds the sheet empty.
+ */
+
+export type SpreadsheetValue = string | number | undefined;
+
+export type SpreadsheetRow = Record<string, SpreadsheetValue>;
+
+export interface SpreadsheetSink {
+  readonly name: string;
+  appendRow(row: SpreadsheetRow): Promise<void>;
+}
@@ -0,0 +1,216 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { priorityScoringConfig } from "../config/priority-scoring";
+import {
+  STORY_PRIORITIES,
+  priorityFactorsSchema,
+  type ParsedSubmission,
+  type PriorityFactor,
+  type PriorityFactors,
+  type StoryPriority,
+} from "../domain/feature-request";
+
+/**
+ * Priority Scoring
+ *
+ * Computes a story's priority from the agent's four sub-scores:
+ *   score = User Impact × 0.3 + Business Value × 0.3 + Feasibility × 0.2 + Urgency × 0.2
+ * then applies the adjustments in config/priority-scoring.ts (usage frequency,
+ * plan tier from hidden fields, duplicate votes) and maps the final score to
+ * a priority band. The breakdown is kept so PMs can see why a story got its priority.
+ */
+
+const factorWeightsSchema = z.object({
+  userImpact: z.number().min(0).max(1),
+  businessValue: z.number().min(0).max(1),
+  feasibility: z.number().min(0).max(1),
+  urgency: z.number().min(0).max(1),
+});
+
+export const priorityScoringConfigSchema = z.object({
+  version: z.literal(1),
+  weights: factorWeightsSchema,
+  // Minimum final score for priorities "1"-"4"; anything lower is "5"
+  bands: z.object({ "1": z.number(), "2": z.number(), "3": z.number(), "4": z.number() }),
+  adjustments: z.object({
+    // Keyed by the usageFrequency answer, matched case-insensitively
+    usageFrequency: z.record(z.string(), z.number()),
+    planTier: z.object({
+      hiddenField: z.string().min(1),
+      // Keyed by plan tier, matched case-insensitively
+      boosts: z.record(z.string(), z.number()),
+    }),
+    duplicateVotes: z.object({
+      perAdditionalVote: z.number(),
+      max: z.number().min(0),
+    }),
+  }),
+});
+
+export type PriorityScoringConfig = z.infer<typeof priorityScoringConfigSchema>;
+
+export const priorityAdjustmentSchema = z.object({
+  signal: z.enum(["usageFrequency", "planTier", "duplicateVotes"]),
+  value: z.string().describe("The signal value that triggered the adjustment"),
+  delta: z.number().describe("Points added to the weighted score"),
+});
+
+export type PriorityAdjustment = z.infer<typeof priorityAdjustmentSchema>;
+
+export const priorityBreakdownSchema = z.object({
+  factors: priorityFactorsSchema,
+  weights: factorWeightsSchema,
+  weightedScore: z.number().describe("Weighted sum of the factor scores"),
+  adjustments: z.array(priorityAdjustmentSchema),
+  finalScore: z.number().describe("Weighted score plus adjustments, clamped to 0-10"),
+  priority: z.enum(STORY_PRIORITIES),
+});
+
+export type PriorityBreakdown = z.infer<typeof priorityBreakdownSchema>;
+
+/**
+ * Signals that adjust the score. A theme has one entry per distinct answer
+ * across its votes; each adjustment uses the answer with the largest boost.
+ */
+export interface PrioritySignals {
+  usageFrequencies: string[];
+  planTiers: string[];
+  voteCount: number;
+}
+
+/**
+ * Validates a scoring config, throwing one error that lists every problem
+ */
+export function validatePriorityScoringConfig(raw: unknown): PriorityScoringConfig {
+  const parsed = priorityScoringConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid priority scoring config:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const problems: string[] = [];
+  const { weights, bands } = parsed.data;
+  const weightSum = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (Math.abs(weightSum - 1) > 0.001) {
+    problems.push(`weights must add up to 1 (got ${weightSum})`);
+  }
+  if (!(bands["1"] > bands["2"] && bands["2"] > bands["3"] && bands["3"] > bands["4"])) {
+    problems.push("bands must decrease from priority 1 to priority 4");
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid priority scoring config:\n${problems.join("\n")}`);
+  }
+
+  return parsed.data;
+}
+
+let loadedConfig: PriorityScoringConfig | undefined;
+
+/**
+ * Loads and validates the scoring config (PRIORITY_SCORING_CONFIG JSON file if set)
+ */
+export function loadPriorityScoringConfig(): PriorityScoringConfig {
+  if (!loadedConfig) {
+    const path = process.env.PRIORITY_SCORING_CONFIG;
+    const raw = path ? JSON.parse(readFileSync(path, "utf8")) : priorityScoringConfig;
+    loadedConfig = validatePriorityScoringConfig(raw);
+  }
+  return loadedConfig;
+}
+
+/**
+ * Signals for a single new submission
+ */
+export function prioritySignalsFor(
+  submission: ParsedSubmission,
+  config: PriorityScoringConfig = loadPriorityScoringConfig()
+): PrioritySignals {
+  const planTier = submission.context?.hiddenFields?.[config.adjustments.planTier.hiddenField];
+  return {
+    usageFrequencies: submission.usageFrequency ? [submission.usageFrequency] : [],
+    planTiers: planTier ? [planTier] : [],
+    voteCount: 1,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Largest boost among the given values, looked up case-insensitively
+ */
+function largestBoost(
+  signal: PriorityAdjustment["signal"],
+  values: string[],
+  boosts: Record<string, number>
+): PriorityAdjustment | null {
+  const normalized = new Map(Object.entries(boosts).map(([key, delta]) => [key.trim().toLowerCase(), delta]));
+  let best: PriorityAdjustment | null = null;
+  for (const value of values) {
+    const delta = normalized.get(value.trim().toLowerCase());
+    if (delta !== undefined && delta !== 0 && (!best || delta > best.delta)) {
+      best = { signal, value, delta };
+    }
+  }
+  return best;
+}
+
+function priorityForScore(score: number, bands: PriorityScoringConfig["bands"]): StoryPriority {
+  const band = (["1", "2", "3", "4"] as const).find((priority) => score >= bands[priority]);
+  return band ?? "5";
+}
+
+/**
+ * Computes the priority and its full breakdown from the agent's factor scores
+ */
+export function scorePriority(
+  factors: PriorityFactors,
+  signals: PrioritySignals,
+  config: PriorityScoringConfig = loadPriorityScoringConfig()
+): PriorityBreakdown {
+  const { weights, bands, adjustments: rules } = config;
+
+  const weightedScore = round(
+    (Object.keys(weights) as PriorityFactor[]).reduce(
+      (sum, factor) => sum + factors[factor].score * weights[factor],
+      0
+    )
+  );
+
+  const adjustments: PriorityAdjustment[] = [];
+  const frequency = largestBoost("usageFrequency", signals.usageFrequencies, rules.usageFrequency);
+  if (frequency) {
+    adjustments.push(frequency);
+  }
+  const planTier = largestBoost("planTier", signals.planTiers, rules.planTier.boosts);
+  if (planTier) {
+    adjustments.push(planTier);
+  }
+  const extraVotes = signals.voteCount - 1;
+  if (extraVotes > 0 && rules.duplicateVotes.perAdditionalVote !== 0) {
+    const delta = Math.min(rules.duplicateVotes.max, extraVotes * rules.duplicateVotes.perAdditionalVote);
+    adjustments.push({ signal: "duplicateVotes", value: `${signals.voteCount} votes`, delta: round(delta) });
+  }
+
+  const adjusted = weightedScore + adjustments.reduce((sum, adjustment) => sum + adjustment.delta, 0);
+  const finalScore = round(Math.max(0, Math.min(10, adjusted)));
+
+  return {
+    factors,
+    weights,
+    weightedScore,
+    adjustments,
+    finalScore,
+    priority: priorityForScore(finalScore, bands),
+  };
+}
+
+/**
+ * One-line summary for logs and tracker comments, e.g. "P2 (6.9 = 6.4 + 0.5 usageFrequency)"
+ */
+export function formatPriorityBreakdown(breakdown: PriorityBreakdown): string {
+  const adjustments = breakdown.adjustments
+    .map((adjustment) => ` ${adjustment.delta >= 0 ? "+" : "-"} ${Math.abs(adjustment.delta)} ${adjustment.signal}`)
+    .join("");
+  return `P${breakdown.priority} (${breakdown.finalScore} = ${breakdown.weightedScore}${adjustments})`;
+}
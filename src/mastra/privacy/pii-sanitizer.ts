@@ -0,0 +1,264 @@
+import { z } from "zod";
+import type { FeatureRequestInput } from "../domain/feature-request";
+
+/**
+ * Deterministic PII Sanitizer
+ *
+ * Regex-based redaction that runs before any text is sent to an LLM. It does
+ * not rely on prompt instructions, so the same input always produces the same
+ * masked output. Detected values are replaced with typed placeholders such as
+ * [EMAIL] and counted in a redaction report. The report never contains the
+ * original values.
+ */
+
+export const PII_TYPES = [
+  "url_with_token",
+  "email",
+  "card_number",
+  "phone_number",
+  "street_address",
+  "client_name",
+] as const;
+
+export type PiiType = (typeof PII_TYPES)[number];
+
+export const PII_PLACEHOLDERS: Record<PiiType, string> = {
+  url_with_token: "[URL]",
+  email: "[EMAIL]",
+  card_number: "[CARD_NUMBER]",
+  phone_number: "[PHONE]",
+  street_address: "[ADDRESS]",
+  client_name: "[CLIENT_NAME]",
+};
+
+export const redactionReportSchema = z.object({
+  totalRedactions: z.number().describe("Total number of values redacted across all fields"),
+  countsByType: z.record(z.string(), z.number()).describe("Number of redactions per PII type"),
+  findings: z.array(z.object({
+    field: z.string(),
+    type: z.string(),
+  })).describe("Which field each redaction came from (values are never included)"),
+});
+
+export type RedactionReport = z.infer<typeof redactionReportSchema>;
+
+export interface PiiMatch {
+  type: PiiType;
+  value: string;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"')\]]+/gi;
+// Query params and path segments that carry credentials or per-user identifiers
+const URL_TOKEN_PATTERN = /[?&#](?:token|access_token|auth|key|api_key|apikey|sig|signature|code|session|sid|email|uid|user_id)=|\/[A-Za-z0-9_-]{24,}(?:[/?#]|$)/i;
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+
+// 13-19 digits, optionally grouped by spaces or dashes; confirmed with a Luhn check
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+// North American and international formats: +1 (555) 123-4567, 555.123.4567, +44 20 7946 0958.
+// Not inside a longer token ("#1234567890", "INV-1234567890")
+const PHONE_PATTERN = /(?<![\w#+-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/g;
+// Phone numbers are written with a country code, parentheses or separators; bare digit runs are order numbers and IDs
+const PHONE_FORMATTING = /[+()\s.-]/;
+
+const STREET_SUFFIXES = [
+  "street", "st", "avenue", "ave", "road", "rd", "boulevard", "blvd", "drive", "dr",
+  "lane", "ln", "way", "court", "ct", "place", "pl", "terrace", "ter", "parkway", "pkwy",
+  "circle", "cir", "highway", "hwy", "square", "sq",
+];
+const STREET_ADDRESS_PATTERN = new RegExp(
+  `\\b\\d{1,6}\\s+(?:[A-Z0-9][\\w'.-]*\\s+){1,4}(?:${STREET_SUFFIXES.join("|")})\\b\\.?` +
+    `(?:,?\\s*(?:apt|apartment|suite|ste|unit|#)\\.?\\s*[\\w-]+)?`,
+  "gi"
+);
+
+// Salon/client cues followed by a capitalized name: "my client Jane", "client named Jane Doe"
+const CLIENT_NAME_PATTERN =
+  /\b((?:[Mm]y|[Oo]ur|[Aa]|[Oo]ne|[Tt]he)\s+(?:regular\s+|new\s+|longtime\s+)?(?:client|customer|guest|bride)s?,?\s+(?:named\s+|called\s+)?)([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+type Redactor = (text: string, matches: PiiMatch[]) => string;
+
+const REDACTORS: Record<PiiType, Redactor> = {
+  url_with_token: (text, matches) =>
+    text.replace(URL_PATTERN, (url) => {
+      if (!URL_TOKEN_PATTERN.test(url)) return url;
+      matches.push({ type: "url_with_token", value: url });
+      return PII_PLACEHOLDERS.url_with_token;
+    }),
+  email: (text, matches) =>
+    text.replace(EMAIL_PATTERN, (email) => {
+      matches.push({ type: "email", value: email });
+      return PII_PLACEHOLDERS.email;
+    }),
+  card_number: (text, matches) =>
+    text.replace(CARD_PATTERN, (candidate) => {
+      const digits = candidate.replace(/\D/g, "");
+      if (digits.length < 13 || digits.length > 19 || !passesLuhn(digits)) return candidate;
+      matches.push({ type: "card_number", value: candidate });
+      return PII_PLACEHOLDERS.card_number;
+    }),
+  phone_number: (text, matches) =>
+    text.replace(PHONE_PATTERN, (candidate) => {
+      const digits = candidate.replace(/\D/g, "");
+      if (digits.length < 10 || digits.length > 15 || !PHONE_FORMATTING.test(candidate)) return candidate;
+      matches.push({ type: "phone_number", value: candidate });
+      return PII_PLACEHOLDERS.phone_number;
+    }),
+  street_address: (text, matches) =>
+    text.replace(STREET_ADDRESS_PATTERN, (address) => {
+      matches.push({ type: "street_address", value: address });
+      return PII_PLACEHOLDERS.street_address;
+    }),
+  client_name: (text, matches) =>
+    text.replace(CLIENT_NAME_PATTERN, (_match, cue: string, name: string) => {
+      matches.push({ type: "client_name", value: name });
+      return `${cue}${PII_PLACEHOLDERS.client_name}`;
+    }),
+};
+
+/**
+ * Masks all detected PII in a single string. Redactors run in PII_TYPES order
+ * so that e.g. emails inside URLs and card numbers are handled before phones.
+ */
+export function redactText(
+  text: string,
+  types: readonly PiiType[] = PII_TYPES
+): { text: string; matches: PiiMatch[] } {
+  const matches: PiiMatch[] = [];
+  let redacted = text;
+  for (const type of PII_TYPES) {
+    if (types.includes(type)) {
+      redacted = REDACTORS[type](redacted, matches);
+    }
+  }
+  return { text: redacted, matches };
+}
+
+/**
+ * Matches a known value as a whole word, case-insensitively, so a client
+ * named "Sam" is found in "Sam's color" but not in "same"
+ */
+function knownValuePattern(value: string): RegExp {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const start = /^\w/.test(value) ? "\\b" : "";
+  const end = /\w$/.test(value) ? "\\b" : "";
+  return new RegExp(`${start}${escaped}${end}`, "i");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Redacts every string field of a record and builds a redaction report.
+ * Nested records (e.g. Typeform hidden fields) are redacted too and reported
+ * with dotted field names such as "context.hiddenFields.name".
+ */
+export function sanitizeFields<T extends Record<string, unknown>>(
+  fields: T
+): { sanitized: T; report: RedactionReport; matches: PiiMatch[] } {
+  const report: RedactionReport = { totalRedactions: 0, countsByType: {}, findings: [] };
+  const allMatches: PiiMatch[] = [];
+
+  const visit = (record: Record<string, unknown>, prefix: string): Record<string, unknown> => {
+    const sanitized: Record<string, unknown> = { ...record };
+    for (const [key, value] of Object.entries(record)) {
+      const field = `${prefix}${key}`;
+      if (isPlainObject(value)) {
+        sanitized[key] = visit(value, `${field}.`);
+        continue;
+      }
+      if (typeof value !== "string") continue;
+      const { text, matches } = redactText(value);
+      sanitized[key] = text;
+      for (const match of matches) {
+        report.totalRedactions++;
+        report.countsByType[match.type] = (report.countsByType[match.type] || 0) + 1;
+        report.findings.push({ field, type: match.type });
+      }
+      allMatches.push(...matches);
+    }
+    return sanitized;
+  };
+
+  const sanitized = visit(fields, "");
+  return { sanitized: sanitized as T, report, matches: allMatches };
+}
+
+/**
+ * Runs the deterministic PII redaction over whichever workflow input shape was
+ * given. The contact email is never needed for analysis, so it is dropped
+ * entirely (and reported as a match, so leaks of it are still caught).
+ */
+export function sanitizeFeatureRequestInput(input: FeatureRequestInput): {
+  submission: FeatureRequestInput;
+  report: RedactionReport;
+  matches: PiiMatch[];
+} {
+  if (input.kind === "raw_text") {
+    const { sanitized, report, matches } = sanitizeFields({ text: input.text });
+    return { submission: { ...input, text: sanitized.text }, report, matches };
+  }
+
+  const { kind, contactEmail, metadata, ...fields } = input;
+  const { sanitized, report, matches } = sanitizeFields(fields);
+  if (contactEmail) {
+    matches.push({ type: "email", value: contactEmail });
+  }
+  return { submission: { kind, metadata, ...sanitized }, report, matches };
+}
+
+/**
+ * Scans generated output for PII. Returns one entry per field/type that leaked.
+ * Nested records (e.g. priority factor rationales) are scanned too and
+ * reported with dotted field names.
+ *
+ * Client names are only checked against the names redacted from the input:
+ * generated acceptance criteria legitimately use placeholder names
+ * ("Given a client Maria..."), so the name heuristic alone is too noisy here.
+ */
+export function findPiiLeaks(
+  fields: Record<string, unknown>,
+  knownValues: string[] = []
+): Array<{ field: string; type: PiiType | "known_value" }> {
+  const leaks: Array<{ field: string; type: PiiType | "known_value" }> = [];
+  const detectorTypes = PII_TYPES.filter((type) => type !== "client_name");
+  const knownPatterns = knownValues.filter((known) => known.trim()).map((known) => knownValuePattern(known.trim()));
+
+  const visit = (record: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(record)) {
+      const field = `${prefix}${key}`;
+      if (isPlainObject(value)) {
+        visit(value, `${field}.`);
+        continue;
+      }
+      if (typeof value !== "string") continue;
+      const { matches } = redactText(value, detectorTypes);
+      for (const type of new Set(matches.map((match) => match.type))) {
+        leaks.push({ field, type });
+      }
+      if (knownPatterns.some((pattern) => pattern.test(value))) {
+        leaks.push({ field, type: "known_value" });
+      }
+    }
+  };
+
+  visit(fields, "");
+  return leaks;
+}
@@ -0,0 +1,256 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient } from "@libsql/client";
+import { Agent, type AgentConfig } from "@mastra/core/agent";
+import { Mastra } from "@mastra/core/mastra";
+import type { ApiRoute } from "@mastra/core/server";
+import { LibSQLStore } from "@mastra/libsql";
+import type { IssueDraft } from "../domain/feature-request";
+import { runImport } from "../imports/import-runner";
+import { InMemoryIssueTrackerAdapter, setIssueTracker, type CreatedIssue, type IssueRouting } from "../integrations/issue-tracker";
+import { setMailer } from "../integrations/mailer";
+import { setNotifier } from "../integrations/notifier";
+import { setSpreadsheetSink } from "../integrations/spreadsheet";
+import { publishReviewRoute } from "../routes/reviews";
+import { getDatabase, setDatabase } from "../storage/database";
+import { idempotencyLedger } from "../storage/idempotency-ledger";
+import { importStore } from "../storage/imports";
+import { processedSubmissions } from "../storage/processed-submissions";
+import { featureRequestWorkflow } from "../workflows/feature-request-workflow";
+import { drainFeatureRequestJobs, featureRequestJobs, publishError, resumeFeatureRequestRun } from "./feature-request-worker";
+
+/**
+ * An agent whose model always answers with the given text
+ */
+function scriptedAgent(name: string, text: string): Agent {
+  const usage = { inputTokens: 1, outputTokens: 1, totalTokens: 2 };
+  const model = {
+    specificationVersion: "v2",
+    provider: "scripted",
+    modelId: name,
+    supportedUrls: {},
+    doGenerate: async () => ({ finishReason: "stop", usage, content: [{ type: "text", text }], warnings: [] }),
+    doStream: async () => ({
+      stream: new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "1" });
+          controller.enqueue({ type: "text-delta", id: "1", delta: text });
+          controller.enqueue({ type: "text-end", id: "1" });
+          controller.enqueue({ type: "finish", finishReason: "stop", usage });
+          controller.close();
+        },
+      }),
+    }),
+  };
+  return new Agent({ name, instructions: "Scripted for tests", model: model as unknown as AgentConfig["model"] });
+}
+
+/**
+ * In-memory tracker whose next createIssue calls fail
+ */
+class FlakyIssueTracker extends InMemoryIssueTrackerAdapter {
+  failures = 0;
+
+  async createIssue(draft: IssueDraft, routing?: IssueRouting): Promise<CreatedIssue> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("Jira issue creation failed (503): Service Unavailable");
+    }
+    return super.createIssue(draft, routing);
+  }
+}
+
+const story = {
+  summary: "[Messaging] - Send appointment reminders in Spanish",
+  description: "## Problem Statement\n\nPros with Spanish-speaking clients send reminders by hand.",
+  acceptanceCriteria: "- [ ] Given a client who prefers Spanish, When a reminder is sent, Then it is in Spanish",
+  noteForQA: "Check SMS and email reminders.",
+  storyPoints: 5,
+  priorityFactors: {
+    userImpact: { score: 7, rationale: "Many pros have Spanish-speaking clients" },
+    businessValue: { score: 6, rationale: "Reduces no-shows" },
+    feasibility: { score: 8, rationale: "Templates already support locales" },
+    urgency: { score: 4, rationale: "Workaround exists" },
+  },
+};
+
+describe("feature request worker", () => {
+  const directory = mkdtempSync(join(tmpdir(), "feature-request-worker-"));
+  const tracker = new FlakyIssueTracker();
+  const env = { requireReview: process.env.REQUIRE_REVIEW, adminToken: process.env.ADMIN_API_TOKEN };
+  let mastra: Mastra;
+
+  // Queues a submission and runs it until it waits for review
+  async function draftAwaitingReview(): Promise<string> {
+    const job = await featureRequestJobs.enqueue({
+      kind: "structured",
+      featureDescription: "Let me send appointment reminders to my clients in Spanish",
+    });
+    await drainFeatureRequestJobs(mastra);
+    assert.equal((await featureRequestJobs.get(job.id))?.status, "suspended");
+    return job.id;
+  }
+
+  // Skips the backoff so the next drain picks the job up
+  async function makeDue(runId: string): Promise<void> {
+    await getDatabase().execute({ sql: "UPDATE jobs SET next_attempt_at = 0 WHERE id = ?", args: [runId] });
+  }
+
+  async function publish(runId: string, authorization?: string) {
+    const route = publishReviewRoute as Extract<ApiRoute, { handler: unknown }>;
+    let response = { status: 200, body: {} as Record<string, unknown> };
+    const context = {
+      req: {
+        param: () => runId,
+        header: (name: string) => (name.toLowerCase() === "authorization" ? authorization : undefined),
+      },
+      get: () => mastra,
+      json: (body: Record<string, unknown>, status?: number) => {
+        response = { status: status ?? 200, body };
+        return new Response();
+      },
+    };
+    await route.handler(context as unknown as Parameters<typeof route.handler>[0], async () => {});
+    return response;
+  }
+
+  before(() => {
+    setDatabase(createClient({ url: `file:${join(directory, "app.db")}` }));
+    setIssueTracker(tracker);
+    setSpreadsheetSink(null);
+    setNotifier(null);
+    setMailer(null);
+    delete process.env.REQUIRE_REVIEW;
+    process.env.ADMIN_API_TOKEN = "admin-token";
+
+    mastra = new Mastra({
+      storage: new LibSQLStore({ url: `file:${join(directory, "mastra.db")}` }),
+      agents: {
+        jiraFeatureRequestAgent: scriptedAgent("jira", JSON.stringify(story)),
+        requestTypeClassifierAgent: scriptedAgent(
+          "request-type",
+          JSON.stringify({ requestType: "feature", confidence: 0.95, rationale: "Asks for new functionality" })
+        ),
+        productAreaClassifierAgent: scriptedAgent(
+          "product-area",
+          JSON.stringify({ category: "Messaging", confidence: 0.95, rationale: "About reminders" })
+        ),
+      },
+      workflows: { featureRequestWorkflow },
+    });
+  });
+
+  beforeEach(() => {
+    tracker.failures = 0;
+  });
+
+  after(() => {
+    setIssueTracker(null);
+    if (env.requireReview === undefined) delete process.env.REQUIRE_REVIEW;
+    else process.env.REQUIRE_REVIEW = env.requireReview;
+    if (env.adminToken === undefined) delete process.env.ADMIN_API_TOKEN;
+    else process.env.ADMIN_API_TOKEN = env.adminToken;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("retries a failed tracker call from the snapshot with backoff", async () => {
+    const runId = await draftAwaitingReview();
+    tracker.failures = 1;
+
+    const approved = await resumeFeatureRequestRun(mastra, runId, "review-story", {
+      decision: "approve",
+      reviewer: "jane.pm",
+      edits: { priority: "1" },
+    });
+    assert.match(publishError(approved) ?? "", /503/);
+
+    const retrying = await featureRequestJobs.get(runId);
+    assert.equal(retrying?.status, "retrying");
+    assert.ok(retrying!.nextAttemptAt > Date.now());
+    assert.equal(tracker.issues.length, 0);
+
+    await makeDue(runId);
+    await drainFeatureRequestJobs(mastra);
+
+    assert.equal((await featureRequestJobs.get(runId))?.status, "succeeded");
+    assert.equal(tracker.issues.length, 1);
+    // The reviewer's edit survives because the run resumed instead of starting over
+    assert.equal(tracker.issues[0].story.priority, "1");
+    const submission = await processedSubmissions.get(runId);
+    assert.equal(submission?.status, "created");
+    assert.equal(submission?.trackerKey, tracker.issues[0].key);
+  });
+
+  test("lets an admin publish an approved draft once retries run out", async () => {
+    const runId = await draftAwaitingReview();
+    tracker.failures = Number.POSITIVE_INFINITY;
+
+    await resumeFeatureRequestRun(mastra, runId, "review-story", { decision: "approve", reviewer: "jane.pm" });
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await makeDue(runId);
+      await drainFeatureRequestJobs(mastra);
+    }
+    assert.equal((await featureRequestJobs.get(runId))?.status, "dead_letter");
+    assert.equal((await processedSubmissions.get(runId))?.status, "failed");
+
+    tracker.failures = 0;
+    assert.equal((await publish(runId)).status, 403);
+    const published = await publish(runId, "Bearer admin-token");
+    assert.equal(published.status, 200);
+
+    const issue = tracker.issues.find((candidate) => candidate.key === (published.body.data as { trackerIssue?: { key: string } }).trackerIssue?.key);
+    assert.equal(issue?.story.summary, story.summary);
+    assert.equal((await featureRequestJobs.get(runId))?.status, "succeeded");
+    assert.equal((await processedSubmissions.get(runId))?.status, "created");
+    assert.equal((await publish(runId, "Bearer admin-token")).status, 404);
+  });
+
+  test("resumes an import row interrupted after it claimed its idempotency keys", async () => {
+    const input = { kind: "structured" as const, featureDescription: "Let me send appointment reminders in Spanish" };
+    const imported = await importStore.create({ source: "resume-test.csv", format: "csv" }, [
+      { rowNumber: 1, externalId: "resume-test-1", status: "pending", input, idempotencyKeys: ["resume-test-1"] },
+    ]);
+    // State left by an importer that died after claiming the keys, before starting the run
+    await importStore.setRowRun(imported.id, 1, "interrupted-run");
+    await idempotencyLedger.claim(["resume-test-1"], "interrupted-run");
+
+    const summary = await runImport(mastra, imported.id, { ratePerMinute: 600 });
+    assert.equal(summary.counts.duplicate, 0);
+    assert.equal(summary.counts.awaiting_review, 1);
+    assert.equal((await processedSubmissions.get("interrupted-run"))?.status, "awaiting_review");
+  });
+
+  test("keeps no raw PII in job payloads or import rows", async () => {
+    const input = {
+      kind: "structured" as const,
+      featureDescription: "Text my client Maria at (415) 555-0199 about reminders in Spanish",
+      contactEmail: "owner@example-salon.com",
+    };
+    const rawValues = ["owner@example-salon.com", "(415) 555-0199", "555-0199"];
+
+    await featureRequestJobs.enqueue(input);
+    await drainFeatureRequestJobs(mastra);
+
+    const imported = await importStore.create({ source: "pii-test.csv", format: "csv" }, [
+      { rowNumber: 1, externalId: "pii-test-1", status: "pending", input, idempotencyKeys: ["pii-test-1"] },
+    ]);
+    const summary = await runImport(mastra, imported.id, { ratePerMinute: 600 });
+    assert.equal(summary.counts.awaiting_review, 1);
+
+    const db = getDatabase();
+    const stored = [
+      ...(await db.execute("SELECT payload AS value FROM jobs")).rows,
+      ...(await db.execute("SELECT input AS value FROM import_rows")).rows,
+    ].map((row) => String(row.value));
+    assert.ok(stored.some((value) => value.includes("[PHONE]")));
+    for (const value of stored) {
+      for (const raw of rawValues) {
+        assert.ok(!value.includes(raw), `raw PII "${raw}" is still stored`);
+      }
+    }
+  });
+});
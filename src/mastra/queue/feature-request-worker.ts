@@ -0,0 +1,184 @@
+import type { Mastra } from "@mastra/core/mastra";
+import type { FeatureRequestInput } from "../domain/feature-request";
+import { sanitizeFeatureRequestInput } from "../privacy/pii-sanitizer";
+import { processedSubmissions } from "../storage/processed-submissions";
+import { JobQueue, type Job } from "./job-queue";
+
+/**
+ * Feature Request Worker
+ *
+ * Drains queued webhook deliveries through featureRequestWorkflow. The job id
+ * doubles as the workflow run id, so callers can poll either.
+ *
+ * Draining is triggered right after a delivery is queued (best effort), by the
+ * cron-friendly worker route, and optionally by an in-process poller
+ * (FEATURE_REQUEST_WORKER=poll) for long-running servers.
+ */
+
+export type FeatureRequestJobResult = Record<string, unknown> | null;
+
+export const featureRequestJobs = new JobQueue<FeatureRequestInput, FeatureRequestJobResult>("feature-requests");
+
+// featureRequestWorkflow suspends at this step when the tracker call fails, so
+// the approved draft stays in the run's snapshot; retries resume the step
+export const PUBLISH_STEP_ID = "create-tracker-issue";
+
+type RunOutcome = { status: string; suspended?: string[][]; steps?: Record<string, { suspendPayload?: unknown }> };
+
+/**
+ * The tracker error a run is suspended on while it waits to publish its draft
+ */
+export function publishError(result: RunOutcome): string | undefined {
+  if (result.status !== "suspended" || !result.suspended?.some((path) => path[0] === PUBLISH_STEP_ID)) {
+    return undefined;
+  }
+  const payload = result.steps?.[PUBLISH_STEP_ID]?.suspendPayload as { error?: string } | undefined;
+  return payload?.error ?? "Issue creation failed";
+}
+
+/**
+ * Whether the run is suspended with a draft that could not be filed in the tracker
+ */
+export async function isAwaitingPublish(mastra: Mastra, runId: string): Promise<boolean> {
+  const run = await mastra.getWorkflow("featureRequestWorkflow").getWorkflowRunById(runId);
+  if (!run) return false;
+  const snapshot = typeof run.snapshot === "string" ? JSON.parse(run.snapshot) : run.snapshot;
+  return snapshot.status === "suspended" && PUBLISH_STEP_ID in (snapshot.suspendedPaths || {});
+}
+
+/**
+ * Replaces a job's payload with the redacted submission once the job will not
+ * start the workflow again: the raw submission (contact email, unredacted
+ * text) is only kept while a retry may need it. Suspended runs resume from
+ * their snapshot, not the payload.
+ */
+async function redactPayload(job: Job<FeatureRequestInput, FeatureRequestJobResult>): Promise<void> {
+  try {
+    await featureRequestJobs.updatePayload(job.id, sanitizeFeatureRequestInput(job.payload).submission);
+  } catch (error) {
+    console.error(`Failed to redact the payload of job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Marks a run as failed in the submission history once it will not be retried
+ */
+export async function recordFailure(runId: string, error: string): Promise<void> {
+  try {
+    await processedSubmissions.record(runId, { status: "failed", error });
+  } catch (recordError) {
+    console.error(`Failed to record failure of run ${runId}:`, recordError);
+  }
+}
+
+/**
+ * Resumes a suspended run at the given step and mirrors the outcome onto its
+ * queued job, if any (a run suspended again stays "suspended"). A run that
+ * could not publish its draft goes back to the queue for a fresh set of
+ * attempts; the worker resumes it from the snapshot with the usual backoff.
+ */
+export async function resumeFeatureRequestRun(mastra: Mastra, runId: string, step: string, resumeData: unknown) {
+  const workflow = mastra.getWorkflow("featureRequestWorkflow");
+  const run = await workflow.createRunAsync({ runId });
+  const result = await run.resume({ step, resumeData });
+
+  const job = await featureRequestJobs.get(runId);
+  if (job) {
+    await redactPayload(job);
+  }
+  const error = publishError(result);
+  if (job && result.status === "success") {
+    await featureRequestJobs.complete(runId, result.result);
+  } else if (error) {
+    if (job) {
+      await featureRequestJobs.retry(runId, error);
+    }
+    console.error(`Run ${runId} could not publish its draft, will retry:`, error);
+  } else if (result.status === "failed") {
+    const message = String(result.error).split("\n")[0];
+    if (job) {
+      await featureRequestJobs.fail({ ...job, attempts: job.maxAttempts }, message);
+    }
+    await recordFailure(runId, message);
+  }
+
+  return result;
+}
+
+async function processJob(mastra: Mastra, job: Job<FeatureRequestInput, FeatureRequestJobResult>): Promise<void> {
+  const workflow = mastra.getWorkflow("featureRequestWorkflow");
+
+  try {
+    const run = await workflow.createRunAsync({ runId: job.id });
+    // A run whose draft could not be filed is resumed where it stopped, not restarted
+    const result = (await isAwaitingPublish(mastra, job.id))
+      ? await run.resume({ step: PUBLISH_STEP_ID, resumeData: {} })
+      : await run.start({ inputData: job.payload });
+
+    const error = publishError(result);
+    if (result.status === "success") {
+      await featureRequestJobs.complete(job.id, result.result);
+      await redactPayload(job);
+      console.log(`✅ Job ${job.id} processed`);
+    } else if (error) {
+      throw new Error(error);
+    } else if (result.status === "suspended") {
+      await featureRequestJobs.complete(job.id, { suspended: result.suspended }, "suspended");
+      await redactPayload(job);
+      console.log(`⏸️ Job ${job.id} suspended`);
+    } else {
+      const message = result.status === "failed" && result.error instanceof Error
+        ? result.error.message
+        : String((result as { error?: unknown }).error ?? `Workflow ${result.status}`);
+      throw new Error(message);
+    }
+  } catch (error) {
+    // Workflow errors can arrive as serialized strings including the stack; keep the first line only
+    const message = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+    const status = await featureRequestJobs.fail(job, message);
+    console.error(`Job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed (${status}):`, message);
+    if (status === "dead_letter") {
+      await redactPayload(job);
+      if (!job.payload.metadata?.regenerationOf) {
+        await recordFailure(job.id, message);
+      }
+    }
+  }
+}
+
+let draining: Promise<number> | undefined;
+
+/**
+ * Processes due jobs one at a time until the queue is empty or maxJobs is reached.
+ * Concurrent calls in the same process share one drain loop.
+ */
+export function drainFeatureRequestJobs(mastra: Mastra, maxJobs = 10): Promise<number> {
+  if (!draining) {
+    draining = (async () => {
+      let processed = 0;
+      while (processed < maxJobs) {
+        const job = await featureRequestJobs.claimNext();
+        if (!job) break;
+        await processJob(mastra, job);
+        processed++;
+      }
+      return processed;
+    })().finally(() => {
+      draining = undefined;
+    });
+  }
+  return draining;
+}
+
+/**
+ * Polls the queue on an interval. Only for long-running servers, not serverless.
+ */
+export function startFeatureRequestWorker(mastra: Mastra, intervalMs = 5_000): () => void {
+  const timer = setInterval(() => {
+    drainFeatureRequestJobs(mastra).catch((error) => {
+      console.error("Feature request worker failed:", error);
+    });
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,206 @@
+import { randomUUID } from "node:crypto";
+import type { Client, Row } from "@libsql/client";
+import { ensureSchema, getDatabase } from "../storage/database";
+
+/**
+ * Durable Job Queue
+ *
+ * Webhook deliveries are persisted here and processed by the worker outside
+ * the HTTP request. Jobs move through:
+ *
+ *   queued -> processing -> succeeded | suspended
+ *                       \-> retrying (exponential backoff) -> processing ...
+ *                       \-> dead_letter (after maxAttempts)
+ *   suspended -> retrying (when a resumed run fails in a retryable way)
+ *
+ * A job stuck in "processing" past its lock (e.g. the instance died) becomes
+ * claimable again.
+ */
+
+export type JobStatus = "queued" | "processing" | "retrying" | "succeeded" | "suspended" | "dead_letter";
+
+export interface Job<TPayload = unknown, TResult = unknown> {
+  id: string;
+  queue: string;
+  status: JobStatus;
+  payload: TPayload;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  result?: TResult;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 15 * 60_000;
+// Longer than the slowest workflow run (Vercel maxDuration is 300s)
+const LOCK_DURATION_MS = 10 * 60_000;
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    queue TEXT NOT NULL,
+    status TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at INTEGER NOT NULL,
+    locked_until INTEGER,
+    last_error TEXT,
+    result TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS jobs_claim_idx ON jobs (queue, status, next_attempt_at)`,
+];
+
+/**
+ * Delay before the next attempt: 5s, 10s, 20s, ... capped at 15 minutes
+ */
+export function backoffDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+}
+
+function toJob<TPayload, TResult>(row: Row): Job<TPayload, TResult> {
+  return {
+    id: String(row.id),
+    queue: String(row.queue),
+    status: row.status as JobStatus,
+    payload: JSON.parse(String(row.payload)),
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    nextAttemptAt: Number(row.next_attempt_at),
+    lastError: row.last_error ? String(row.last_error) : undefined,
+    result: row.result ? JSON.parse(String(row.result)) : undefined,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+export class JobQueue<TPayload = unknown, TResult = unknown> {
+  constructor(
+    readonly queue: string,
+    private readonly getDb: () => Client = getDatabase
+  ) {}
+
+  private async db(): Promise<Client> {
+    const db = this.getDb();
+    await ensureSchema(db, "jobs", SCHEMA);
+    return db;
+  }
+
+  async enqueue(
+    payload: TPayload,
+    options: { id?: string; maxAttempts?: number } = {}
+  ): Promise<Job<TPayload, TResult>> {
+    const db = await this.db();
+    const now = new Date().toISOString();
+    const result = await db.execute({
+      sql: `INSERT INTO jobs (id, queue, status, payload, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+            VALUES (?, ?, 'queued', ?, 0, ?, ?, ?, ?)
+            RETURNING *`,
+      args: [
+        options.id ?? randomUUID(),
+        this.queue,
+        JSON.stringify(payload),
+        options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        Date.now(),
+        now,
+        now,
+      ],
+    });
+    return toJob(result.rows[0]);
+  }
+
+  async get(id: string): Promise<Job<TPayload, TResult> | null> {
+    const db = await this.db();
+    const result = await db.execute({
+      sql: "SELECT * FROM jobs WHERE id = ? AND queue = ?",
+      args: [id, this.queue],
+    });
+    return result.rows[0] ? toJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Atomically claims the next due job, or returns null when nothing is due
+   */
+  async claimNext(): Promise<Job<TPayload, TResult> | null> {
+    const db = await this.db();
+    const now = Date.now();
+    const result = await db.execute({
+      sql: `UPDATE jobs
+            SET status = 'processing', attempts = attempts + 1, locked_until = ?, updated_at = ?
+            WHERE id = (
+              SELECT id FROM jobs
+              WHERE queue = ?
+                AND (
+                  (status IN ('queued', 'retrying') AND next_attempt_at <= ?)
+                  OR (status = 'processing' AND locked_until < ?)
+                )
+              ORDER BY next_attempt_at
+              LIMIT 1
+            )
+            RETURNING *`,
+      args: [now + LOCK_DURATION_MS, new Date(now).toISOString(), this.queue, now, now],
+    });
+    return result.rows[0] ? toJob(result.rows[0]) : null;
+  }
+
+  async complete(id: string, result: TResult, status: "succeeded" | "suspended" = "succeeded"): Promise<void> {
+    const db = await this.db();
+    await db.execute({
+      sql: `UPDATE jobs SET status = ?, result = ?, last_error = NULL, locked_until = NULL, updated_at = ?
+            WHERE id = ?`,
+      args: [status, JSON.stringify(result ?? null), new Date().toISOString(), id],
+    });
+  }
+
+  /**
+   * Records a failed attempt. Schedules a retry with backoff, or moves the job
+   * to the dead-letter state once its attempts are used up.
+   */
+  async fail(job: Job<TPayload, TResult>, error: string): Promise<JobStatus> {
+    const db = await this.db();
+    const exhausted = job.attempts >= job.maxAttempts;
+    const status: JobStatus = exhausted ? "dead_letter" : "retrying";
+    await db.execute({
+      sql: `UPDATE jobs SET status = ?, last_error = ?, next_attempt_at = ?, locked_until = NULL, updated_at = ?
+            WHERE id = ?`,
+      args: [
+        status,
+        error,
+        exhausted ? job.nextAttemptAt : Date.now() + backoffDelayMs(job.attempts),
+        new Date().toISOString(),
+        job.id,
+      ],
+    });
+    return status;
+  }
+
+  /**
+   * Replaces a job's payload, e.g. with a redacted copy once it will not run again
+   */
+  async updatePayload(id: string, payload: TPayload): Promise<void> {
+    const db = await this.db();
+    await db.execute({
+      sql: "UPDATE jobs SET payload = ?, updated_at = ? WHERE id = ? AND queue = ?",
+      args: [JSON.stringify(payload), new Date().toISOString(), id, this.queue],
+    });
+  }
+
+  /**
+   * Schedules a finished job for a fresh set of attempts, e.g. a suspended run
+   * that was resumed outside the worker and failed in a retryable way
+   */
+  async retry(id: string, error: string): Promise<void> {
+    const db = await this.db();
+    await db.execute({
+      sql: `UPDATE jobs SET status = 'retrying', attempts = 0, last_error = ?, next_attempt_at = ?, locked_until = NULL, updated_at = ?
+            WHERE id = ? AND queue = ?`,
+      args: [error, Date.now() + backoffDelayMs(1), new Date().toISOString(), id, this.queue],
+    });
+  }
+}
@@ -0,0 +1,207 @@
+import { registerApiRoute } from "@mastra/core/server";
+import type { Mastra } from "@mastra/core/mastra";
+import type { WorkflowRunState } from "@mastra/core/workflows";
+import { z } from "zod";
+import { CLARIFICATION_STEP_ID } from "../clarification/clarifying-questions";
+import type { SubmissionClarification } from "../domain/feature-request";
+import { resumeFeatureRequestRun } from "../queue/feature-request-worker";
+import { isAdminAuthorization } from "../security/admin-auth";
+import { cronAuthorizationError } from "../security/cron-auth";
+import { getIntakeSecrets, verifyBearerToken } from "../security/intake-auth";
+import { MAX_PAGE_SIZE, processedSubmissions } from "../storage/processed-submissions";
+import { clarificationRequestSchema } from "../workflows/feature-request-workflow";
+import { parseSnapshot, readJsonBody } from "./reviews";
+
+/**
+ * Clarification Routes
+ *
+ * featureRequestWorkflow suspends vague feature requests at the
+ * "request-clarification" step after emailing the submitter two or three
+ * questions. The submitter's reply resumes the run (typically forwarded by an
+ * inbound mail hook, which finds the run id in the subject's [ref:...] tag);
+ * runs nobody answers are resumed as timed out and the story is written with
+ * stated assumptions.
+ */
+
+const DEFAULT_MAX_EXPIRED_RUNS = 10;
+
+const clarificationReplySchema = z.object({
+  answers: z.array(z.string()).optional().describe("Answers in question order"),
+  reply: z.string().optional().describe("Free-text reply, e.g. the email body"),
+}).refine(
+  (body) => body.answers?.some((answer) => answer.trim()) || body.reply?.trim(),
+  "Provide answers or a reply"
+);
+
+type ClarificationRequest = z.infer<typeof clarificationRequestSchema>;
+
+/**
+ * The questions a run is waiting on, or null when it is not awaiting clarification
+ */
+function pendingClarification(snapshot: WorkflowRunState): ClarificationRequest | null {
+  if (snapshot.status !== "suspended" || !(CLARIFICATION_STEP_ID in (snapshot.suspendedPaths || {}))) {
+    return null;
+  }
+  const step = snapshot.context[CLARIFICATION_STEP_ID] as { suspendPayload?: unknown } | undefined;
+  const parsed = clarificationRequestSchema.safeParse(step?.suspendPayload);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Resumes a run waiting at the clarification step
+ */
+function resumeClarification(mastra: Mastra, runId: string, clarification: SubmissionClarification) {
+  return resumeFeatureRequestRun(mastra, runId, CLARIFICATION_STEP_ID, clarification);
+}
+
+function workflowError(result: { status: string; error?: unknown }): string {
+  return (result.error instanceof Error ? result.error.message : String(result.error ?? `Workflow ${result.status}`)).split("\n")[0];
+}
+
+/**
+ * Resumes a run with the submitter's answers. Requires
+ * "Authorization: Bearer $CLARIFICATION_REPLY_TOKEN" (comma-separated for
+ * rotation) or the admin token.
+ *
+ * Endpoint: POST /clarifications/:runId
+ * Body: { "answers": ["Recurring appointments", "Every 4 weeks"] } or { "reply": "<email body>" }
+ */
+export const answerClarificationRoute = registerApiRoute("/clarifications/:runId", {
+  method: "POST",
+  handler: async (c) => {
+    const authorization = c.req.header("authorization");
+    if (!verifyBearerToken(authorization, getIntakeSecrets("CLARIFICATION_REPLY_TOKEN")) && !isAdminAuthorization(authorization)) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    const parsed = clarificationReplySchema.safeParse(await readJsonBody(c.req));
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Invalid clarification reply", details: z.treeifyError(parsed.error) },
+        400
+      );
+    }
+
+    const mastra = c.get("mastra");
+    const runId = c.req.param("runId");
+    try {
+      const existing = await mastra.getWorkflow("featureRequestWorkflow").getWorkflowRunById(runId);
+      const pending = existing ? pendingClarification(parseSnapshot(existing.snapshot)) : null;
+      if (!pending) {
+        return c.json(
+          { success: false, error: "No clarification pending for this run" },
+          404
+        );
+      }
+
+      const result = await resumeClarification(mastra, runId, {
+        status: "answered",
+        clarityScore: pending.clarityScore,
+        questions: pending.questions,
+        answers: parsed.data.answers ?? [],
+        reply: parsed.data.reply,
+      });
+
+      if (result.status === "failed") {
+        console.error("Resumed workflow failed:", result.error);
+        return c.json(
+          { success: false, error: "Workflow execution failed", details: workflowError(result) },
+          500
+        );
+      }
+
+      return c.json({
+        success: true,
+        runId,
+        status: result.status,
+        data: result.status === "success" ? result.result : undefined,
+      });
+    } catch (error) {
+      console.error("Error resuming clarification:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
+
+/**
+ * Resumes runs whose clarifying questions went unanswered past their deadline
+ * (CLARIFICATION_TIMEOUT_HOURS), so their stories are written with
+ * assumptions. Meant for a scheduler such as Vercel Cron (e.g. hourly), which
+ * sends "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set;
+ * production rejects every request while it is unset.
+ *
+ * Endpoint: GET /clarifications/expire
+ * Query: max (runs to resume per call, default 10)
+ */
+export const expireClarificationsRoute = registerApiRoute("/clarifications/expire", {
+  method: "GET",
+  handler: async (c) => {
+    const authorizationError = cronAuthorizationError(c.req.header("authorization"), "clarification expiry");
+    if (authorizationError) {
+      return c.json(authorizationError.body, authorizationError.status);
+    }
+
+    const max = Number(c.req.query("max")) || DEFAULT_MAX_EXPIRED_RUNS;
+    const mastra = c.get("mastra");
+    const workflow = mastra.getWorkflow("featureRequestWorkflow");
+    const now = Date.now();
+
+    try {
+      // The submission history tracks which runs are waiting for answers, so only those snapshots are loaded
+      const expired: Array<{ runId: string; pending: ClarificationRequest }> = [];
+      for (let offset = 0; expired.length < max; offset += MAX_PAGE_SIZE) {
+        const { submissions } = await processedSubmissions.list({
+          status: "awaiting_clarification",
+          limit: MAX_PAGE_SIZE,
+          offset,
+        });
+        for (const submission of submissions) {
+          if (expired.length >= max) break;
+          const run = await workflow.getWorkflowRunById(submission.id);
+          const pending = run ? pendingClarification(parseSnapshot(run.snapshot)) : null;
+          if (pending && Date.parse(pending.expiresAt) <= now) {
+            expired.push({ runId: submission.id, pending });
+          }
+        }
+        if (submissions.length < MAX_PAGE_SIZE) break;
+      }
+
+      const results = [];
+      for (const { runId, pending } of expired) {
+        const result = await resumeClarification(mastra, runId, {
+          status: "timed_out",
+          clarityScore: pending.clarityScore,
+          questions: pending.questions,
+          answers: [],
+        });
+        results.push({
+          runId,
+          status: result.status,
+          error: result.status === "failed" ? workflowError(result) : undefined,
+        });
+      }
+
+      return c.json({ success: true, expired: results.length, runs: results });
+    } catch (error) {
+      console.error("Error expiring clarifications:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
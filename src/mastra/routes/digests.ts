@@ -0,0 +1,80 @@
+import { registerApiRoute } from "@mastra/core/server";
+import { z } from "zod";
+import { DIGEST_PERIODS } from "../domain/insights-digest";
+import { cronAuthorizationError } from "../security/cron-auth";
+
+/**
+ * Insights Digest Route
+ *
+ * Runs insightsDigestWorkflow for the last full week or month and returns the
+ * rendered digest. Meant to be hit by a scheduler such as Vercel Cron (e.g.
+ * "0 8 * * 1" for weekly, "0 8 1 * *" for monthly), which sends GET requests
+ * with "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set; production
+ * rejects every request while it is unset.
+ *
+ * Endpoint: GET /digests/run
+ * Query: period (weekly | monthly, default weekly), before (ISO date; digest the last full period before it)
+ * Example: GET /digests/run?period=monthly
+ */
+
+const digestQuerySchema = z.object({
+  period: z.enum(DIGEST_PERIODS).optional(),
+  before: z.string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO 8601 date or timestamp")
+    .optional(),
+});
+
+export const runInsightsDigestRoute = registerApiRoute("/digests/run", {
+  method: "GET",
+  handler: async (c) => {
+    const authorizationError = cronAuthorizationError(c.req.header("authorization"), "digest");
+    if (authorizationError) {
+      return c.json(authorizationError.body, authorizationError.status);
+    }
+
+    const parsed = digestQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Invalid digest options", details: z.treeifyError(parsed.error) },
+        400
+      );
+    }
+
+    try {
+      const workflow = c.get("mastra").getWorkflow("insightsDigestWorkflow");
+      const run = await workflow.createRunAsync();
+      const result = await run.start({ inputData: { period: parsed.data.period ?? "weekly", before: parsed.data.before } });
+
+      if (result.status !== "success") {
+        const message = result.status === "failed" && result.error instanceof Error
+          ? result.error.message
+          : String((result as { error?: unknown }).error ?? `Workflow ${result.status}`);
+        return c.json(
+          { success: false, error: "Digest failed", details: message.split("\n")[0] },
+          500
+        );
+      }
+
+      const { digest, markdown, delivered, notifier } = result.result;
+      return c.json({
+        success: true,
+        window: digest.window,
+        submissionCount: digest.submissionCount,
+        themeCount: digest.themeCount,
+        delivered,
+        notifier,
+        markdown,
+      });
+    } catch (error) {
+      console.error("Error running insights digest:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
@@ -0,0 +1,458 @@
+import { randomUUID } from "node:crypto";
+import { registerApiRoute } from "@mastra/core/server";
+import { z } from "zod";
+import {
+  REQUEST_TYPES,
+  STORY_PRIORITIES,
+  featureRequestInputSchema,
+  productAreaSchema,
+  type FeatureRequestInput,
+} from "../domain/feature-request";
+import { getIssueTracker } from "../integrations/issue-tracker";
+import { drainFeatureRequestJobs, featureRequestJobs } from "../queue/feature-request-worker";
+import { isAdminAuthorization } from "../security/admin-auth";
+import { ADMIN_REVIEWER, reviewerForAuthorization } from "../security/reviewer-auth";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  SUBMISSION_STATUSES,
+  processedSubmissions,
+  type ProcessedSubmission,
+} from "../storage/processed-submissions";
+import { storyVersions } from "../storage/story-versions";
+import { readJsonBody } from "./reviews";
+
+/**
+ * Feature Request History Routes
+ *
+ * Read access to every processed submission: the sanitized text the agents
+ * saw, the generated story, its status and tracker key. The stored input
+ * (redacted, but with hidden fields such as account ids) is left out of
+ * responses. Rows are written by featureRequestWorkflow as runs progress; the
+ * id is the run id. Reading requires a reviewer or admin bearer token (see
+ * security/reviewer-auth.ts).
+ *
+ * Past submissions can be regenerated (e.g. after a prompt or model change).
+ * Each regeneration runs featureRequestWorkflow again on the redacted input and
+ * is saved as a new story version; nothing reaches the tracker until a
+ * reviewer makes a version canonical.
+ */
+
+// Upper bound for one bulk regeneration request; each one is a full set of LLM calls
+const MAX_BULK_REGENERATIONS = 200;
+
+/**
+ * A submission as returned by the history routes, without its stored input
+ */
+function toFeatureRequest(submission: ProcessedSubmission): Omit<ProcessedSubmission, "input"> {
+  const { input, ...featureRequest } = submission;
+  return featureRequest;
+}
+
+const dateFilterSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO 8601 date or timestamp");
+
+const listFiltersSchema = z.object({
+  status: z.enum(SUBMISSION_STATUSES).optional(),
+  category: productAreaSchema.optional(),
+  priority: z.enum(STORY_PRIORITIES).optional(),
+  requestType: z.enum(REQUEST_TYPES).optional(),
+  from: dateFilterSchema.optional(),
+  to: dateFilterSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * Lists processed submissions, newest first
+ *
+ * Endpoint: GET /feature-requests
+ * Query: status, category, priority, requestType, from, to (ISO dates, inclusive), limit (max 100), offset
+ * Example: GET /feature-requests?category=Payments&priority=1&from=2026-10-01&limit=20
+ */
+export const listFeatureRequestsRoute = registerApiRoute("/feature-requests", {
+  method: "GET",
+  handler: async (c) => {
+    if (!reviewerForAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    const parsed = listFiltersSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Invalid filters", details: z.treeifyError(parsed.error) },
+        400
+      );
+    }
+
+    try {
+      const { submissions, total } = await processedSubmissions.list(parsed.data);
+      const offset = parsed.data.offset ?? 0;
+      return c.json({
+        success: true,
+        featureRequests: submissions.map(toFeatureRequest),
+        total,
+        limit: parsed.data.limit ?? DEFAULT_PAGE_SIZE,
+        offset,
+        hasMore: offset + submissions.length < total,
+      });
+    } catch (error) {
+      console.error("Error listing feature requests:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
+
+/**
+ * Returns one processed submission by run id
+ *
+ * Endpoint: GET /feature-requests/:id
+ */
+export const getFeatureRequestRoute = registerApiRoute("/feature-requests/:id", {
+  method: "GET",
+  handler: async (c) => {
+    if (!reviewerForAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    try {
+      const featureRequest = await processedSubmissions.get(c.req.param("id"));
+      if (!featureRequest) {
+        return c.json(
+          { success: false, error: "Feature request not found" },
+          404
+        );
+      }
+      return c.json({ success: true, featureRequest: toFeatureRequest(featureRequest) });
+    } catch (error) {
+      console.error("Error loading feature request:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
+
+/**
+ * The input a regeneration run starts from: the stored submission with the
+ * redacted text the agents saw and without the contact email
+ */
+function regenerationInput(input: FeatureRequestInput, sanitizedText: string): FeatureRequestInput {
+  if (input.kind === "raw_text") {
+    return { ...input, text: sanitizedText };
+  }
+  const { contactEmail, ...fields } = input;
+  return { ...fields, featureDescription: sanitizedText };
+}
+
+type RegenerationQueued = { queued: true; id: string; runId: string };
+type RegenerationSkipped = { queued: false; id: string; reason: string };
+
+/**
+ * Queues a regeneration run for one submission, or explains why it cannot be regenerated
+ */
+async function queueRegeneration(submission: ProcessedSubmission): Promise<RegenerationQueued | RegenerationSkipped> {
+  if (submission.status === "duplicate") {
+    return { queued: false, id: submission.id, reason: "Duplicates were folded into an existing theme and have no story" };
+  }
+  if (submission.status === "processing" || submission.status === "awaiting_clarification") {
+    return { queued: false, id: submission.id, reason: "The original run has not finished yet" };
+  }
+
+  const input = featureRequestInputSchema.safeParse(submission.input);
+  if (!input.success || submission.sanitizedText === undefined) {
+    return { queued: false, id: submission.id, reason: "The stored input is missing or no longer valid" };
+  }
+
+  const job = await featureRequestJobs.enqueue(
+    { ...regenerationInput(input.data, submission.sanitizedText), metadata: { ...input.data.metadata, regenerationOf: submission.id } },
+    { id: randomUUID() }
+  );
+  return { queued: true, id: submission.id, runId: job.id };
+}
+
+/**
+ * Regenerates the story of one past submission
+ *
+ * The run is queued like a webhook delivery; poll statusUrl for the new version.
+ * Requires admin authorization, since every regeneration calls the LLMs again.
+ *
+ * Endpoint: POST /feature-requests/:id/regenerate
+ */
+export const regenerateFeatureRequestRoute = registerApiRoute("/feature-requests/:id/regenerate", {
+  method: "POST",
+  handler: async (c) => {
+    if (!isAdminAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Regenerating stories requires admin authorization" },
+        403
+      );
+    }
+
+    try {
+      const submission = await processedSubmissions.get(c.req.param("id"));
+      if (!submission) {
+        return c.json(
+          { success: false, error: "Feature request not found" },
+          404
+        );
+      }
+
+      const result = await queueRegeneration(submission);
+      if (!result.queued) {
+        return c.json(
+          { success: false, error: result.reason },
+          409
+        );
+      }
+
+      drainFeatureRequestJobs(c.get("mastra")).catch((error) => {
+        console.error("Failed to drain feature request jobs:", error);
+      });
+
+      return c.json(
+        {
+          success: true,
+          message: "Regeneration queued",
+          runId: result.runId,
+          statusUrl: `/typeform-webhook/runs/${result.runId}`,
+          versionsUrl: `/feature-requests/${submission.id}/versions`,
+        },
+        202
+      );
+    } catch (error) {
+      console.error("Error queueing regeneration:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
+
+const bulkRegenerationSchema = listFiltersSchema.omit({ limit: true, offset: true }).extend({
+  max: z.coerce.number().int().min(1).max(MAX_BULK_REGENERATIONS).optional(),
+});
+
+/**
+ * Regenerates the stories of every submission matching a filter, newest first
+ *
+ * Endpoint: POST /feature-requests/regenerate
+ * Body: the list filters (status, category, priority, requestType, from, to) and
+ *       max, the number of submissions to queue (default and limit 200)
+ * Example: { "category": "Payments", "from": "2026-10-01", "max": 50 }
+ */
+export const bulkRegenerateFeatureRequestsRoute = registerApiRoute("/feature-requests/regenerate", {
+  method: "POST",
+  handler: async (c) => {
+    if (!isAdminAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Regenerating stories requires admin authorization" },
+        403
+      );
+    }
+
+    const parsed = bulkRegenerationSchema.safeParse(await readJsonBody(c.req));
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Invalid filters", details: z.treeifyError(parsed.error) },
+        400
+      );
+    }
+
+    try {
+      const { max = MAX_BULK_REGENERATIONS, ...filters } = parsed.data;
+      const queued: RegenerationQueued[] = [];
+      const skipped: RegenerationSkipped[] = [];
+      let total = 0;
+      for (let offset = 0; queued.length < max; offset += MAX_PAGE_SIZE) {
+        const page = await processedSubmissions.list({ ...filters, limit: MAX_PAGE_SIZE, offset });
+        total = page.total;
+        for (const submission of page.submissions) {
+          if (queued.length >= max) break;
+          const result = await queueRegeneration(submission);
+          if (result.queued) {
+            queued.push(result);
+          } else {
+            skipped.push(result);
+          }
+        }
+        if (page.submissions.length < MAX_PAGE_SIZE) break;
+      }
+
+      if (queued.length > 0) {
+        drainFeatureRequestJobs(c.get("mastra")).catch((error) => {
+          console.error("Failed to drain feature request jobs:", error);
+        });
+      }
+
+      console.log(`🔄 Queued ${queued.length} regeneration(s), skipped ${skipped.length}`);
+
+      return c.json(
+        {
+          success: true,
+          matched: total,
+          queued,
+          skipped,
+          // More submissions matched than were queued; run again with a narrower filter
+          truncated: queued.length + skipped.length < total,
+        },
+        202
+      );
+    } catch (error) {
+      console.error("Error queueing bulk regeneration:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
+
+/**
+ * Lists every story version of a submission, oldest first, with field-level diffs
+ *
+ * Endpoint: GET /feature-requests/:id/versions
+ */
+export const listStoryVersionsRoute = registerApiRoute("/feature-requests/:id/versions", {
+  method: "GET",
+  handler: async (c) => {
+    if (!reviewerForAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    const id = c.req.param("id");
+    const submission = await processedSubmissions.get(id);
+    if (!submission) {
+      return c.json(
+        { success: false, error: "Feature request not found" },
+        404
+      );
+    }
+
+    const versions = await storyVersions.list(id);
+    return c.json({
+      success: true,
+      id,
+      canonicalVersion: versions.find((version) => version.canonical)?.version,
+      versions,
+    });
+  },
+});
+
+/**
+ * Makes a story version canonical and pushes it to the tracker as an update
+ *
+ * The tracker is updated first; if that fails, the canonical version stays as it was.
+ * Requires admin authorization, since it overwrites the issue in the tracker.
+ * The choice is recorded under the name the token belongs to.
+ *
+ * Endpoint: POST /feature-requests/:id/versions/:version/canonical
+ */
+export const chooseCanonicalVersionRoute = registerApiRoute("/feature-requests/:id/versions/:version/canonical", {
+  method: "POST",
+  handler: async (c) => {
+    const authorization = c.req.header("authorization");
+    if (!isAdminAuthorization(authorization)) {
+      return c.json(
+        { success: false, error: "Choosing the canonical version requires admin authorization" },
+        403
+      );
+    }
+    const reviewer = reviewerForAuthorization(authorization) ?? ADMIN_REVIEWER;
+
+    const id = c.req.param("id");
+    const versionNumber = Number(c.req.param("version"));
+    try {
+      const submission = await processedSubmissions.get(id);
+      const version = Number.isInteger(versionNumber) ? await storyVersions.get(id, versionNumber) : null;
+      if (!submission || !version) {
+        return c.json(
+          { success: false, error: "Story version not found" },
+          404
+        );
+      }
+      if (["processing", "awaiting_clarification", "awaiting_review"].includes(submission.status)) {
+        return c.json(
+          { success: false, error: "The original run has not finished; review its pending draft first" },
+          409
+        );
+      }
+
+      const tracker = getIssueTracker();
+      let trackerUpdated = false;
+      if (tracker && submission.trackerKey) {
+        try {
+          await tracker.updateIssue(submission.trackerKey, version.story);
+          trackerUpdated = true;
+          console.log(`✏️ Updated ${submission.trackerKey} to version ${version.version}`);
+        } catch (error) {
+          console.error(`Failed to update ${submission.trackerKey}:`, error);
+          return c.json(
+            {
+              success: false,
+              error: "Tracker update failed; the canonical version was not changed",
+              details: error instanceof Error ? error.message : "Unknown error",
+            },
+            502
+          );
+        }
+      }
+
+      const canonical = await storyVersions.setCanonical(id, version.version, reviewer);
+      await processedSubmissions.record(id, {
+        story: version.story,
+        summary: version.story.summary,
+        priority: version.story.priority,
+      });
+
+      return c.json({
+        success: true,
+        id,
+        version: canonical,
+        trackerKey: submission.trackerKey,
+        trackerUpdated,
+      });
+    } catch (error) {
+      console.error("Error choosing canonical version:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
@@ -0,0 +1,216 @@
+import { registerApiRoute } from "@mastra/core/server";
+import { z } from "zod";
+import {
+  MAX_IMPORT_CONCURRENCY,
+  createTypeformImport,
+  isImportRunning,
+  runImport,
+  type ImportRunOptions,
+} from "../imports/import-runner";
+import { isAdminAuthorization } from "../security/admin-auth";
+import { importStore } from "../storage/imports";
+
+/**
+ * Import Routes
+ *
+ * Batch import of historical Typeform responses (see imports/import-runner.ts).
+ * An import runs in the background of the server process; poll its summary
+ * for progress. If the process stops mid-import (a deploy, or a serverless
+ * timeout), resume it; finished rows are not processed again. Very large
+ * exports are better run with the CLI (npm run import:typeform).
+ *
+ * All routes require admin authorization, since every row calls the LLMs.
+ */
+
+const runOptionsSchema = z.object({
+  concurrency: z.coerce.number().int().min(1).max(MAX_IMPORT_CONCURRENCY).optional(),
+  ratePerMinute: z.coerce.number().positive().optional(),
+});
+
+const createImportQuerySchema = runOptionsSchema.extend({
+  format: z.enum(["csv", "json"]).optional(),
+  formId: z.string().min(1).optional(),
+  source: z.string().min(1).optional(),
+});
+
+/**
+ * Starts the import in the background; failures are recorded per row
+ */
+function startImport(mastra: Parameters<typeof runImport>[0], importId: string, options: ImportRunOptions): void {
+  runImport(mastra, importId, options).catch((error) => {
+    console.error(`Import ${importId} stopped:`, error);
+  });
+}
+
+/**
+ * Creates an import from a Typeform export and starts processing it
+ *
+ * The request body is the export itself: a CSV download or a responses API
+ * JSON dump. The format is detected from the content unless given.
+ *
+ * Endpoint: POST /imports
+ * Query: format (csv | json), formId, source (label for the report), concurrency (max 10), ratePerMinute
+ * Example: curl -X POST "$URL/imports?formId=aBcD1234" -H "Authorization: Bearer $ADMIN_API_TOKEN" --data-binary @responses.csv
+ */
+export const createImportRoute = registerApiRoute("/imports", {
+  method: "POST",
+  handler: async (c) => {
+    if (!isAdminAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Importing requires admin authorization" },
+        403
+      );
+    }
+
+    const parsed = createImportQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Invalid import options", details: z.treeifyError(parsed.error) },
+        400
+      );
+    }
+
+    const text = await c.req.text();
+    if (!text.trim()) {
+      return c.json(
+        { success: false, error: "Request body must be a Typeform CSV or JSON export" },
+        400
+      );
+    }
+
+    const { format, formId, source, ...runOptions } = parsed.data;
+    let record;
+    try {
+      record = await createTypeformImport(text, { source: source ?? "upload", format, formId });
+    } catch (error) {
+      // Parse errors: the body is not an export we understand
+      if (error instanceof SyntaxError || (error instanceof Error && error.message.startsWith("Not a Typeform"))) {
+        return c.json(
+          { success: false, error: "Invalid export", details: error.message },
+          400
+        );
+      }
+      console.error("Error creating import:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+
+    startImport(c.get("mastra"), record.id, runOptions);
+
+    return c.json(
+      {
+        success: true,
+        message: "Import started",
+        importId: record.id,
+        totalRows: record.totalRows,
+        statusUrl: `/imports/${record.id}`,
+      },
+      202
+    );
+  },
+});
+
+/**
+ * Returns an import's summary: counts of created, duplicate, awaiting review,
+ * skipped and failed rows, and the reason for every failed or skipped row
+ *
+ * Endpoint: GET /imports/:id
+ */
+export const getImportRoute = registerApiRoute("/imports/:id", {
+  method: "GET",
+  handler: async (c) => {
+    if (!isAdminAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Admin authorization required" },
+        403
+      );
+    }
+
+    try {
+      const summary = await importStore.summary(c.req.param("id"));
+      if (!summary) {
+        return c.json(
+          { success: false, error: "Import not found" },
+          404
+        );
+      }
+      return c.json({ success: true, import: summary, running: isImportRunning(summary.id) });
+    } catch (error) {
+      console.error("Error loading import:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
+
+/**
+ * Resumes an interrupted import; ?retryFailed=true also retries failed rows
+ *
+ * Endpoint: POST /imports/:id/resume
+ * Query: retryFailed, concurrency, ratePerMinute
+ */
+export const resumeImportRoute = registerApiRoute("/imports/:id/resume", {
+  method: "POST",
+  handler: async (c) => {
+    if (!isAdminAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Importing requires admin authorization" },
+        403
+      );
+    }
+
+    const parsed = runOptionsSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json(
+        { success: false, error: "Invalid import options", details: z.treeifyError(parsed.error) },
+        400
+      );
+    }
+
+    try {
+      const importId = c.req.param("id");
+      const record = await importStore.get(importId);
+      if (!record) {
+        return c.json(
+          { success: false, error: "Import not found" },
+          404
+        );
+      }
+      if (isImportRunning(importId)) {
+        return c.json(
+          { success: false, error: "Import is already running" },
+          409
+        );
+      }
+
+      startImport(c.get("mastra"), importId, { ...parsed.data, retryFailed: c.req.query("retryFailed") === "true" });
+
+      return c.json(
+        { success: true, message: "Import resumed", importId, statusUrl: `/imports/${importId}` },
+        202
+      );
+    } catch (error) {
+      console.error("Error resuming import:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
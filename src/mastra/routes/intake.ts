@@ -0,0 +1,193 @@
+import { registerApiRoute } from "@mastra/core/server";
+import type { Mastra } from "@mastra/core/mastra";
+import { randomUUID } from "node:crypto";
+import { emailSource, jsonSource, zendeskSource, type IntakeDelivery, type SubmissionSource } from "../intake";
+import { isAdminAuthorization } from "../security/admin-auth";
+import { idempotencyLedger } from "../storage/idempotency-ledger";
+import { drainFeatureRequestJobs, featureRequestJobs } from "../queue/feature-request-worker";
+
+/**
+ * Intake Routes
+ *
+ * One handler for every SubmissionSource: authenticate the delivery, normalize
+ * it into the canonical workflow input, record it in the idempotency ledger
+ * and queue it for featureRequestWorkflow. Responds 202 with a run ID as soon
+ * as the delivery is persisted; poll GET /typeform-webhook/runs/:id for the
+ * outcome, whatever the source.
+ *
+ * Security:
+ * - Each source checks its own secret (see the source and security/intake-auth.ts).
+ *   Without a secret, verification is skipped outside production and the
+ *   request is rejected in production.
+ *
+ * Idempotency:
+ * - A repeat delivery matching any of the source's idempotency keys returns
+ *   the original run instead of running the workflow again. Admins can force a
+ *   re-run with ?force=true and "Authorization: Bearer $ADMIN_API_TOKEN".
+ */
+
+type IntakeRequest = {
+  text(): Promise<string>;
+  header(name: string): string | undefined;
+  query(name: string): string | undefined;
+};
+
+type IntakeResponse = {
+  status: 200 | 202 | 400 | 401 | 403 | 500;
+  body: Record<string, unknown>;
+};
+
+export async function handleIntake(
+  mastra: Mastra,
+  source: SubmissionSource,
+  req: IntakeRequest
+): Promise<IntakeResponse> {
+  let claimedKeys: string[] | undefined;
+  const runId = randomUUID();
+  try {
+    // Signatures are computed over the exact bytes that were sent, so read the raw body first
+    const delivery: IntakeDelivery = { rawBody: await req.text(), header: (name) => req.header(name) };
+
+    const authentication = source.authenticate(delivery);
+    if (authentication === "invalid") {
+      return { status: 401, body: { success: false, error: "Invalid signature" } };
+    }
+    if (authentication === "not_configured") {
+      if (process.env.NODE_ENV === "production") {
+        console.error(`${source.name} secret is not configured; rejecting delivery`);
+        return { status: 500, body: { success: false, error: "Webhook secret not configured" } };
+      }
+      console.warn(`⚠️ ${source.name} secret not set - skipping verification`);
+    }
+
+    const result = source.normalize(delivery);
+    if (result.outcome === "ignored") {
+      console.log(`Ignoring ${source.name} delivery: ${result.message}`);
+      return { status: 200, body: { success: true, message: result.message } };
+    }
+    if (result.outcome === "rejected") {
+      return { status: 400, body: { success: false, error: result.error, details: result.details } };
+    }
+
+    // Look up (or record) this delivery in the idempotency ledger
+    const { input, idempotencyKeys } = result;
+    if (idempotencyKeys.length > 0) {
+      const forceRerun = req.query("force") === "true";
+      if (forceRerun) {
+        if (!isAdminAuthorization(req.header("authorization"))) {
+          return { status: 403, body: { success: false, error: "Forcing a re-run requires admin authorization" } };
+        }
+        console.log("Admin override: forcing a re-run of", idempotencyKeys[0]);
+        await idempotencyLedger.overwrite(idempotencyKeys, runId);
+      } else {
+        const claim = await idempotencyLedger.claim(idempotencyKeys, runId);
+        if (!claim.claimed) {
+          const original = await featureRequestJobs.get(claim.runId);
+          console.log(`Repeat delivery (${claim.key}); returning run ${claim.runId}`);
+          return {
+            status: 200,
+            body: {
+              success: true,
+              message: "Duplicate delivery; returning the original run",
+              duplicate: true,
+              runId: claim.runId,
+              status: original?.status,
+              statusUrl: `/typeform-webhook/runs/${claim.runId}`,
+              data: original?.result,
+            },
+          };
+        }
+      }
+      claimedKeys = idempotencyKeys;
+    }
+
+    console.log(`\n📋 Parsed ${source.name} submission:`);
+    if (input.kind === "structured") {
+      console.log("Description:", input.featureDescription.substring(0, 100) + "...");
+      console.log("Frequency:", input.usageFrequency);
+      console.log("Services:", input.serviceTypes);
+    } else {
+      console.log("Raw text:", input.text.length, "characters");
+    }
+
+    // Persist the delivery and acknowledge right away; the worker runs the workflow.
+    // Senders retry slow responses, and the LLM steps can take tens of seconds.
+    const job = await featureRequestJobs.enqueue(input, { id: runId });
+
+    console.log(`\n📬 Feature request queued as run ${job.id}`);
+
+    // Start processing without holding the response open
+    drainFeatureRequestJobs(mastra).catch((error) => {
+      console.error("Failed to drain feature request jobs:", error);
+    });
+
+    return {
+      status: 202,
+      body: {
+        success: true,
+        message: "Feature request queued",
+        runId: job.id,
+        status: job.status,
+        statusUrl: `/typeform-webhook/runs/${job.id}`,
+      },
+    };
+  } catch (error) {
+    console.error(`Error processing ${source.name} delivery:`, error);
+    // Nothing was queued, so let a redelivery try again
+    if (claimedKeys) {
+      await idempotencyLedger.release(claimedKeys, runId).catch((releaseError) => {
+        console.error("Failed to release idempotency keys:", releaseError);
+      });
+    }
+    return {
+      status: 500,
+      body: {
+        success: false,
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
+
+/**
+ * Raw email intake (.eml / RFC 822 message as the request body)
+ *
+ * Point an inbound-mail webhook (or a script reading .eml files) at this route
+ * with "Authorization: Bearer $EMAIL_INTAKE_TOKEN".
+ *
+ * Endpoint: POST /intake/email
+ */
+export const emailIntakeRoute = registerApiRoute("/intake/email", {
+  method: "POST",
+  handler: async (c) => {
+    const { status, body } = await handleIntake(c.get("mastra"), emailSource, c.req);
+    return c.json(body, status);
+  },
+});
+
+/**
+ * Zendesk ticket webhook; see intake/zendesk-source.ts for the trigger's JSON body
+ *
+ * Endpoint: POST /intake/zendesk
+ */
+export const zendeskIntakeRoute = registerApiRoute("/intake/zendesk", {
+  method: "POST",
+  handler: async (c) => {
+    const { status, body } = await handleIntake(c.get("mastra"), zendeskSource, c.req);
+    return c.json(body, status);
+  },
+});
+
+/**
+ * Generic JSON intake, used by the in-app feedback form; see intake/json-source.ts
+ *
+ * Endpoint: POST /intake/json
+ */
+export const jsonIntakeRoute = registerApiRoute("/intake/json", {
+  method: "POST",
+  handler: async (c) => {
+    const { status, body } = await handleIntake(c.get("mastra"), jsonSource, c.req);
+    return c.json(body, status);
+  },
+});
@@ -0,0 +1,300 @@
+import { registerApiRoute } from "@mastra/core/server";
+import type { Mastra } from "@mastra/core/mastra";
+import type { WorkflowRunState } from "@mastra/core/workflows";
+import { z } from "zod";
+import {
+  PUBLISH_STEP_ID,
+  isAwaitingPublish,
+  publishError,
+  resumeFeatureRequestRun,
+} from "../queue/feature-request-worker";
+import type { ProductAreaClassification } from "../domain/feature-request";
+import type { RoutingDecision } from "../routing/product-area-routing";
+import { isAdminAuthorization } from "../security/admin-auth";
+import { reviewerForAuthorization } from "../security/reviewer-auth";
+import { MAX_PAGE_SIZE, processedSubmissions } from "../storage/processed-submissions";
+import { reviewDecisionSchema } from "../workflows/feature-request-workflow";
+
+/**
+ * Review Routes
+ *
+ * Human-in-the-loop approval for generated stories. featureRequestWorkflow
+ * suspends at the "review-story" step with the draft; these routes list the
+ * pending drafts and resume the run with the reviewer's decision. Only
+ * approved runs continue on to create the tracker issue; if that fails, the
+ * worker retries it and admins can publish the draft once retries run out.
+ *
+ * Every route requires a reviewer or admin bearer token (see
+ * security/reviewer-auth.ts); decisions are recorded under the token's reviewer.
+ */
+
+const REVIEW_STEP_ID = "review-story";
+
+export function parseSnapshot(snapshot: WorkflowRunState | string): WorkflowRunState {
+  return typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+}
+
+function isAwaitingReview(snapshot: WorkflowRunState): boolean {
+  return snapshot.status === "suspended" && REVIEW_STEP_ID in (snapshot.suspendedPaths || {});
+}
+
+/**
+ * Resumes a run awaiting review
+ */
+async function resumeReview(
+  mastra: Mastra,
+  runId: string,
+  resumeData: z.infer<typeof reviewDecisionSchema>
+) {
+  const workflow = mastra.getWorkflow("featureRequestWorkflow");
+  const existing = await workflow.getWorkflowRunById(runId);
+  if (!existing || !isAwaitingReview(parseSnapshot(existing.snapshot))) {
+    return null;
+  }
+
+  return resumeFeatureRequestRun(mastra, runId, REVIEW_STEP_ID, resumeData);
+}
+
+type DecisionResponse = {
+  status: 200 | 400 | 404 | 500;
+  body: Record<string, unknown>;
+};
+
+/**
+ * Shared handler for approve/reject
+ */
+async function handleDecision(
+  mastra: Mastra,
+  runId: string,
+  decision: "approve" | "reject",
+  reviewer: string,
+  body: Record<string, unknown>
+): Promise<DecisionResponse> {
+  const parsed = reviewDecisionSchema.safeParse({ ...body, reviewer, decision });
+  if (!parsed.success) {
+    return {
+      status: 400,
+      body: { success: false, error: "Invalid review decision", details: z.treeifyError(parsed.error) },
+    };
+  }
+  if (decision === "reject" && !parsed.data.reason) {
+    return { status: 400, body: { success: false, error: "A reason is required to reject a draft" } };
+  }
+
+  try {
+    const result = await resumeReview(mastra, runId, parsed.data);
+    if (!result) {
+      return { status: 404, body: { success: false, error: "No draft awaiting review for this run" } };
+    }
+
+    if (result.status === "failed") {
+      console.error("Resumed workflow failed:", result.error);
+      return {
+        status: 500,
+        body: { success: false, error: "Workflow execution failed", details: result.error },
+      };
+    }
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        runId,
+        status: result.status,
+        data: result.status === "success" ? result.result : undefined,
+        // Approved, but the tracker call failed; the worker retries it
+        publishError: publishError(result),
+      },
+    };
+  } catch (error) {
+    console.error("Error resuming review:", error);
+    return {
+      status: 500,
+      body: {
+        success: false,
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
+
+/**
+ * Reads an optional JSON body, treating a missing or invalid body as empty
+ */
+export async function readJsonBody(req: { json(): Promise<unknown> }): Promise<Record<string, unknown>> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Lists drafts awaiting review, newest first. ?queue=triage lists only drafts
+ * whose product area was classified with low confidence.
+ *
+ * Endpoint: GET /reviews
+ */
+export const listReviewsRoute = registerApiRoute("/reviews", {
+  method: "GET",
+  handler: async (c) => {
+    if (!reviewerForAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    const workflow = c.get("mastra").getWorkflow("featureRequestWorkflow");
+    const queue = c.req.query("queue");
+
+    // The submission history tracks which runs are waiting for review, so only those snapshots are loaded
+    const reviews = [];
+    for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+      const { submissions } = await processedSubmissions.list({ status: "awaiting_review", limit: MAX_PAGE_SIZE, offset });
+      for (const submission of submissions) {
+        const run = await workflow.getWorkflowRunById(submission.id);
+        const snapshot = run && parseSnapshot(run.snapshot);
+        if (!run || !snapshot || !isAwaitingReview(snapshot)) continue;
+        const reviewStep = snapshot.context[REVIEW_STEP_ID] as
+          | {
+              suspendPayload?: {
+                draft?: unknown;
+                generation?: { fallback?: boolean; defaultedFields?: string[] };
+                classification?: ProductAreaClassification;
+                routing?: RoutingDecision;
+              };
+            }
+          | undefined;
+        const payload = reviewStep?.suspendPayload;
+        if (queue && payload?.routing?.queue !== queue) continue;
+        reviews.push({
+          runId: run.runId,
+          draft: payload?.draft,
+          // Flags drafts whose fields were partly filled with defaults
+          generation: payload?.generation,
+          classification: payload?.classification,
+          routing: payload?.routing,
+          createdAt: run.createdAt,
+          updatedAt: run.updatedAt,
+        });
+      }
+      if (submissions.length < MAX_PAGE_SIZE) break;
+    }
+
+    return c.json({ success: true, reviews });
+  },
+});
+
+/**
+ * Approves a draft, optionally with field edits, and publishes it
+ *
+ * Endpoint: POST /reviews/:runId/approve
+ * Body: { "edits": { "priority": "2" }, "category": "Payments" }
+ */
+export const approveReviewRoute = registerApiRoute("/reviews/:runId/approve", {
+  method: "POST",
+  handler: async (c) => {
+    const reviewer = reviewerForAuthorization(c.req.header("authorization"));
+    if (!reviewer) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    const { status, body } = await handleDecision(
+      c.get("mastra"),
+      c.req.param("runId"),
+      "approve",
+      reviewer,
+      await readJsonBody(c.req)
+    );
+    return c.json(body, status);
+  },
+});
+
+/**
+ * Rejects a draft; the run ends without creating an issue
+ *
+ * Endpoint: POST /reviews/:runId/reject
+ * Body: { "reason": "Already on the roadmap" }
+ */
+export const rejectReviewRoute = registerApiRoute("/reviews/:runId/reject", {
+  method: "POST",
+  handler: async (c) => {
+    const reviewer = reviewerForAuthorization(c.req.header("authorization"));
+    if (!reviewer) {
+      return c.json(
+        { success: false, error: "Unauthorized" },
+        401
+      );
+    }
+
+    const { status, body } = await handleDecision(
+      c.get("mastra"),
+      c.req.param("runId"),
+      "reject",
+      reviewer,
+      await readJsonBody(c.req)
+    );
+    return c.json(body, status);
+  },
+});
+
+/**
+ * Publishes an approved draft whose tracker issue could not be created, e.g.
+ * after the worker's retries ran out. The run resumes from its snapshot, so
+ * the draft is filed as approved without generating it again.
+ *
+ * Endpoint: POST /reviews/:runId/publish
+ */
+export const publishReviewRoute = registerApiRoute("/reviews/:runId/publish", {
+  method: "POST",
+  handler: async (c) => {
+    if (!isAdminAuthorization(c.req.header("authorization"))) {
+      return c.json(
+        { success: false, error: "Publishing drafts requires admin authorization" },
+        403
+      );
+    }
+
+    const mastra = c.get("mastra");
+    const runId = c.req.param("runId");
+    try {
+      if (!(await isAwaitingPublish(mastra, runId))) {
+        return c.json(
+          { success: false, error: "No approved draft waiting to be published for this run" },
+          404
+        );
+      }
+
+      const result = await resumeFeatureRequestRun(mastra, runId, PUBLISH_STEP_ID, {});
+      const error = publishError(result);
+      if (error || result.status !== "success") {
+        return c.json(
+          {
+            success: false,
+            error: "Issue creation failed",
+            details: error ?? (result.status === "failed" ? String(result.error) : result.status),
+          },
+          502
+        );
+      }
+
+      return c.json({ success: true, runId, status: result.status, data: result.result });
+    } catch (error) {
+      console.error("Error publishing draft:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        500
+      );
+    }
+  },
+});
@@ -1,124 +1,19 @@
 import { registerApiRoute } from "@mastra/core/server";
-import { z } from "zod";
-
-/**
- * Typeform Webhook Response Schema
- * 
- * This schema represents the structure of incoming Typeform webhook payloads.
- * Typeform sends form responses as JSON with this structure.
- */
-const typeformAnswerSchema = z.object({
-  type: z.string(),
-  text: z.string().optional(),
-  email: z.string().optional(),
-  choice: z.object({
-    label: z.string(),
-  }).optional(),
-  choices: z.object({
-    labels: z.array(z.string()),
-  }).optional(),
-  field: z.object({
-    id: z.string(),
-    ref: z.string().optional(),
-    type: z.string(),
-  }),
-});
-
-const typeformWebhookSchema = z.object({
-  event_id: z.string(),
-  event_type: z.string(),
-  form_response: z.object({
-    form_id: z.string(),
-    token: z.string(),
-    landed_at: z.string(),
-    submitted_at: z.string(),
-    definition: z.object({
-      id: z.string(),
-      title: z.string(),
-      fields: z.array(z.object({
-        id: z.string(),
-        ref: z.string().optional(),
-        type: z.string(),
-        title: z.string(),
-      })),
-    }),
-    answers: z.array(typeformAnswerSchema),
-  }),
-});
-
-type TypeformWebhook = z.infer<typeof typeformWebhookSchema>;
-
-/**
- * Maps Typeform field references to our expected field names
- * Update these refs to match your actual Typeform field references
- */
-const FIELD_MAPPING = {
-  // Feature description field (long_text or short_text)
-  feature_description: ["feature_description", "feature_request", "description", "what_feature"],
-  // Usage frequency (multiple_choice or short_text)
-  usage_frequency: ["usage_frequency", "frequency", "how_often"],
-  // Service types (multiple_choice or short_text)
-  service_types: ["service_types", "services", "what_services"],
-  // User interests (multiple_choice or short_text)
-  user_interests: ["interests", "areas", "user_interests"],
-  // Contact email (email field)
-  contact_email: ["email", "contact_email", "contact"],
-};
-
-/**
- * Extracts answer text from a Typeform answer object
- */
-function getAnswerValue(answer: z.infer<typeof typeformAnswerSchema>): string {
-  if (answer.text) return answer.text;
-  if (answer.email) return answer.email;
-  if (answer.choice?.label) return answer.choice.label;
-  if (answer.choices?.labels) return answer.choices.labels.join(", ");
-  return "";
-}
-
-/**
- * Finds an answer by field reference or id
- */
-function findAnswer(
-  answers: z.infer<typeof typeformAnswerSchema>[],
-  fieldRefs: string[]
-): string | undefined {
-  for (const ref of fieldRefs) {
-    const answer = answers.find(
-      (a) => a.field.ref === ref || a.field.id === ref
-    );
-    if (answer) {
-      return getAnswerValue(answer);
-    }
-  }
-  return undefined;
-}
-
-/**
- * Parses Typeform webhook payload into our expected format
- */
-function parseTypeformPayload(payload: TypeformWebhook): {
-  featureDescription: string;
-  usageFrequency?: string;
-  serviceTypes?: string;
-  userInterests?: string;
-  contactEmail?: string;
-} {
-  const answers = payload.form_response.answers;
-
-  return {
-    featureDescription: findAnswer(answers, FIELD_MAPPING.feature_description) || "",
-    usageFrequency: findAnswer(answers, FIELD_MAPPING.usage_frequency),
-    serviceTypes: findAnswer(answers, FIELD_MAPPING.service_types),
-    userInterests: findAnswer(answers, FIELD_MAPPING.user_interests),
-    contactEmail: findAnswer(answers, FIELD_MAPPING.contact_email),
-  };
-}
+import { drainFeatureRequestJobs, featureRequestJobs } from "../queue/feature-request-worker";
+import { getSubmissionContext, typeformWebhookSchema } from "../typeform/payload";
+import { PROCESSED_FORM_KINDS, mapTypeformResponse } from "../typeform/field-mapping";
+import { typeformSource } from "../intake";
+import { cronAuthorizationError } from "../security/cron-auth";
+import { reviewerForAuthorization } from "../security/reviewer-auth";
+import { handleIntake } from "./intake";
 
 /**
  * Typeform Webhook Route
  * 
- * Receives Typeform webhook events and processes feature requests through the workflow.
+ * Receives Typeform webhook events and queues feature requests for the workflow
+ * through the shared intake handler (see routes/intake.ts and intake/typeform-source.ts).
+ * Responds 202 with a run ID as soon as the delivery is persisted; poll
+ * GET /typeform-webhook/runs/:id for the outcome (details need a reviewer token).
  * 
  * Endpoint: POST /typeform-webhook
  * 
@@ -129,109 +24,73 @@ function parseTypeformPayload(payload: TypeformWebhook): {
  * 4. Select "form_response" event type
  * 5. Save the webhook
  * 
- * Security Note: In production, you should verify the Typeform signature.
- * Set TYPEFORM_WEBHOOK_SECRET in your environment and verify the x-typeform-signature header.
+ * Security:
+ * - Set TYPEFORM_WEBHOOK_SECRET to the secret configured on the Typeform webhook.
+ *   Use a comma-separated list to accept several secrets while rotating.
+ * - The Typeform-Signature header is verified against the raw request body.
+ *   Without a secret, verification is skipped outside production and the
+ *   request is rejected in production.
+ *
+ * Idempotency:
+ * - Each delivery is recorded in a persistent ledger under its event_id and
+ *   form_response.token. A repeat delivery (Typeform redelivery, replayed
+ *   payload, or a double submission) returns the original run and its result
+ *   instead of running the workflow again. Entries expire after
+ *   IDEMPOTENCY_TTL_MS (default 30 days).
+ * - Admins can force a re-run with ?force=true and
+ *   "Authorization: Bearer $ADMIN_API_TOKEN".
  */
 export const typeformWebhookRoute = registerApiRoute("/typeform-webhook", {
   method: "POST",
   handler: async (c) => {
-    try {
-      const mastra = c.get("mastra");
-      
-      // Parse and validate the webhook payload
-      const body = await c.req.json();
-      
-      // Log raw webhook for debugging (remove in production)
-      console.log("\n📥 Typeform Webhook Received");
-      console.log("Event ID:", body.event_id);
-      console.log("Event Type:", body.event_type);
-
-      // Only process form_response events
-      if (body.event_type !== "form_response") {
-        console.log("Ignoring non-form_response event");
-        return c.json({ success: true, message: "Event type ignored" });
-      }
-
-      // Validate the payload structure
-      const parseResult = typeformWebhookSchema.safeParse(body);
-      if (!parseResult.success) {
-        console.error("Invalid webhook payload:", parseResult.error);
-        return c.json(
-          { success: false, error: "Invalid webhook payload" },
-          400
-        );
-      }
-
-      // Parse the Typeform payload into our format
-      const featureRequestData = parseTypeformPayload(parseResult.data);
-
-      // Validate we have the required feature description
-      if (!featureRequestData.featureDescription) {
-        console.error("Missing feature description in webhook payload");
-        return c.json(
-          { success: false, error: "Missing feature description" },
-          400
-        );
-      }
-
-      console.log("\n📋 Parsed Feature Request:");
-      console.log("Description:", featureRequestData.featureDescription.substring(0, 100) + "...");
-      console.log("Frequency:", featureRequestData.usageFrequency);
-      console.log("Services:", featureRequestData.serviceTypes);
-
-      // Get the workflow and execute it
-      const workflow = mastra.getWorkflow("featureRequestWorkflow");
-      if (!workflow) {
-        console.error("Feature request workflow not found");
-        return c.json(
-          { success: false, error: "Workflow not found" },
-          500
-        );
-      }
+    const { status, body } = await handleIntake(c.get("mastra"), typeformSource, c.req);
+    return c.json(body, status);
+  },
+});
 
-      // Create and run the workflow
-      const run = await workflow.createRunAsync();
-      const result = await run.start({
-        inputData: featureRequestData,
-      });
+/**
+ * Dry-Run Mapping Route
+ *
+ * Shows how a sample Typeform payload would be mapped with the current form
+ * config, without verifying signatures, recording the delivery or running the
+ * workflow. Useful after editing a form or its entry in config/typeform-forms.ts.
+ *
+ * Endpoint: POST /typeform-webhook/dry-run
+ */
+export const typeformWebhookDryRunRoute = registerApiRoute("/typeform-webhook/dry-run", {
+  method: "POST",
+  handler: async (c) => {
+    let body;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(
+        { success: false, error: "Invalid JSON body" },
+        400
+      );
+    }
 
-      if (result.status === "success") {
-        console.log("\n✅ Feature request processed successfully");
-        return c.json({
-          success: true,
-          message: "Feature request processed",
-          data: result.result,
-        });
-      } else if (result.status === "failed") {
-        console.error("Workflow failed:", result.error);
-        return c.json(
-          { 
-            success: false, 
-            error: "Workflow execution failed",
-            details: result.error,
-          },
-          500
-        );
-      } else {
-        // Workflow was suspended (shouldn't happen in this workflow)
-        console.log("Workflow suspended:", result.suspended);
-        return c.json({
-          success: true,
-          message: "Workflow suspended",
-          suspended: result.suspended,
-        });
-      }
-    } catch (error) {
-      console.error("Error processing Typeform webhook:", error);
+    const parseResult = typeformWebhookSchema.safeParse(body);
+    if (!parseResult.success) {
       return c.json(
-        { 
-          success: false, 
-          error: "Internal server error",
-          details: error instanceof Error ? error.message : "Unknown error",
-        },
-        500
+        { success: false, error: "Invalid webhook payload", details: parseResult.error.issues },
+        400
       );
     }
+
+    const mapping = mapTypeformResponse(parseResult.data);
+    const wouldProcess = Boolean(
+      mapping.form &&
+      (PROCESSED_FORM_KINDS as readonly string[]).includes(mapping.form.kind) &&
+      mapping.values.featureDescription
+    );
+
+    return c.json({
+      success: true,
+      wouldProcess,
+      mapping,
+      context: getSubmissionContext(parseResult.data),
+    });
   },
 });
 
@@ -249,3 +108,74 @@ export const typeformWebhookHealthRoute = registerApiRoute("/typeform-webhook/he
   },
 });
 
+/**
+ * Run Status Route
+ *
+ * Reports the state of a queued delivery. With a reviewer or admin bearer
+ * token it also returns the last error and, once processed, the workflow
+ * result including the created (or voted-on) ticket; without one, only the
+ * status fields, since the result carries the story and submission content.
+ *
+ * Endpoint: GET /typeform-webhook/runs/:id
+ */
+export const typeformWebhookRunStatusRoute = registerApiRoute("/typeform-webhook/runs/:id", {
+  method: "GET",
+  handler: async (c) => {
+    const job = await featureRequestJobs.get(c.req.param("id"));
+    if (!job) {
+      return c.json(
+        { success: false, error: "Run not found" },
+        404
+      );
+    }
+
+    const status = {
+      success: true,
+      runId: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      nextAttemptAt: job.status === "retrying" ? new Date(job.nextAttemptAt).toISOString() : undefined,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+    if (!reviewerForAuthorization(c.req.header("authorization"))) {
+      return c.json(status);
+    }
+
+    const result = job.result as
+      | { trackerIssue?: { key?: string }; duplicate?: { issueKey?: string } }
+      | null
+      | undefined;
+
+    return c.json({
+      ...status,
+      lastError: job.lastError,
+      issueKey: result?.trackerIssue?.key ?? result?.duplicate?.issueKey,
+      result: job.result,
+    });
+  },
+});
+
+/**
+ * Worker Route
+ *
+ * Drains due jobs (including retries whose backoff has elapsed). Meant to be
+ * hit by a scheduler such as Vercel Cron, which sends GET requests with
+ * "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set. Production
+ * rejects every request while CRON_SECRET is unset.
+ *
+ * Endpoint: GET /typeform-webhook/worker
+ */
+export const typeformWebhookWorkerRoute = registerApiRoute("/typeform-webhook/worker", {
+  method: "GET",
+  handler: async (c) => {
+    const authorizationError = cronAuthorizationError(c.req.header("authorization"), "worker");
+    if (authorizationError) {
+      return c.json(authorizationError.body, authorizationError.status);
+    }
+
+    const processed = await drainFeatureRequestJobs(c.get("mastra"));
+    return c.json({ success: true, processed });
+  },
+});
@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { productAreaRoutingConfig } from "../config/product-area-routing";
+import {
+  productAreaSchema,
+  type ProductAreaClassification,
+} from "../domain/feature-request";
+import { issueRoutingSchema } from "../integrations/issue-tracker";
+
+/**
+ * Product Area Routing
+ *
+ * Turns a product-area classification into the board, components, assignee
+ * and labels the issue is filed with, using the routing table in
+ * config/product-area-routing.ts. Classifications below the table's
+ * confidence threshold go to the triage route instead of a team board.
+ */
+
+const routeSchema = z.object({
+  projectKey: z.string().min(1).optional(),
+  components: z.array(z.string().min(1)).optional(),
+  // Tracker account ids; one is picked per request
+  assigneePool: z.array(z.string().min(1)).optional(),
+  labels: z.array(z.string().min(1)).optional(),
+}).strict();
+
+export type ProductAreaRoute = z.infer<typeof routeSchema>;
+
+export const productAreaRoutingConfigSchema = z.object({
+  version: z.literal(1),
+  minConfidence: z.number().min(0).max(1),
+  routes: z.partialRecord(productAreaSchema, routeSchema),
+  triage: routeSchema,
+});
+
+export type ProductAreaRoutingConfig = z.infer<typeof productAreaRoutingConfigSchema>;
+
+export const routingDecisionSchema = issueRoutingSchema.extend({
+  queue: z.union([productAreaSchema, z.literal("triage")]).describe("Team board the request was routed to, or triage"),
+  triaged: z.boolean().describe("Whether low confidence sent the request to the triage queue"),
+});
+
+export type RoutingDecision = z.infer<typeof routingDecisionSchema>;
+
+/**
+ * Validates a routing config, throwing one error that lists every problem
+ */
+export function validateProductAreaRoutingConfig(raw: unknown): ProductAreaRoutingConfig {
+  const parsed = productAreaRoutingConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid product area routing config:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+let loadedConfig: ProductAreaRoutingConfig | undefined;
+
+/**
+ * Loads and validates the routing table (PRODUCT_AREA_ROUTING_CONFIG JSON file if set)
+ */
+export function loadProductAreaRoutingConfig(): ProductAreaRoutingConfig {
+  if (!loadedConfig) {
+    const path = process.env.PRODUCT_AREA_ROUTING_CONFIG;
+    const raw = path ? JSON.parse(readFileSync(path, "utf8")) : productAreaRoutingConfig;
+    loadedConfig = validateProductAreaRoutingConfig(raw);
+  }
+  return loadedConfig;
+}
+
+/**
+ * Picks an assignee from the pool. Hashing a stable key (the run id) keeps
+ * the choice the same when a run is retried or resumed.
+ */
+function pickAssignee(pool: string[] | undefined, key: string): string | undefined {
+  if (!pool || pool.length === 0) {
+    return undefined;
+  }
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return pool[hash % pool.length];
+}
+
+/**
+ * Resolves where a classified request is filed
+ */
+export function routeClassification(
+  classification: ProductAreaClassification,
+  assignmentKey: string,
+  config: ProductAreaRoutingConfig = loadProductAreaRoutingConfig()
+): RoutingDecision {
+  const triaged = classification.confidence < config.minConfidence;
+  const route = triaged ? config.triage : config.routes[classification.category] ?? {};
+
+  return {
+    queue: triaged ? "triage" : classification.category,
+    triaged,
+    projectKey: route.projectKey,
+    components: route.components ?? [],
+    assignee: pickAssignee(route.assigneePool, assignmentKey),
+    labels: route.labels ?? [],
+  };
+}
@@ -0,0 +1,251 @@
+import { z } from "zod";
+import type { UIMessageWithMetadata } from "@mastra/core/agent";
+import { createScorer, type ScorerRunInputForAgent, type ScorerRunOutputForAgent } from "@mastra/core/scores";
+import type { MastraModelConfig } from "@mastra/core/llm";
+import {
+  MAX_SUMMARY_LENGTH,
+  STORY_POINTS,
+  SUMMARY_FORMAT,
+  generatedJiraStorySchema,
+} from "../domain/feature-request";
+import { findPiiLeaks } from "../privacy/pii-sanitizer";
+
+/**
+ * Jira Story Scorers
+ *
+ * Scorers for jiraFeatureRequestAgent. The deterministic ones check the story
+ * against the rules in the agent's prompt; faithfulness is judged by an LLM
+ * against the original request. All of them read the raw agent response, so
+ * they run the same way live (sampled on the agent) and offline in the eval
+ * CLI (src/mastra/evals/run-jira-story-evals.ts).
+ */
+
+export const ACCEPTANCE_CRITERIA_RANGE = { min: 8, max: 12 };
+
+export const DEFAULT_JUDGE_MODEL = "anthropic/claude-sonnet-4-5-20250929";
+
+/**
+ * Ground truth passed to the PII scorer: values redacted from the submission
+ * that must never reappear in the story.
+ */
+export interface JiraStoryGroundTruth {
+  knownPiiValues?: string[];
+}
+
+function messageText(message: UIMessageWithMetadata | undefined): string {
+  if (!message) return "";
+  if (message.content) return message.content;
+  return (message.parts ?? []).flatMap((part) => (part.type === "text" ? [part.text] : [])).join("");
+}
+
+function getAssistantText(run: { output: ScorerRunOutputForAgent }): string {
+  return messageText(run.output.at(-1));
+}
+
+function getUserText(run: { input?: ScorerRunInputForAgent }): string {
+  return messageText(run.input?.inputMessages.at(-1));
+}
+
+/**
+ * Parses the story JSON out of an agent response, tolerating code fences
+ */
+function parseStory(responseText: string): { story: unknown; error?: string } {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  try {
+    return { story: JSON.parse(jsonMatch ? jsonMatch[0] : responseText) };
+  } catch (error) {
+    return { story: null, error: `Response is not valid JSON: ${error}` };
+  }
+}
+
+/**
+ * Counts acceptance criteria written as complete Given/When/Then blocks
+ */
+export function countGivenWhenThen(acceptanceCriteria: string): number {
+  return acceptanceCriteria
+    .split(/\bGiven\b/)
+    .slice(1)
+    .filter((block) => /\bWhen\b/.test(block) && /\bThen\b/.test(block))
+    .length;
+}
+
+export const storySchemaScorer = createScorer({
+  name: "Jira Story Schema",
+  description: `Checks the response is a valid story and the summary is at most ${MAX_SUMMARY_LENGTH} characters in "[Category] - ..." format`,
+  type: "agent",
+})
+  .preprocess(({ run }) => parseStory(getAssistantText(run)))
+  .analyze(({ results }) => {
+    const { story, error } = results.preprocessStepResult;
+    if (error) {
+      return { schemaValid: false, issues: [error] };
+    }
+
+    const parsed = generatedJiraStorySchema.safeParse(story);
+    if (!parsed.success) {
+      return { schemaValid: false, issues: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`) };
+    }
+
+    // The schema already enforces the summary length; the format is a prompt rule
+    const issues: string[] = [];
+    if (!SUMMARY_FORMAT.test(parsed.data.summary)) {
+      issues.push("summary does not match \"[Category] - Description\"");
+    }
+    return { schemaValid: true, issues };
+  })
+  .generateScore(({ results }) => {
+    const { schemaValid, issues } = results.analyzeStepResult;
+    if (!schemaValid) return 0;
+    return issues.length === 0 ? 1 : 0.5;
+  })
+  .generateReason(({ results, score }) => {
+    const { issues } = results.analyzeStepResult;
+    return issues.length === 0 ? `Valid story. Score=${score}.` : `Score=${score}. ${issues.join("; ")}`;
+  });
+
+export const acceptanceCriteriaScorer = createScorer({
+  name: "Acceptance Criteria Count",
+  description: "Counts Given/When/Then acceptance criteria; full credit for 8-12",
+  type: "agent",
+})
+  .preprocess(({ run }) => parseStory(getAssistantText(run)))
+  .analyze(({ results }) => {
+    const story = results.preprocessStepResult.story as { acceptanceCriteria?: unknown } | null;
+    const text = typeof story?.acceptanceCriteria === "string" ? story.acceptanceCriteria : "";
+    return { count: countGivenWhenThen(text) };
+  })
+  .generateScore(({ results }) => {
+    const { count } = results.analyzeStepResult;
+    const { min, max } = ACCEPTANCE_CRITERIA_RANGE;
+    if (count >= min && count <= max) return 1;
+    // Partial credit that falls off with distance from the range
+    return count < min ? count / min : max / count;
+  })
+  .generateReason(({ results, score }) => {
+    const { min, max } = ACCEPTANCE_CRITERIA_RANGE;
+    return `${results.analyzeStepResult.count} Given/When/Then criteria (expected ${min}-${max}). Score=${score}.`;
+  });
+
+export const storyPointsScorer = createScorer({
+  name: "Fibonacci Story Points",
+  description: `Checks story points are on the Fibonacci scale (${STORY_POINTS.join(", ")})`,
+  type: "agent",
+})
+  .preprocess(({ run }) => parseStory(getAssistantText(run)))
+  .analyze(({ results }) => {
+    const story = results.preprocessStepResult.story as { storyPoints?: unknown } | null;
+    return { storyPoints: story?.storyPoints };
+  })
+  .generateScore(({ results }) => {
+    const { storyPoints } = results.analyzeStepResult;
+    return typeof storyPoints === "number" && (STORY_POINTS as readonly number[]).includes(storyPoints) ? 1 : 0;
+  })
+  .generateReason(({ results, score }) =>
+    `Story points: ${JSON.stringify(results.analyzeStepResult.storyPoints)}. Score=${score}.`
+  );
+
+export const piiLeakageScorer = createScorer({
+  name: "PII Leakage",
+  description: "Scores 1 when no PII (detected or known from the submission) appears in the story",
+  type: "agent",
+})
+  .preprocess(({ run }) => {
+    const responseText = getAssistantText(run);
+    const { story } = parseStory(responseText);
+    // Scan the whole response when it is not a story object, so nothing slips through
+    const fields = story && typeof story === "object" ? (story as Record<string, unknown>) : { response: responseText };
+    const knownPiiValues = (run.groundTruth as JiraStoryGroundTruth | undefined)?.knownPiiValues ?? [];
+    return { fields, knownPiiValues };
+  })
+  .analyze(({ results }) => {
+    const { fields, knownPiiValues } = results.preprocessStepResult;
+    return { leaks: findPiiLeaks(fields, knownPiiValues) };
+  })
+  .generateScore(({ results }) => (results.analyzeStepResult.leaks.length === 0 ? 1 : 0))
+  .generateReason(({ results, score }) => {
+    const { leaks } = results.analyzeStepResult;
+    return leaks.length === 0
+      ? `No PII found. Score=${score}.`
+      : `PII leaked: ${leaks.map((leak) => `${leak.field}:${leak.type}`).join(", ")}. Score=${score}.`;
+  });
+
+/**
+ * LLM-judged faithfulness of the story to the original request. The judge
+ * model can be swapped, e.g. for a replay model in offline evals.
+ */
+export function createFaithfulnessScorer(model: MastraModelConfig = process.env.EVAL_JUDGE_MODEL || DEFAULT_JUDGE_MODEL) {
+  return createScorer({
+    name: "Story Faithfulness",
+    description: "Judges whether the story reflects what the submitter asked for without inventing or contradicting requirements",
+    type: "agent",
+    judge: {
+      model,
+      instructions:
+        "You are a senior product manager reviewing Jira stories written from customer feature requests. " +
+        "Judge whether the story stays faithful to the request: it should address what the customer asked for, " +
+        "may add reasonable implementation detail, but must not change the request's intent, contradict it, or " +
+        "present invented customer needs as if the customer stated them. " +
+        "Return only the structured JSON matching the provided schema.",
+    },
+  })
+    .preprocess(({ run }) => ({
+      request: getUserText(run),
+      story: getAssistantText(run),
+    }))
+    .analyze({
+      description: "Compare the story with the request it was generated from",
+      outputSchema: z.object({
+        addressedNeeds: z.array(z.string()).default([]),
+        missedNeeds: z.array(z.string()).default([]),
+        contradictions: z.array(z.string()).default([]),
+        faithfulness: z.number().min(0).max(1),
+        explanation: z.string().default(""),
+      }),
+      createPrompt: ({ results }) => `
+        Evaluate how faithfully this Jira story reflects the customer's feature request.
+
+        Request (as sent to the ticket writer):
+        """
+        ${results.preprocessStepResult.request}
+        """
+
+        Generated story (JSON):
+        """
+        ${results.preprocessStepResult.story}
+        """
+
+        Tasks:
+        1) List the needs the customer expressed that the story addresses.
+        2) List expressed needs the story misses.
+        3) List statements in the story that contradict the request or change its intent.
+        4) Rate faithfulness from 0 (unrelated or contradictory) to 1 (fully faithful).
+        Return JSON with fields:
+        {
+          "addressedNeeds": string[],
+          "missedNeeds": string[],
+          "contradictions": string[],
+          "faithfulness": number, // 0-1
+          "explanation": string
+        }
+      `,
+    })
+    .generateScore(({ results }) => {
+      const { faithfulness, contradictions } = results.analyzeStepResult;
+      // Each contradiction costs a quarter point on top of the judge's rating
+      return Math.max(0, Math.min(1, faithfulness - 0.25 * contradictions.length));
+    })
+    .generateReason(({ results, score }) => {
+      const { missedNeeds, contradictions, explanation } = results.analyzeStepResult;
+      return `Faithfulness: missed=${missedNeeds.length}, contradictions=${contradictions.length}. Score=${score}. ${explanation}`;
+    });
+}
+
+export const faithfulnessScorer = createFaithfulnessScorer();
+
+export const jiraStoryScorers = {
+  storySchemaScorer,
+  acceptanceCriteriaScorer,
+  storyPointsScorer,
+  piiLeakageScorer,
+  faithfulnessScorer,
+};
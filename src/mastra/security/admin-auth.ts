@@ -0,0 +1,19 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Admin Authentication
+ *
+ * Privileged operations (forced re-runs, ...) require
+ * "Authorization: Bearer $ADMIN_API_TOKEN". Without ADMIN_API_TOKEN configured,
+ * no request is treated as admin.
+ */
+export function isAdminAuthorization(authorizationHeader: string | undefined | null): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token || !authorizationHeader?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const expected = Buffer.from(token);
+  const received = Buffer.from(authorizationHeader.slice("Bearer ".length));
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
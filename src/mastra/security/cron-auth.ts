@@ -0,0 +1,41 @@
+import { verifyBearerToken } from "./intake-auth";
+
+/**
+ * Cron Authentication
+ *
+ * Scheduled routes (queue worker, digests, ...) are triggered by a scheduler
+ * such as Vercel Cron, which sends "Authorization: Bearer $CRON_SECRET" when
+ * CRON_SECRET is set. Without a secret, the check is skipped outside
+ * production and the request is rejected in production.
+ */
+
+type CronAuthorization = "valid" | "invalid" | "not_configured";
+
+function checkCronAuthorization(authorizationHeader: string | undefined | null): CronAuthorization {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return "not_configured";
+  }
+  return verifyBearerToken(authorizationHeader, [secret]) ? "valid" : "invalid";
+}
+
+/**
+ * The error response for a scheduled route, or null when the request may proceed
+ */
+export function cronAuthorizationError(
+  authorizationHeader: string | undefined | null,
+  routeName: string
+): { status: 401 | 500; body: { success: false; error: string } } | null {
+  const authorization = checkCronAuthorization(authorizationHeader);
+  if (authorization === "invalid") {
+    return { status: 401, body: { success: false, error: "Unauthorized" } };
+  }
+  if (authorization === "not_configured") {
+    if (process.env.NODE_ENV === "production") {
+      console.error(`CRON_SECRET is not configured; rejecting ${routeName} request`);
+      return { status: 500, body: { success: false, error: "Cron secret not configured" } };
+    }
+    console.warn(`⚠️ CRON_SECRET not set - skipping ${routeName} authorization`);
+  }
+  return null;
+}
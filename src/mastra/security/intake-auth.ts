@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Intake Authentication
+ *
+ * Shared-secret checks for the non-Typeform intake routes:
+ * - Email and JSON intake expect "Authorization: Bearer <token>" with a token
+ *   from EMAIL_INTAKE_TOKEN / JSON_INTAKE_TOKEN
+ * - Zendesk webhooks are signed with base64(HMAC-SHA256(timestamp + body)) using
+ *   the webhook's signing secret (ZENDESK_WEBHOOK_SECRET), sent in the
+ *   X-Zendesk-Webhook-Signature and X-Zendesk-Webhook-Signature-Timestamp headers
+ *
+ * Every variable accepts a comma-separated list so secrets can be rotated.
+ */
+
+export const ZENDESK_SIGNATURE_HEADER = "x-zendesk-webhook-signature";
+export const ZENDESK_TIMESTAMP_HEADER = "x-zendesk-webhook-signature-timestamp";
+
+/**
+ * Reads a comma-separated list of secrets from the environment
+ */
+export function getIntakeSecrets(variable: string, env: Record<string, string | undefined> = process.env): string[] {
+  return (env[variable] || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Constant-time comparison against every secret (no early exit)
+ */
+function matchesAny(received: Buffer, expected: Buffer[]): boolean {
+  let matched = false;
+  for (const candidate of expected) {
+    // timingSafeEqual throws on length mismatch; compare candidate with itself to keep timing uniform
+    const lengthMatches = received.length === candidate.length;
+    const equal = timingSafeEqual(lengthMatches ? received : candidate, candidate) && lengthMatches;
+    matched = matched || equal;
+  }
+  return matched;
+}
+
+export function verifyBearerToken(authorizationHeader: string | undefined | null, tokens: string[]): boolean {
+  if (tokens.length === 0 || !authorizationHeader?.startsWith("Bearer ")) {
+    return false;
+  }
+  const received = Buffer.from(authorizationHeader.slice("Bearer ".length));
+  return matchesAny(received, tokens.map((token) => Buffer.from(token)));
+}
+
+/**
+ * Computes the signature Zendesk would send for a body and timestamp
+ */
+export function signZendeskPayload(rawBody: string, timestamp: string, secret: string): string {
+  return createHmac("sha256", secret).update(timestamp + rawBody).digest("base64");
+}
+
+export function verifyZendeskSignature(
+  rawBody: string,
+  signatureHeader: string | undefined | null,
+  timestampHeader: string | undefined | null,
+  secrets: string[]
+): boolean {
+  if (secrets.length === 0 || !signatureHeader || !timestampHeader) {
+    return false;
+  }
+  const received = Buffer.from(signatureHeader.trim(), "base64");
+  if (received.length === 0) {
+    return false;
+  }
+  return matchesAny(
+    received,
+    secrets.map((secret) => createHmac("sha256", secret).update(timestampHeader + rawBody).digest())
+  );
+}
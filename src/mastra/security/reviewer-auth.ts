@@ -0,0 +1,52 @@
+import { isAdminAuthorization } from "./admin-auth";
+import { verifyBearerToken } from "./intake-auth";
+
+/**
+ * Reviewer Authentication
+ *
+ * The review routes require "Authorization: Bearer <token>" with a reviewer's
+ * token from REVIEWER_TOKENS, a comma-separated list of name:token pairs
+ * ("jane.pm:s3cret,sam.pm:an0ther"), or the admin token. Decisions are
+ * recorded under the name the token belongs to, never a name from the request.
+ * A reviewer can have several tokens while one is rotated.
+ */
+
+export const ADMIN_REVIEWER = "admin";
+
+export interface ReviewerToken {
+  reviewer: string;
+  token: string;
+}
+
+/**
+ * Parses REVIEWER_TOKENS; entries without both a name and a token are ignored
+ */
+export function getReviewerTokens(env: Record<string, string | undefined> = process.env): ReviewerToken[] {
+  const tokens: ReviewerToken[] = [];
+  for (const entry of (env.REVIEWER_TOKENS || "").split(",")) {
+    const separator = entry.indexOf(":");
+    const reviewer = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (separator > 0 && reviewer && token) {
+      tokens.push({ reviewer, token });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * The reviewer a bearer token belongs to, or null when it is not a reviewer or admin token
+ */
+export function reviewerForAuthorization(authorizationHeader: string | undefined | null): string | null {
+  // Check every reviewer so timing does not reveal which one matched
+  let reviewer: string | null = null;
+  for (const candidate of getReviewerTokens()) {
+    if (verifyBearerToken(authorizationHeader, [candidate.token]) && !reviewer) {
+      reviewer = candidate.reviewer;
+    }
+  }
+  if (reviewer) {
+    return reviewer;
+  }
+  return isAdminAuthorization(authorizationHeader) ? ADMIN_REVIEWER : null;
+}
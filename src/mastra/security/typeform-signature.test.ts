@@ -0,0 +1,166 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient } from "@libsql/client";
+import type { Mastra } from "@mastra/core/mastra";
+import { typeformSource } from "../intake";
+import { drainFeatureRequestJobs } from "../queue/feature-request-worker";
+import { handleIntake } from "../routes/intake";
+import { setDatabase } from "../storage/database";
+import { signTypeformPayload, verifyTypeformSignature } from "./typeform-signature";
+
+const FIXTURE = readFileSync(new URL("./fixtures/typeform-form-response.json", import.meta.url), "utf8");
+const SECRET = "tf-secret-current";
+const PREVIOUS_SECRET = "tf-secret-previous";
+
+function setEnv(name: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = value;
+  }
+}
+
+describe("verifyTypeformSignature", () => {
+  test("accepts the signature Typeform sends for the raw body", () => {
+    const result = verifyTypeformSignature(FIXTURE, signTypeformPayload(FIXTURE, SECRET), [SECRET]);
+    assert.deepEqual(result, { valid: true, secretIndex: 0 });
+  });
+
+  test("accepts any of several secrets while rotating", () => {
+    const result = verifyTypeformSignature(FIXTURE, signTypeformPayload(FIXTURE, PREVIOUS_SECRET), [SECRET, PREVIOUS_SECRET]);
+    assert.deepEqual(result, { valid: true, secretIndex: 1 });
+  });
+
+  test("rejects a tampered body", () => {
+    const signature = signTypeformPayload(FIXTURE, SECRET);
+    const tampered = FIXTURE.replace("in Spanish", "in French");
+    assert.deepEqual(verifyTypeformSignature(tampered, signature, [SECRET]), { valid: false, reason: "mismatch" });
+  });
+
+  test("rejects a body re-serialized after parsing", () => {
+    // Whitespace differs, so verification must use the bytes that were sent
+    const reserialized = JSON.stringify(JSON.parse(FIXTURE));
+    const signature = signTypeformPayload(FIXTURE, SECRET);
+    assert.deepEqual(verifyTypeformSignature(reserialized, signature, [SECRET]), { valid: false, reason: "mismatch" });
+  });
+
+  test("rejects a signature made with another secret", () => {
+    const signature = signTypeformPayload(FIXTURE, "someone-else");
+    assert.deepEqual(verifyTypeformSignature(FIXTURE, signature, [SECRET]), { valid: false, reason: "mismatch" });
+  });
+
+  test("rejects a missing or malformed header", () => {
+    assert.deepEqual(verifyTypeformSignature(FIXTURE, undefined, [SECRET]), { valid: false, reason: "missing_signature" });
+    assert.deepEqual(verifyTypeformSignature(FIXTURE, "", [SECRET]), { valid: false, reason: "missing_signature" });
+    const unprefixed = signTypeformPayload(FIXTURE, SECRET).slice("sha256=".length);
+    assert.deepEqual(verifyTypeformSignature(FIXTURE, unprefixed, [SECRET]), { valid: false, reason: "malformed_signature" });
+    assert.deepEqual(verifyTypeformSignature(FIXTURE, "sha256=", [SECRET]), { valid: false, reason: "malformed_signature" });
+  });
+
+  test("reports a missing secret", () => {
+    assert.deepEqual(verifyTypeformSignature(FIXTURE, signTypeformPayload(FIXTURE, SECRET), []), {
+      valid: false,
+      reason: "missing_secret",
+    });
+  });
+});
+
+describe("Typeform webhook intake", () => {
+  const directory = mkdtempSync(join(tmpdir(), "typeform-webhook-"));
+  const env = { secret: process.env.TYPEFORM_WEBHOOK_SECRET, nodeEnv: process.env.NODE_ENV };
+
+  // Every queued run succeeds without calling a model
+  const mastra = {
+    getWorkflow: () => ({
+      getWorkflowRunById: async () => null,
+      createRunAsync: async () => ({ start: async () => ({ status: "success", result: { outcome: "created" } }) }),
+    }),
+  } as unknown as Mastra;
+
+  async function deliver(body: string, headers: Record<string, string> = {}) {
+    const response = await handleIntake(mastra, typeformSource, {
+      text: async () => body,
+      header: (name) => headers[name.toLowerCase()],
+      query: () => undefined,
+    });
+    // Let the drain the route kicked off finish before the next delivery
+    await drainFeatureRequestJobs(mastra);
+    return response;
+  }
+
+  before(() => {
+    setDatabase(createClient({ url: `file:${join(directory, "intake.db")}` }));
+    process.env.TYPEFORM_WEBHOOK_SECRET = `${SECRET},${PREVIOUS_SECRET}`;
+  });
+
+  after(() => {
+    setEnv("TYPEFORM_WEBHOOK_SECRET", env.secret);
+    setEnv("NODE_ENV", env.nodeEnv);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("queues a correctly signed delivery", async () => {
+    const response = await deliver(FIXTURE, { "typeform-signature": signTypeformPayload(FIXTURE, SECRET) });
+    assert.equal(response.status, 202);
+    assert.equal(typeof response.body.runId, "string");
+  });
+
+  test("returns the original run for a replayed delivery", async () => {
+    const body = FIXTURE.replace("01JD3K8Q2R7ZP4M5T6V8W9X0YA", "01JD3K8Q2R7ZP4M5T6V8W9X0YB")
+      .replace("a3a12ec67a1365927098a606107fac15", "b3a12ec67a1365927098a606107fac15");
+    const headers = { "typeform-signature": signTypeformPayload(body, SECRET) };
+
+    const first = await deliver(body, headers);
+    assert.equal(first.status, 202);
+
+    const replayed = await deliver(body, headers);
+    assert.equal(replayed.status, 200);
+    assert.equal(replayed.body.duplicate, true);
+    assert.equal(replayed.body.runId, first.body.runId);
+    assert.equal(replayed.body.status, "succeeded");
+  });
+
+  test("treats a resent event_id as a replay even with a new response token", async () => {
+    const body = FIXTURE.replace("01JD3K8Q2R7ZP4M5T6V8W9X0YA", "01JD3K8Q2R7ZP4M5T6V8W9X0YC")
+      .replace("a3a12ec67a1365927098a606107fac15", "c3a12ec67a1365927098a606107fac15");
+    const first = await deliver(body, { "typeform-signature": signTypeformPayload(body, SECRET) });
+
+    const retokened = body.replace("c3a12ec67a1365927098a606107fac15", "d3a12ec67a1365927098a606107fac15");
+    const replayed = await deliver(retokened, { "typeform-signature": signTypeformPayload(retokened, PREVIOUS_SECRET) });
+    assert.equal(replayed.status, 200);
+    assert.equal(replayed.body.runId, first.body.runId);
+  });
+
+  test("rejects a tampered delivery", async () => {
+    const signature = signTypeformPayload(FIXTURE, SECRET);
+    const response = await deliver(FIXTURE.replace("Daily", "Never"), { "typeform-signature": signature });
+    assert.equal(response.status, 401);
+  });
+
+  test("rejects a delivery without a signature header", async () => {
+    const response = await deliver(FIXTURE);
+    assert.equal(response.status, 401);
+  });
+
+  test("accepts the legacy x-typeform-signature header", async () => {
+    const body = FIXTURE.replace("01JD3K8Q2R7ZP4M5T6V8W9X0YA", "01JD3K8Q2R7ZP4M5T6V8W9X0YD")
+      .replace("a3a12ec67a1365927098a606107fac15", "e3a12ec67a1365927098a606107fac15");
+    const response = await deliver(body, { "x-typeform-signature": signTypeformPayload(body, SECRET) });
+    assert.equal(response.status, 202);
+  });
+
+  test("rejects unsigned deliveries in production when no secret is configured", async () => {
+    delete process.env.TYPEFORM_WEBHOOK_SECRET;
+    process.env.NODE_ENV = "production";
+    try {
+      const response = await deliver(FIXTURE);
+      assert.equal(response.status, 500);
+    } finally {
+      process.env.TYPEFORM_WEBHOOK_SECRET = `${SECRET},${PREVIOUS_SECRET}`;
+      setEnv("NODE_ENV", env.nodeEnv);
+    }
+  });
+});
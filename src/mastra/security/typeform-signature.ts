@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Typeform Webhook Signature Verification
+ *
+ * Typeform signs every webhook delivery with an HMAC-SHA256 of the raw request
+ * body, base64 encoded and prefixed with "sha256=". The signature is sent in the
+ * `Typeform-Signature` header (older docs and proxies use `x-typeform-signature`).
+ *
+ * Secrets are read from TYPEFORM_WEBHOOK_SECRET. Several secrets can be active at
+ * once (comma-separated) so a secret can be rotated without dropping deliveries:
+ * add the new secret, update Typeform, then remove the old one.
+ */
+
+export const TYPEFORM_SIGNATURE_HEADERS = ["typeform-signature", "x-typeform-signature"];
+
+const SIGNATURE_PREFIX = "sha256=";
+
+export type SignatureVerificationResult =
+  | { valid: true; secretIndex: number }
+  | { valid: false; reason: "missing_secret" | "missing_signature" | "malformed_signature" | "mismatch" };
+
+/**
+ * Reads the configured webhook secrets from the environment
+ */
+export function getTypeformWebhookSecrets(
+  env: Record<string, string | undefined> = process.env
+): string[] {
+  return (env.TYPEFORM_WEBHOOK_SECRET || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Computes the signature header value Typeform would send for a body
+ */
+export function signTypeformPayload(rawBody: string | Buffer, secret: string): string {
+  const digest = createHmac("sha256", secret).update(rawBody).digest("base64");
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Verifies a signature header against the raw body bytes.
+ *
+ * Every configured secret is checked (no early exit) and each comparison is
+ * constant-time, so response timing reveals neither the signature nor which
+ * secret matched.
+ */
+export function verifyTypeformSignature(
+  rawBody: string | Buffer,
+  signatureHeader: string | undefined | null,
+  secrets: string[]
+): SignatureVerificationResult {
+  if (secrets.length === 0) {
+    return { valid: false, reason: "missing_secret" };
+  }
+  if (!signatureHeader) {
+    return { valid: false, reason: "missing_signature" };
+  }
+
+  const signature = signatureHeader.trim();
+  if (!signature.startsWith(SIGNATURE_PREFIX)) {
+    return { valid: false, reason: "malformed_signature" };
+  }
+
+  const received = Buffer.from(signature.slice(SIGNATURE_PREFIX.length), "base64");
+  if (received.length === 0) {
+    return { valid: false, reason: "malformed_signature" };
+  }
+
+  let matchedIndex = -1;
+  secrets.forEach((secret, index) => {
+    const expected = createHmac("sha256", secret).update(rawBody).digest();
+    // timingSafeEqual throws on length mismatch; compare expected with itself to keep timing uniform
+    const lengthMatches = received.length === expected.length;
+    const equal = timingSafeEqual(lengthMatches ? received : expected, expected) && lengthMatches;
+    if (equal && matchedIndex === -1) {
+      matchedIndex = index;
+    }
+  });
+
+  return matchedIndex >= 0
+    ? { valid: true, secretIndex: matchedIndex }
+    : { valid: false, reason: "mismatch" };
+}
@@ -0,0 +1,60 @@
+import { createClient, type Client } from "@libsql/client";
+
+/**
+ * Application Database
+ *
+ * LibSQL connection for our own domain tables (job queue, ledgers, processed
+ * submissions, ...). Mastra's own storage for workflow snapshots and traces
+ * uses the same database, in tables of its own.
+ *
+ * Configured by DATABASE_URL / DATABASE_AUTH_TOKEN. Defaults to a local file so
+ * queued work and run history survive restarts.
+ */
+
+// path is relative to the .mastra/output directory
+const DEFAULT_DATABASE_URL = "file:../mastra.db";
+
+let client: Client | undefined;
+
+export function databaseConfigFromEnv(env: NodeJS.ProcessEnv = process.env): { url: string; authToken?: string } {
+  return {
+    url: env.DATABASE_URL || DEFAULT_DATABASE_URL,
+    authToken: env.DATABASE_AUTH_TOKEN,
+  };
+}
+
+export function getDatabase(): Client {
+  if (!client) {
+    client = createClient(databaseConfigFromEnv());
+  }
+  return client;
+}
+
+/**
+ * Overrides the database client (e.g. with an in-memory database in local scripts)
+ */
+export function setDatabase(database: Client): void {
+  client = database;
+}
+
+const migrated = new WeakMap<Client, Map<string, Promise<void>>>();
+
+/**
+ * Runs a table's DDL once per client. Each table module calls this before
+ * its first query, so no separate migration step is needed.
+ */
+export async function ensureSchema(db: Client, name: string, statements: string[]): Promise<void> {
+  let done = migrated.get(db);
+  if (!done) {
+    done = new Map();
+    migrated.set(db, done);
+  }
+
+  let pending = done.get(name);
+  if (!pending) {
+    pending = db.batch(statements, "write").then(() => undefined);
+    pending.catch(() => done!.delete(name));
+    done.set(name, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,120 @@
+import type { Client } from "@libsql/client";
+import { ensureSchema, getDatabase } from "./database";
+
+/**
+ * Idempotency Ledger
+ *
+ * Records which run handled a given delivery key (Typeform event_id, response
+ * token, ...). A repeat delivery with any already-recorded key resolves to the
+ * original run instead of starting a new one. Entries expire after a TTL so
+ * the table does not grow forever.
+ */
+
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS idempotency_ledger (
+    key TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idempotency_ledger_expires_idx ON idempotency_ledger (expires_at)`,
+];
+
+export type ClaimResult =
+  | { claimed: true; runId: string }
+  | { claimed: false; runId: string; key: string };
+
+export function getIdempotencyTtlMs(): number {
+  return Number(process.env.IDEMPOTENCY_TTL_MS) || DEFAULT_TTL_MS;
+}
+
+export class IdempotencyLedger {
+  constructor(private readonly getDb: () => Client = getDatabase) {}
+
+  private async db(): Promise<Client> {
+    const db = this.getDb();
+    await ensureSchema(db, "idempotency_ledger", SCHEMA);
+    return db;
+  }
+
+  /**
+   * Claims all keys for runId in one transaction. If any key is already held by
+   * an unexpired entry, nothing is written and the original run id is returned.
+   */
+  async claim(keys: string[], runId: string, ttlMs: number = getIdempotencyTtlMs()): Promise<ClaimResult> {
+    const db = await this.db();
+    const now = Date.now();
+    const tx = await db.transaction("write");
+    try {
+      await tx.execute({ sql: "DELETE FROM idempotency_ledger WHERE expires_at <= ?", args: [now] });
+
+      const placeholders = keys.map(() => "?").join(", ");
+      const existing = await tx.execute({
+        sql: `SELECT key, run_id FROM idempotency_ledger WHERE key IN (${placeholders}) ORDER BY created_at LIMIT 1`,
+        args: keys,
+      });
+      if (existing.rows[0]) {
+        await tx.commit();
+        return { claimed: false, runId: String(existing.rows[0].run_id), key: String(existing.rows[0].key) };
+      }
+
+      await this.write(tx, keys, runId, now, ttlMs);
+      await tx.commit();
+      return { claimed: true, runId };
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+
+  /**
+   * Points keys at a new run regardless of existing entries (admin re-run)
+   */
+  async overwrite(keys: string[], runId: string, ttlMs: number = getIdempotencyTtlMs()): Promise<void> {
+    const db = await this.db();
+    const tx = await db.transaction("write");
+    try {
+      await this.write(tx, keys, runId, Date.now(), ttlMs);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+
+  /**
+   * Removes keys held by runId, e.g. when the run could not be queued
+   */
+  async release(keys: string[], runId: string): Promise<void> {
+    const db = await this.db();
+    const placeholders = keys.map(() => "?").join(", ");
+    await db.execute({
+      sql: `DELETE FROM idempotency_ledger WHERE run_id = ? AND key IN (${placeholders})`,
+      args: [runId, ...keys],
+    });
+  }
+
+  private async write(
+    tx: { execute: Client["execute"] },
+    keys: string[],
+    runId: string,
+    now: number,
+    ttlMs: number
+  ): Promise<void> {
+    for (const key of keys) {
+      await tx.execute({
+        sql: `INSERT INTO idempotency_ledger (key, run_id, created_at, expires_at) VALUES (?, ?, ?, ?)
+              ON CONFLICT(key) DO UPDATE SET run_id = excluded.run_id, created_at = excluded.created_at, expires_at = excluded.expires_at`,
+        args: [key, runId, new Date(now).toISOString(), now + ttlMs],
+      });
+    }
+  }
+}
+
+export const idempotencyLedger = new IdempotencyLedger();
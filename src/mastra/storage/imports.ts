@@ -0,0 +1,313 @@
+import { randomUUID } from "node:crypto";
+import type { Client, InValue, Row } from "@libsql/client";
+import type { FeatureRequestInput } from "../domain/feature-request";
+import { ensureSchema, getDatabase } from "./database";
+
+/**
+ * Import Store
+ *
+ * Batch imports of historical submissions and the state of every row, so an
+ * interrupted import picks up where it stopped. Rows move through:
+ *
+ *   pending -> processing -> created | duplicate | awaiting_review | failed
+ *
+ * and rows that cannot be processed at all are stored as skipped (e.g. a
+ * beta signup form) or failed (e.g. no feature description). A row stuck in
+ * "processing" past its lock (the importer died) becomes claimable again.
+ */
+
+export const IMPORT_ROW_STATUSES = [
+  "pending",
+  "processing",
+  "created",
+  "duplicate",
+  "awaiting_review",
+  "skipped",
+  "failed",
+] as const;
+
+export type ImportRowStatus = (typeof IMPORT_ROW_STATUSES)[number];
+
+export type ImportStatus = "running" | "completed";
+
+export interface ImportRecord {
+  id: string;
+  // File name or other label for the report
+  source: string;
+  format: string;
+  formId?: string;
+  status: ImportStatus;
+  totalRows: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface ImportRow {
+  importId: string;
+  rowNumber: number;
+  externalId?: string;
+  status: ImportRowStatus;
+  input?: FeatureRequestInput;
+  idempotencyKeys: string[];
+  runId?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+export type NewImportRow = Pick<ImportRow, "rowNumber" | "externalId" | "input" | "error"> & {
+  status: "pending" | "skipped" | "failed";
+  idempotencyKeys?: string[];
+};
+
+export interface ImportRowOutcome {
+  status: Exclude<ImportRowStatus, "pending" | "processing">;
+  runId?: string;
+  error?: string;
+}
+
+export interface ImportSummary extends ImportRecord {
+  counts: Record<ImportRowStatus, number>;
+  // Rows that failed or were skipped, with the reason
+  problems: Array<Pick<ImportRow, "rowNumber" | "externalId" | "status" | "runId" | "error">>;
+}
+
+// Longer than the slowest workflow run, like the job queue's lock
+const LOCK_DURATION_MS = 10 * 60_000;
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS imports (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    format TEXT NOT NULL,
+    form_id TEXT,
+    status TEXT NOT NULL,
+    total_rows INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS import_rows (
+    import_id TEXT NOT NULL,
+    row_number INTEGER NOT NULL,
+    external_id TEXT,
+    status TEXT NOT NULL,
+    input TEXT,
+    idempotency_keys TEXT NOT NULL,
+    run_id TEXT,
+    error TEXT,
+    locked_until INTEGER,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (import_id, row_number)
+  )`,
+  `CREATE INDEX IF NOT EXISTS import_rows_status_idx ON import_rows (import_id, status)`,
+];
+
+// Rows inserted per statement batch when an import is created
+const INSERT_BATCH_SIZE = 200;
+
+function toImportRecord(row: Row): ImportRecord {
+  return {
+    id: String(row.id),
+    source: String(row.source),
+    format: String(row.format),
+    formId: row.form_id ? String(row.form_id) : undefined,
+    status: row.status as ImportStatus,
+    totalRows: Number(row.total_rows),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+    completedAt: row.completed_at ? String(row.completed_at) : undefined,
+  };
+}
+
+function toImportRow(row: Row): ImportRow {
+  return {
+    importId: String(row.import_id),
+    rowNumber: Number(row.row_number),
+    externalId: row.external_id ? String(row.external_id) : undefined,
+    status: row.status as ImportRowStatus,
+    input: row.input ? JSON.parse(String(row.input)) : undefined,
+    idempotencyKeys: JSON.parse(String(row.idempotency_keys)),
+    runId: row.run_id ? String(row.run_id) : undefined,
+    error: row.error ? String(row.error) : undefined,
+    updatedAt: String(row.updated_at),
+  };
+}
+
+export class ImportStore {
+  constructor(private readonly getDb: () => Client = getDatabase) {}
+
+  private async db(): Promise<Client> {
+    const db = this.getDb();
+    await ensureSchema(db, "imports", SCHEMA);
+    return db;
+  }
+
+  async create(
+    details: Pick<ImportRecord, "source" | "format" | "formId">,
+    rows: NewImportRow[]
+  ): Promise<ImportRecord> {
+    const db = await this.db();
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    const tx = await db.transaction("write");
+    try {
+      await tx.execute({
+        sql: `INSERT INTO imports (id, source, format, form_id, status, total_rows, created_at, updated_at)
+              VALUES (?, ?, ?, ?, 'running', ?, ?, ?)`,
+        args: [id, details.source, details.format, details.formId ?? null, rows.length, now, now],
+      });
+      for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+        const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+        const args: InValue[] = [];
+        for (const row of batch) {
+          args.push(
+            id,
+            row.rowNumber,
+            row.externalId ?? null,
+            row.status,
+            row.input ? JSON.stringify(row.input) : null,
+            JSON.stringify(row.idempotencyKeys ?? []),
+            row.error ?? null,
+            now
+          );
+        }
+        await tx.execute({
+          sql: `INSERT INTO import_rows
+                  (import_id, row_number, external_id, status, input, idempotency_keys, error, updated_at)
+                VALUES ${batch.map(() => "(?, ?, ?, ?, ?, ?, ?, ?)").join(", ")}`,
+          args,
+        });
+      }
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    } finally {
+      tx.close();
+    }
+
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<ImportRecord | null> {
+    const db = await this.db();
+    const result = await db.execute({ sql: "SELECT * FROM imports WHERE id = ?", args: [id] });
+    return result.rows[0] ? toImportRecord(result.rows[0]) : null;
+  }
+
+  /**
+   * Atomically claims the next row to process, or returns null when none is left
+   */
+  async claimNextRow(importId: string): Promise<ImportRow | null> {
+    const db = await this.db();
+    const now = Date.now();
+    const result = await db.execute({
+      sql: `UPDATE import_rows
+            SET status = 'processing', locked_until = ?, updated_at = ?
+            WHERE import_id = ? AND row_number = (
+              SELECT row_number FROM import_rows
+              WHERE import_id = ?
+                AND (status = 'pending' OR (status = 'processing' AND locked_until < ?))
+              ORDER BY row_number
+              LIMIT 1
+            )
+            RETURNING *`,
+      args: [now + LOCK_DURATION_MS, new Date(now).toISOString(), importId, importId, now],
+    });
+    return result.rows[0] ? toImportRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Records a row's outcome. redactedInput replaces the stored input, so the
+   * raw submission is not kept after the row has run; a failed row retried
+   * later runs on the redacted input.
+   */
+  async finishRow(
+    importId: string,
+    rowNumber: number,
+    outcome: ImportRowOutcome,
+    redactedInput?: FeatureRequestInput
+  ): Promise<void> {
+    const db = await this.db();
+    await db.execute({
+      sql: `UPDATE import_rows
+            SET status = ?, run_id = ?, error = ?, input = COALESCE(?, input), locked_until = NULL, updated_at = ?
+            WHERE import_id = ? AND row_number = ?`,
+      args: [
+        outcome.status,
+        outcome.runId ?? null,
+        outcome.error ?? null,
+        redactedInput ? JSON.stringify(redactedInput) : null,
+        new Date().toISOString(),
+        importId,
+        rowNumber,
+      ],
+    });
+  }
+
+  /**
+   * Remembers the run a row is being processed by, so a resumed import can
+   * recognise the row's own idempotency keys
+   */
+  async setRowRun(importId: string, rowNumber: number, runId: string): Promise<void> {
+    const db = await this.db();
+    await db.execute({
+      sql: "UPDATE import_rows SET run_id = ?, updated_at = ? WHERE import_id = ? AND row_number = ?",
+      args: [runId, new Date().toISOString(), importId, rowNumber],
+    });
+  }
+
+  /**
+   * Puts failed rows back in the queue (rows that never had input stay failed)
+   */
+  async retryFailedRows(importId: string): Promise<number> {
+    const db = await this.db();
+    const result = await db.execute({
+      sql: `UPDATE import_rows SET status = 'pending', error = NULL, updated_at = ?
+            WHERE import_id = ? AND status = 'failed' AND input IS NOT NULL`,
+      args: [new Date().toISOString(), importId],
+    });
+    return result.rowsAffected;
+  }
+
+  async setStatus(id: string, status: ImportStatus): Promise<void> {
+    const db = await this.db();
+    const now = new Date().toISOString();
+    await db.execute({
+      sql: "UPDATE imports SET status = ?, updated_at = ?, completed_at = ? WHERE id = ?",
+      args: [status, now, status === "completed" ? now : null, id],
+    });
+  }
+
+  async summary(id: string): Promise<ImportSummary | null> {
+    const record = await this.get(id);
+    if (!record) {
+      return null;
+    }
+
+    const db = await this.db();
+    const counts = Object.fromEntries(IMPORT_ROW_STATUSES.map((status) => [status, 0])) as Record<ImportRowStatus, number>;
+    const countResult = await db.execute({
+      sql: "SELECT status, COUNT(*) AS count FROM import_rows WHERE import_id = ? GROUP BY status",
+      args: [id],
+    });
+    for (const row of countResult.rows) {
+      counts[row.status as ImportRowStatus] = Number(row.count);
+    }
+
+    const problemResult = await db.execute({
+      sql: `SELECT * FROM import_rows WHERE import_id = ? AND status IN ('failed', 'skipped') ORDER BY row_number`,
+      args: [id],
+    });
+    const problems = problemResult.rows.map((row) => {
+      const { rowNumber, externalId, status, runId, error } = toImportRow(row);
+      return { rowNumber, externalId, status, runId, error };
+    });
+
+    return { ...record, counts, problems };
+  }
+}
+
+export const importStore = new ImportStore();
@@ -0,0 +1,238 @@
+import type { Client, InValue, Row } from "@libsql/client";
+import { ensureSchema, getDatabase } from "./database";
+import type { IssueDraft, ProductArea, RequestType, StoryPriority } from "../domain/feature-request";
+
+/**
+ * Processed Submissions
+ *
+ * One row per featureRequestWorkflow run, keyed by the run id: the submission
+ * after PII redaction (the original is never stored), the generated story and
+ * what happened to it. The workflow updates the row as the run progresses:
+ *
+ *   processing -> awaiting_review -> created | rejected
+ *              \-> awaiting_clarification -> awaiting_review | created
+ *              \-> created | duplicate
+ *              \-> failed (retries exhausted)
+ *
+ * Mastra's workflow snapshots hold the same data, but not in a shape that can
+ * be filtered by category or priority.
+ */
+
+export const SUBMISSION_STATUSES = [
+  "processing",
+  "awaiting_clarification",
+  "awaiting_review",
+  "created",
+  "duplicate",
+  "rejected",
+  "failed",
+] as const;
+
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+export interface ProcessedSubmission {
+  id: string;
+  status: SubmissionStatus;
+  // The redacted workflow input, kept for regeneration
+  input: unknown;
+  sanitizedText?: string;
+  requestType?: RequestType;
+  category?: ProductArea;
+  priority?: StoryPriority;
+  summary?: string;
+  story?: IssueDraft;
+  trackerKey?: string;
+  trackerUrl?: string;
+  error?: string;
+  submittedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProcessedSubmissionUpdate = Partial<Omit<ProcessedSubmission, "id" | "createdAt" | "updatedAt">>;
+
+export interface ProcessedSubmissionFilters {
+  status?: SubmissionStatus;
+  category?: ProductArea;
+  priority?: StoryPriority;
+  requestType?: RequestType;
+  // Inclusive bounds on when the run started (ISO 8601 dates or timestamps)
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS processed_submissions (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    input TEXT,
+    sanitized_text TEXT,
+    request_type TEXT,
+    category TEXT,
+    priority TEXT,
+    summary TEXT,
+    story TEXT,
+    tracker_key TEXT,
+    tracker_url TEXT,
+    error TEXT,
+    submitted_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS processed_submissions_created_idx ON processed_submissions (created_at)`,
+  `CREATE INDEX IF NOT EXISTS processed_submissions_status_idx ON processed_submissions (status, created_at)`,
+];
+
+// Field -> column; JSON columns are serialized on write and parsed on read
+const COLUMNS: Record<Exclude<keyof ProcessedSubmissionUpdate, "status">, { column: string; json?: boolean }> = {
+  input: { column: "input", json: true },
+  sanitizedText: { column: "sanitized_text" },
+  requestType: { column: "request_type" },
+  category: { column: "category" },
+  priority: { column: "priority" },
+  summary: { column: "summary" },
+  story: { column: "story", json: true },
+  trackerKey: { column: "tracker_key" },
+  trackerUrl: { column: "tracker_url" },
+  error: { column: "error" },
+  submittedAt: { column: "submitted_at" },
+};
+
+function optionalString(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function toSubmission(row: Row): ProcessedSubmission {
+  return {
+    id: String(row.id),
+    status: row.status as SubmissionStatus,
+    input: row.input ? JSON.parse(String(row.input)) : undefined,
+    sanitizedText: optionalString(row.sanitized_text),
+    requestType: optionalString(row.request_type) as RequestType | undefined,
+    category: optionalString(row.category) as ProductArea | undefined,
+    priority: optionalString(row.priority) as StoryPriority | undefined,
+    summary: optionalString(row.summary),
+    story: row.story ? JSON.parse(String(row.story)) : undefined,
+    trackerKey: optionalString(row.tracker_key),
+    trackerUrl: optionalString(row.tracker_url),
+    error: optionalString(row.error),
+    submittedAt: optionalString(row.submitted_at),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+export class ProcessedSubmissionStore {
+  constructor(private readonly getDb: () => Client = getDatabase) {}
+
+  private async db(): Promise<Client> {
+    const db = this.getDb();
+    await ensureSchema(db, "processed_submissions", SCHEMA);
+    return db;
+  }
+
+  /**
+   * Creates the row for a run or updates the given fields of an existing one.
+   * Fields left undefined keep their stored value.
+   */
+  async record(id: string, update: ProcessedSubmissionUpdate): Promise<void> {
+    const db = await this.db();
+    const now = new Date().toISOString();
+    const { status, ...rest } = update;
+    const fields = (Object.keys(rest) as Array<keyof typeof rest>).filter((field) => rest[field] !== undefined);
+    const columns = fields.map((field) => COLUMNS[field].column);
+    const values = fields.map((field): InValue =>
+      COLUMNS[field].json ? JSON.stringify(rest[field]) : String(rest[field])
+    );
+    const assignments = [
+      ...(status ? ["status = excluded.status"] : []),
+      ...columns.map((column) => `${column} = excluded.${column}`),
+      "updated_at = excluded.updated_at",
+    ];
+
+    await db.execute({
+      sql: `INSERT INTO processed_submissions (id, status, ${[...columns, "created_at", "updated_at"].join(", ")})
+            VALUES (${new Array(columns.length + 4).fill("?").join(", ")})
+            ON CONFLICT(id) DO UPDATE SET ${assignments.join(", ")}`,
+      args: [id, status ?? "processing", ...values, now, now],
+    });
+  }
+
+  async get(id: string): Promise<ProcessedSubmission | null> {
+    const db = await this.db();
+    const result = await db.execute({ sql: "SELECT * FROM processed_submissions WHERE id = ?", args: [id] });
+    return result.rows[0] ? toSubmission(result.rows[0]) : null;
+  }
+
+  /**
+   * Lists submissions newest first, with the total count for pagination
+   */
+  async list(filters: ProcessedSubmissionFilters = {}): Promise<{ submissions: ProcessedSubmission[]; total: number }> {
+    const db = await this.db();
+    const conditions: string[] = [];
+    const args: InValue[] = [];
+    const equals: Array<[string, string | undefined]> = [
+      ["status", filters.status],
+      ["category", filters.category],
+      ["priority", filters.priority],
+      ["request_type", filters.requestType],
+    ];
+    for (const [column, value] of equals) {
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        args.push(value);
+      }
+    }
+    if (filters.from) {
+      conditions.push("created_at >= ?");
+      args.push(new Date(filters.from).toISOString());
+    }
+    if (filters.to) {
+      // A bare date includes the whole day
+      const to = /^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? `${filters.to}T23:59:59.999Z` : filters.to;
+      conditions.push("created_at <= ?");
+      args.push(new Date(to).toISOString());
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const limit = Math.min(Math.max(1, filters.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const offset = Math.max(0, filters.offset ?? 0);
+    const [rows, count] = await db.batch(
+      [
+        {
+          sql: `SELECT * FROM processed_submissions ${where} ORDER BY created_at DESC, id LIMIT ? OFFSET ?`,
+          args: [...args, limit, offset],
+        },
+        { sql: `SELECT COUNT(*) AS total FROM processed_submissions ${where}`, args },
+      ],
+      "read"
+    );
+
+    return { submissions: rows.rows.map(toSubmission), total: Number(count.rows[0].total) };
+  }
+
+  /**
+   * All feature requests submitted in [from, to), for reporting. Imported
+   * submissions count at their original submission date; failed, rejected and
+   * still-running ones are left out.
+   */
+  async listSubmittedBetween(from: string, to: string): Promise<ProcessedSubmission[]> {
+    const db = await this.db();
+    const result = await db.execute({
+      sql: `SELECT * FROM processed_submissions
+            WHERE COALESCE(submitted_at, created_at) >= ? AND COALESCE(submitted_at, created_at) < ?
+              AND status IN ('awaiting_review', 'created', 'duplicate')
+              AND (request_type IS NULL OR request_type = 'feature')
+            ORDER BY COALESCE(submitted_at, created_at), id`,
+      args: [from, to],
+    });
+    return result.rows.map(toSubmission);
+  }
+}
+
+export const processedSubmissions = new ProcessedSubmissionStore();
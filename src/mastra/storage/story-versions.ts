@@ -0,0 +1,207 @@
+import type { Client, Row } from "@libsql/client";
+import { ensureSchema, getDatabase } from "./database";
+import type { IssueDraft } from "../domain/feature-request";
+
+/**
+ * Story Versions
+ *
+ * Every regeneration of a processed submission's story is kept as a numbered
+ * version with a field-level diff against the version before it. Version 1 is
+ * the story the submission was originally processed with. Exactly one version
+ * per submission is canonical: the one reviewers chose to publish.
+ */
+
+export type StoryDiff = Record<string, { before: unknown; after: unknown }>;
+
+export interface StoryVersion {
+  submissionId: string;
+  version: number;
+  // Workflow run that generated this version
+  runId: string;
+  source: "original" | "regenerated";
+  story: IssueDraft;
+  diff: StoryDiff;
+  canonical: boolean;
+  canonicalBy?: string;
+  canonicalAt?: string;
+  createdAt: string;
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS story_versions (
+    submission_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    run_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    story TEXT NOT NULL,
+    diff TEXT NOT NULL,
+    canonical INTEGER NOT NULL DEFAULT 0,
+    canonical_by TEXT,
+    canonical_at TEXT,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (submission_id, version)
+  )`,
+];
+
+/**
+ * Fields that differ between two drafts. Fields only one draft has (e.g. after
+ * a feature was regenerated as a bug) are included with undefined on the other side.
+ */
+export function diffStories(before: IssueDraft | undefined, after: IssueDraft): StoryDiff {
+  const diff: StoryDiff = {};
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      diff[field] = { before: previous[field], after: next[field] };
+    }
+  }
+  return diff;
+}
+
+function toVersion(row: Row): StoryVersion {
+  return {
+    submissionId: String(row.submission_id),
+    version: Number(row.version),
+    runId: String(row.run_id),
+    source: row.source as StoryVersion["source"],
+    story: JSON.parse(String(row.story)),
+    diff: JSON.parse(String(row.diff)),
+    canonical: Number(row.canonical) === 1,
+    canonicalBy: row.canonical_by ? String(row.canonical_by) : undefined,
+    canonicalAt: row.canonical_at ? String(row.canonical_at) : undefined,
+    createdAt: String(row.created_at),
+  };
+}
+
+export class StoryVersionStore {
+  constructor(private readonly getDb: () => Client = getDatabase) {}
+
+  private async db(): Promise<Client> {
+    const db = this.getDb();
+    await ensureSchema(db, "story_versions", SCHEMA);
+    return db;
+  }
+
+  async list(submissionId: string): Promise<StoryVersion[]> {
+    const db = await this.db();
+    const result = await db.execute({
+      sql: "SELECT * FROM story_versions WHERE submission_id = ? ORDER BY version",
+      args: [submissionId],
+    });
+    return result.rows.map(toVersion);
+  }
+
+  async get(submissionId: string, version: number): Promise<StoryVersion | null> {
+    const db = await this.db();
+    const result = await db.execute({
+      sql: "SELECT * FROM story_versions WHERE submission_id = ? AND version = ?",
+      args: [submissionId, version],
+    });
+    return result.rows[0] ? toVersion(result.rows[0]) : null;
+  }
+
+  /**
+   * Saves a regenerated story as the next version. The first regeneration also
+   * records the original story (if the submission had one) as canonical version 1.
+   */
+  async addRegenerated(
+    submissionId: string,
+    regenerated: { runId: string; story: IssueDraft },
+    original?: { runId: string; story?: IssueDraft }
+  ): Promise<StoryVersion> {
+    const db = await this.db();
+    const now = new Date().toISOString();
+    const tx = await db.transaction("write");
+    try {
+      const latest = await tx.execute({
+        sql: "SELECT * FROM story_versions WHERE submission_id = ? ORDER BY version DESC LIMIT 1",
+        args: [submissionId],
+      });
+      let previous = latest.rows[0] ? toVersion(latest.rows[0]) : undefined;
+
+      if (!previous && original?.story) {
+        previous = {
+          submissionId,
+          version: 1,
+          runId: original.runId,
+          source: "original",
+          story: original.story,
+          diff: {},
+          canonical: true,
+          createdAt: now,
+        };
+        await this.insert(tx, previous);
+      }
+
+      const version: StoryVersion = {
+        submissionId,
+        version: (previous?.version ?? 0) + 1,
+        runId: regenerated.runId,
+        source: "regenerated",
+        story: regenerated.story,
+        diff: diffStories(previous?.story, regenerated.story),
+        canonical: false,
+        createdAt: now,
+      };
+      await this.insert(tx, version);
+      await tx.commit();
+      return version;
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+
+  /**
+   * Makes one version canonical and clears the flag on all others
+   */
+  async setCanonical(submissionId: string, version: number, reviewer: string): Promise<StoryVersion | null> {
+    const db = await this.db();
+    const tx = await db.transaction("write");
+    try {
+      const updated = await tx.execute({
+        sql: `UPDATE story_versions SET canonical = 1, canonical_by = ?, canonical_at = ?
+              WHERE submission_id = ? AND version = ?
+              RETURNING *`,
+        args: [reviewer, new Date().toISOString(), submissionId, version],
+      });
+      if (!updated.rows[0]) {
+        await tx.rollback();
+        return null;
+      }
+      await tx.execute({
+        sql: "UPDATE story_versions SET canonical = 0 WHERE submission_id = ? AND version != ?",
+        args: [submissionId, version],
+      });
+      await tx.commit();
+      return toVersion(updated.rows[0]);
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+
+  private async insert(tx: { execute: Client["execute"] }, version: StoryVersion): Promise<void> {
+    await tx.execute({
+      sql: `INSERT INTO story_versions (submission_id, version, run_id, source, story, diff, canonical, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        version.submissionId,
+        version.version,
+        version.runId,
+        version.source,
+        JSON.stringify(version.story),
+        JSON.stringify(version.diff),
+        version.canonical ? 1 : 0,
+        version.createdAt,
+      ],
+    });
+  }
+}
+
+export const storyVersions = new StoryVersionStore();
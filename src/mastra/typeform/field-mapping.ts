@@ -0,0 +1,245 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { typeformFormsConfig } from "../config/typeform-forms";
+import { normalizeAnswer, type TypedAnswerValue, type TypeformWebhook } from "./payload";
+
+/**
+ * Typeform Field Mapping
+ *
+ * Resolves a form response onto our canonical submission fields using the
+ * per-form definitions in config/typeform-forms.ts.
+ */
+
+export const CANONICAL_FIELDS = [
+  "featureDescription",
+  "usageFrequency",
+  "serviceTypes",
+  "userInterests",
+  "contactEmail",
+] as const;
+
+export type CanonicalField = (typeof CANONICAL_FIELDS)[number];
+
+// Form kinds that are turned into tickets; others (e.g. beta signups) are acknowledged only
+export const PROCESSED_FORM_KINDS = ["feature_request", "bug_report"] as const;
+
+const DEFAULT_TITLE_MIN_SCORE = 0.6;
+
+const fieldMatcherSchema = z.union([
+  z.object({ ref: z.string().min(1) }).strict(),
+  z.object({ id: z.string().min(1) }).strict(),
+  z.object({
+    title: z.string().min(1),
+    minScore: z.number().gt(0).max(1).optional(),
+  }).strict(),
+]);
+
+export type FieldMatcher = z.infer<typeof fieldMatcherSchema>;
+
+const formMappingSchema = z.object({
+  name: z.string().min(1),
+  kind: z.enum(["feature_request", "bug_report", "beta_signup"]),
+  fields: z.partialRecord(z.enum(CANONICAL_FIELDS), z.array(fieldMatcherSchema).min(1)),
+});
+
+export type FormMapping = z.infer<typeof formMappingSchema>;
+
+export const typeformFormsConfigSchema = z.object({
+  version: z.literal(1),
+  defaultForm: formMappingSchema.optional(),
+  forms: z.record(z.string(), formMappingSchema),
+});
+
+export type TypeformFormsConfig = z.infer<typeof typeformFormsConfigSchema>;
+
+export interface FieldMatch {
+  matchedBy: "ref" | "id" | "title";
+  fieldId: string;
+  fieldRef?: string;
+  fieldTitle?: string;
+  score?: number;
+}
+
+export interface TypeformMappingResult {
+  formId: string;
+  form: (Pick<FormMapping, "name" | "kind"> & { source: "form" | "default" }) | null;
+  configVersion: number;
+  values: Partial<Record<CanonicalField, string>>;
+  typedValues: Partial<Record<CanonicalField, TypedAnswerValue>>;
+  matches: Partial<Record<CanonicalField, FieldMatch>>;
+  missing: CanonicalField[];
+  unmappedFields: Array<{ id: string; ref?: string; title?: string }>;
+}
+
+/**
+ * Validates a forms config, throwing one error that lists every problem.
+ * Run at startup so a broken mapping fails the deploy rather than silently
+ * producing empty feature descriptions.
+ */
+export function validateTypeformFormsConfig(raw: unknown): TypeformFormsConfig {
+  const parsed = typeformFormsConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid Typeform forms config:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const problems: string[] = [];
+  const forms: Array<[string, FormMapping]> = Object.entries(parsed.data.forms);
+  if (parsed.data.defaultForm) {
+    forms.push(["defaultForm", parsed.data.defaultForm]);
+  }
+  for (const [formId, form] of forms) {
+    const processed = (PROCESSED_FORM_KINDS as readonly string[]).includes(form.kind);
+    if (processed && !form.fields.featureDescription) {
+      problems.push(`${formId} (${form.name}): ${form.kind} forms must map featureDescription`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid Typeform forms config:\n${problems.join("\n")}`);
+  }
+
+  return parsed.data;
+}
+
+let loadedConfig: TypeformFormsConfig | undefined;
+
+/**
+ * Loads and validates the forms config (TYPEFORM_FORMS_CONFIG JSON file if set)
+ */
+export function loadTypeformFormsConfig(): TypeformFormsConfig {
+  if (!loadedConfig) {
+    const path = process.env.TYPEFORM_FORMS_CONFIG;
+    const raw = path ? JSON.parse(readFileSync(path, "utf8")) : typeformFormsConfig;
+    loadedConfig = validateTypeformFormsConfig(raw);
+  }
+  return loadedConfig;
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\*|_|\{\{[^}]*\}\}/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Similarity of two question titles in [0, 1]: 1 when one contains the other,
+ * otherwise the Dice coefficient of their character bigrams.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right || left.includes(right) || right.includes(left)) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let overlap = 0;
+  for (const [pair, count] of leftPairs) {
+    overlap += Math.min(count, rightPairs.get(pair) || 0);
+  }
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+type DefinitionField = TypeformWebhook["form_response"]["definition"]["fields"][number];
+
+function matchField(
+  matcher: FieldMatcher,
+  fields: DefinitionField[]
+): { field: DefinitionField; match: FieldMatch } | null {
+  if ("ref" in matcher) {
+    const field = fields.find((candidate) => candidate.ref === matcher.ref);
+    return field ? { field, match: { matchedBy: "ref", fieldId: field.id, fieldRef: field.ref, fieldTitle: field.title } } : null;
+  }
+  if ("id" in matcher) {
+    const field = fields.find((candidate) => candidate.id === matcher.id);
+    return field ? { field, match: { matchedBy: "id", fieldId: field.id, fieldRef: field.ref, fieldTitle: field.title } } : null;
+  }
+
+  const minScore = matcher.minScore ?? DEFAULT_TITLE_MIN_SCORE;
+  let best: { field: DefinitionField; score: number } | null = null;
+  for (const field of fields) {
+    const score = titleSimilarity(matcher.title, field.title);
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { field, score };
+    }
+  }
+  return best
+    ? {
+        field: best.field,
+        match: { matchedBy: "title", fieldId: best.field.id, fieldRef: best.field.ref, fieldTitle: best.field.title, score: best.score },
+      }
+    : null;
+}
+
+/**
+ * Maps a Typeform response onto canonical fields using its form's definition
+ */
+export function mapTypeformResponse(
+  payload: TypeformWebhook,
+  config: TypeformFormsConfig = loadTypeformFormsConfig()
+): TypeformMappingResult {
+  const { form_id: formId, definition, answers } = payload.form_response;
+  const configured = config.forms[formId];
+  const form = configured ?? config.defaultForm;
+
+  const result: TypeformMappingResult = {
+    formId,
+    form: form ? { name: form.name, kind: form.kind, source: configured ? "form" : "default" } : null,
+    configVersion: config.version,
+    values: {},
+    typedValues: {},
+    matches: {},
+    missing: [],
+    unmappedFields: [],
+  };
+  if (!form) {
+    return result;
+  }
+
+  // Answers reference fields by id; the definition also carries ref and title
+  const definitionFields: DefinitionField[] = [...definition.fields];
+  for (const answer of answers) {
+    if (!definitionFields.some((field) => field.id === answer.field.id)) {
+      definitionFields.push({ ...answer.field, title: "" });
+    }
+  }
+
+  const usedFieldIds = new Set<string>();
+  for (const canonical of CANONICAL_FIELDS) {
+    const matchers = form.fields[canonical];
+    if (!matchers) continue;
+
+    for (const matcher of matchers) {
+      const found = matchField(matcher, definitionFields);
+      const answer = found && answers.find((candidate) => candidate.field.id === found.field.id);
+      const normalized = answer ? normalizeAnswer(answer) : null;
+      if (found && normalized?.text) {
+        result.values[canonical] = normalized.text;
+        result.typedValues[canonical] = normalized.typed;
+        result.matches[canonical] = found.match;
+        usedFieldIds.add(found.field.id);
+        break;
+      }
+    }
+
+    if (!result.values[canonical]) {
+      result.missing.push(canonical);
+    }
+  }
+
+  result.unmappedFields = definitionFields
+    .filter((field) => !usedFieldIds.has(field.id) && answers.some((answer) => answer.field.id === field.id))
+    .map(({ id, ref, title }) => ({ id, ref, title: title || undefined }));
+
+  return result;
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+
+/**
+ * Typeform Webhook Response Schema
+ * 
+ * This schema represents the structure of incoming Typeform webhook payloads.
+ * Typeform sends form responses as JSON with this structure.
+ */
+export const typeformAnswerSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+  email: z.string().optional(),
+  url: z.string().optional(),
+  file_url: z.string().optional(),
+  phone_number: z.string().optional(),
+  // Also used by opinion_scale and rating questions
+  number: z.number().optional(),
+  boolean: z.boolean().optional(),
+  // YYYY-MM-DD
+  date: z.string().optional(),
+  // "other" is set instead of label when the respondent typed their own option
+  choice: z.object({
+    id: z.string().optional(),
+    ref: z.string().optional(),
+    label: z.string().optional(),
+    other: z.string().optional(),
+  }).optional(),
+  choices: z.object({
+    ids: z.array(z.string()).optional(),
+    refs: z.array(z.string()).optional(),
+    labels: z.array(z.string()).optional(),
+    other: z.string().optional(),
+  }).optional(),
+  payment: z.object({
+    amount: z.string(),
+    last4: z.string().optional(),
+    name: z.string().optional(),
+    success: z.boolean(),
+  }).optional(),
+  field: z.object({
+    id: z.string(),
+    ref: z.string().optional(),
+    type: z.string(),
+  }),
+});
+
+// Typeform variables (scores, prices, custom variables) set by form logic
+const typeformVariableSchema = z.object({
+  key: z.string(),
+  type: z.string(),
+  text: z.string().optional(),
+  number: z.number().optional(),
+});
+
+export const typeformWebhookSchema = z.object({
+  event_id: z.string(),
+  event_type: z.string(),
+  form_response: z.object({
+    form_id: z.string(),
+    token: z.string(),
+    landed_at: z.string(),
+    submitted_at: z.string(),
+    definition: z.object({
+      id: z.string(),
+      title: z.string(),
+      fields: z.array(z.object({
+        id: z.string(),
+        ref: z.string().optional(),
+        type: z.string(),
+        title: z.string(),
+      })),
+    }),
+    answers: z.array(typeformAnswerSchema),
+    // Hidden fields are passed in the form URL, e.g. ?account_id=...&plan_tier=...
+    hidden: z.record(z.string(), z.string()).optional(),
+    variables: z.array(typeformVariableSchema).optional(),
+  }),
+});
+
+export type TypeformWebhook = z.infer<typeof typeformWebhookSchema>;
+
+export type TypeformAnswer = z.infer<typeof typeformAnswerSchema>;
+
+/**
+ * An answer reduced to a typed value. Payments keep only the amount and
+ * outcome; the cardholder name and card digits are never read.
+ */
+export type TypedAnswerValue =
+  | { kind: "text"; value: string }
+  | { kind: "email"; value: string }
+  | { kind: "url"; value: string }
+  | { kind: "file"; value: string }
+  | { kind: "phone"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "date"; value: string }
+  | { kind: "choice"; value: string; other: boolean }
+  | { kind: "choices"; value: string[]; other?: string }
+  | { kind: "payment"; value: { amount: string; success: boolean } }
+  | { kind: "empty"; value: null };
+
+export interface NormalizedAnswer {
+  fieldId: string;
+  fieldRef?: string;
+  // Question type, e.g. "opinion_scale" or "rating" for number answers
+  fieldType: string;
+  typed: TypedAnswerValue;
+  // Human-readable rendering used for mapping and prompts
+  text: string;
+}
+
+function toTypedValue(answer: TypeformAnswer): TypedAnswerValue {
+  switch (answer.type) {
+    case "text":
+      return answer.text !== undefined ? { kind: "text", value: answer.text } : { kind: "empty", value: null };
+    case "email":
+      return answer.email !== undefined ? { kind: "email", value: answer.email } : { kind: "empty", value: null };
+    case "url":
+      return answer.url !== undefined ? { kind: "url", value: answer.url } : { kind: "empty", value: null };
+    case "file_url":
+      return answer.file_url !== undefined ? { kind: "file", value: answer.file_url } : { kind: "empty", value: null };
+    case "phone_number":
+      return answer.phone_number !== undefined ? { kind: "phone", value: answer.phone_number } : { kind: "empty", value: null };
+    case "number":
+      return answer.number !== undefined ? { kind: "number", value: answer.number } : { kind: "empty", value: null };
+    case "boolean":
+      return answer.boolean !== undefined ? { kind: "boolean", value: answer.boolean } : { kind: "empty", value: null };
+    case "date":
+      return answer.date !== undefined ? { kind: "date", value: answer.date } : { kind: "empty", value: null };
+    case "choice": {
+      const value = answer.choice?.label ?? answer.choice?.other;
+      return value !== undefined
+        ? { kind: "choice", value, other: answer.choice?.label === undefined }
+        : { kind: "empty", value: null };
+    }
+    case "choices":
+      return answer.choices
+        ? { kind: "choices", value: answer.choices.labels || [], other: answer.choices.other }
+        : { kind: "empty", value: null };
+    case "payment":
+      return answer.payment
+        ? { kind: "payment", value: { amount: answer.payment.amount, success: answer.payment.success } }
+        : { kind: "empty", value: null };
+    default:
+      // Unknown answer type: fall back to whichever text-like value is present
+      if (answer.text !== undefined) return { kind: "text", value: answer.text };
+      return { kind: "empty", value: null };
+  }
+}
+
+function formatTypedValue(typed: TypedAnswerValue): string {
+  switch (typed.kind) {
+    case "number":
+      return String(typed.value);
+    case "boolean":
+      return typed.value ? "Yes" : "No";
+    case "choices":
+      return [...typed.value, ...(typed.other ? [typed.other] : [])].join(", ");
+    case "payment":
+      return `${typed.value.amount} (${typed.value.success ? "paid" : "payment failed"})`;
+    case "empty":
+      return "";
+    default:
+      return typed.value;
+  }
+}
+
+/**
+ * Converts a Typeform answer into a typed value plus display text
+ */
+export function normalizeAnswer(answer: TypeformAnswer): NormalizedAnswer {
+  const typed = toTypedValue(answer);
+  return {
+    fieldId: answer.field.id,
+    fieldRef: answer.field.ref,
+    fieldType: answer.field.type,
+    typed,
+    text: formatTypedValue(typed),
+  };
+}
+
+/**
+ * Extracts answer text from a Typeform answer object
+ */
+export function getAnswerValue(answer: TypeformAnswer): string {
+  return normalizeAnswer(answer).text;
+}
+
+export interface TypeformSubmissionContext {
+  hiddenFields?: Record<string, string>;
+  variables?: Record<string, string | number>;
+}
+
+/**
+ * Collects hidden fields (account ID, plan tier, app version, ...) and
+ * variables from a response. Empty hidden fields are dropped.
+ */
+export function getSubmissionContext(payload: TypeformWebhook): TypeformSubmissionContext {
+  const { hidden, variables } = payload.form_response;
+  const context: TypeformSubmissionContext = {};
+
+  const hiddenFields = Object.fromEntries(
+    Object.entries(hidden || {}).filter(([, value]) => value.trim() !== "")
+  );
+  if (Object.keys(hiddenFields).length > 0) {
+    context.hiddenFields = hiddenFields;
+  }
+
+  const variableValues: Record<string, string | number> = {};
+  for (const variable of variables || []) {
+    const value = variable.type === "number" ? variable.number : variable.text;
+    if (value !== undefined) {
+      variableValues[variable.key] = value;
+    }
+  }
+  if (Object.keys(variableValues).length > 0) {
+    context.variables = variableValues;
+  }
+
+  return context;
+}
@@ -0,0 +1,106 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LibSQLVector } from "@mastra/libsql";
+import { addVoteToTheme, createTheme, findDuplicateTheme, linkThemeToIssue } from "./feature-request-index";
+
+// Unit vectors along one axis: requests on the same axis are duplicates, others are unrelated
+function embeddingOnAxis(axis: number): number[] {
+  const embedding = new Array(Number(process.env.EMBEDDING_DIMENSION) || 1536).fill(0);
+  embedding[axis] = 1;
+  return embedding;
+}
+
+describe("feature request themes", () => {
+  const directory = mkdtempSync(join(tmpdir(), "feature-request-index-"));
+  const vectorStore = new LibSQLVector({ connectionUrl: `file:${join(directory, "vectors.db")}` });
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  test("records a theme when first seen and links its ticket after review", async () => {
+    const embedding = embeddingOnAxis(0);
+    const created = await createTheme(vectorStore, {
+      themeId: "run-first",
+      summary: "Let me send reminders in Spanish",
+      description: "Let me send reminders in Spanish",
+      usageFrequency: "Daily",
+      embedding,
+    });
+    assert.equal(created.issueKey, undefined);
+
+    // A near-duplicate arriving while the first request is in review joins its theme
+    const match = await findDuplicateTheme(vectorStore, embedding);
+    assert.equal(match?.theme.themeId, "run-first");
+    await addVoteToTheme(vectorStore, match!.theme, {
+      voteId: "run-second",
+      description: "Spanish reminders please",
+      usageFrequency: "Weekly",
+      embedding,
+    });
+
+    // A retried first run keeps the theme and its votes
+    const retried = await createTheme(vectorStore, {
+      themeId: "run-first",
+      summary: "Let me send reminders in Spanish",
+      description: "Let me send reminders in Spanish",
+      usageFrequency: "Daily",
+      embedding,
+    });
+    assert.equal(retried.voteCount, 2);
+
+    const linked = await linkThemeToIssue(vectorStore, {
+      themeId: "run-first",
+      summary: "[Messaging] - Send appointment reminders in Spanish",
+      issueKey: "FR-1",
+      issueUrl: "https://tracker.example/FR-1",
+      description: "Let me send reminders in Spanish",
+      embedding,
+    });
+    assert.equal(linked.issueKey, "FR-1");
+    assert.equal(linked.voteCount, 2);
+    assert.deepEqual(linked.usageFrequencies, { Daily: 1, Weekly: 1 });
+
+    assert.equal((await findDuplicateTheme(vectorStore, embedding))?.theme.issueKey, "FR-1");
+    assert.equal(await findDuplicateTheme(vectorStore, embeddingOnAxis(1)), null);
+  });
+
+  test("counts every concurrent vote on a theme once", async () => {
+    const embedding = embeddingOnAxis(2);
+    const theme = await createTheme(vectorStore, {
+      themeId: "run-theme",
+      summary: "Online booking deposits",
+      description: "Online booking deposits",
+      serviceTypes: "Hair",
+      planTier: "Pro",
+      embedding,
+    });
+
+    const voters = ["Hair, Nails", "Nails", "Lashes", "Hair"];
+    await Promise.all([
+      ...voters.map((serviceTypes, index) =>
+        addVoteToTheme(vectorStore, theme, {
+          voteId: `run-vote-${index}`,
+          description: "Deposits when clients book online",
+          serviceTypes,
+          planTier: "Pro",
+          embedding,
+        })
+      ),
+      // A retried voter is counted once
+      addVoteToTheme(vectorStore, theme, {
+        voteId: "run-vote-0",
+        description: "Deposits when clients book online",
+        serviceTypes: "Hair, Nails",
+        planTier: "Pro",
+        embedding,
+      }),
+    ]);
+
+    const match = await findDuplicateTheme(vectorStore, embedding);
+    assert.equal(match?.theme.voteCount, 5);
+    assert.deepEqual(match?.theme.serviceTypes, { Hair: 3, Nails: 2, Lashes: 1 });
+    assert.deepEqual(match?.theme.planTiers, { Pro: 5 });
+  });
+});
@@ -0,0 +1,340 @@
+import { ModelRouterEmbeddingModel } from "@mastra/core/llm";
+import type { MastraVector } from "@mastra/core/vector";
+import { LibSQLVector } from "@mastra/libsql";
+import type { PriorityFactors } from "../domain/feature-request";
+import { databaseConfigFromEnv } from "../storage/database";
+
+/**
+ * Feature Request Vector Index
+ *
+ * Every processed request is embedded (sanitized description only) and stored
+ * in a LibSQL vector index. Requests are grouped into "themes": the first
+ * request on a topic creates the theme entry as soon as it is seen, later
+ * near-duplicates are stored as votes pointing at it, and the theme is linked
+ * to its ticket once the request has been reviewed and published. Votes are
+ * keyed by run id, so a retried run overwrites its own vote. A vote is a single
+ * upsert that never rewrites the theme: its answers are stored on the vote and
+ * the theme's counts are summed from its votes whenever the theme is loaded, so
+ * concurrent votes cannot overwrite each other's counts.
+ */
+
+export const FEATURE_REQUEST_INDEX = "feature_requests";
+
+// Dimension of openai/text-embedding-3-small; change together with EMBEDDING_MODEL
+const EMBEDDING_DIMENSION = Number(process.env.EMBEDDING_DIMENSION) || 1536;
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.88;
+
+// Upper bound when listing a theme's votes; far above any real theme
+const MAX_THEME_VOTES = 10_000;
+
+// Shares the application database, so themes live alongside the submissions they group
+const { url: connectionUrl, authToken } = databaseConfigFromEnv();
+export const featureRequestVector = new LibSQLVector({ connectionUrl, authToken });
+
+export interface ThemeMetadata {
+  kind: "theme";
+  themeId: string;
+  summary: string;
+  issueKey?: string;
+  // Absent on themes stored before ticket links were recorded
+  issueUrl?: string;
+  // Loaded themes count every vote; the stored entry holds the theme's own answers
+  // (plus those of votes stored before votes kept their answers)
+  voteCount: number;
+  serviceTypes: Record<string, number>;
+  usageFrequencies: Record<string, number>;
+  // Absent on themes stored before plan tiers and priority factors were recorded
+  planTiers?: Record<string, number>;
+  priorityFactors?: PriorityFactors;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VoteMetadata {
+  kind: "vote";
+  themeId: string;
+  // Absent on votes stored before votes kept their answers; those are counted in the theme entry
+  serviceTypes?: string;
+  usageFrequency?: string;
+  planTier?: string;
+  createdAt: string;
+}
+
+export interface SubmissionSignals {
+  description: string;
+  serviceTypes?: string;
+  usageFrequency?: string;
+  planTier?: string;
+}
+
+export interface VoteResult {
+  theme: ThemeMetadata;
+  // False when this vote was already recorded (e.g. a retried run); nothing was re-counted
+  newVote: boolean;
+}
+
+export interface ThemeMatch {
+  theme: ThemeMetadata;
+  similarity: number;
+}
+
+export interface TextEmbedder {
+  doEmbed(args: { values: string[] }): Promise<{ embeddings: number[][] }>;
+}
+
+let embeddingModel: TextEmbedder | undefined;
+
+/**
+ * Returns the embedding model, configured by EMBEDDING_MODEL
+ */
+export function getEmbeddingModel(): TextEmbedder {
+  if (!embeddingModel) {
+    embeddingModel = new ModelRouterEmbeddingModel(
+      process.env.EMBEDDING_MODEL || "openai/text-embedding-3-small"
+    );
+  }
+  return embeddingModel;
+}
+
+/**
+ * Overrides the embedding model (e.g. with a deterministic model in local scripts)
+ */
+export function setEmbeddingModel(model: TextEmbedder): void {
+  embeddingModel = model;
+}
+
+export function getSimilarityThreshold(): number {
+  const configured = Number(process.env.DUPLICATE_SIMILARITY_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const { embeddings } = await getEmbeddingModel().doEmbed({ values: [text] });
+  return embeddings[0];
+}
+
+let indexReady: Promise<void> | undefined;
+
+async function ensureIndex(vectorStore: MastraVector): Promise<void> {
+  if (!indexReady) {
+    indexReady = vectorStore
+      .createIndex({ indexName: FEATURE_REQUEST_INDEX, dimension: EMBEDDING_DIMENSION, metric: "cosine" })
+      .catch((error) => {
+        indexReady = undefined;
+        throw error;
+      });
+  }
+  return indexReady;
+}
+
+/**
+ * Splits a comma-separated answer ("Hair, Nails") into counted values
+ */
+function addCounts(counts: Record<string, number>, value: string | undefined): Record<string, number> {
+  const next = { ...counts };
+  for (const item of (value || "").split(",").map((part) => part.trim()).filter(Boolean)) {
+    next[item] = (next[item] || 0) + 1;
+  }
+  return next;
+}
+
+/**
+ * Loads a theme entry by id as stored, without its votes. The store has no
+ * get-by-id, so this queries with any vector and lets the filter select the
+ * single matching entry.
+ */
+async function loadStoredTheme(
+  vectorStore: MastraVector,
+  themeId: string,
+  queryVector: number[]
+): Promise<ThemeMetadata | null> {
+  const [entry] = await vectorStore.query({
+    indexName: FEATURE_REQUEST_INDEX,
+    queryVector,
+    topK: 1,
+    filter: { kind: "theme", themeId },
+  });
+  return (entry?.metadata as ThemeMetadata | undefined) ?? null;
+}
+
+/**
+ * The votes stored for a theme, keyed by vote id. Like loadStoredTheme, this
+ * queries with any vector and lets the filter select the entries.
+ */
+async function listVotes(
+  vectorStore: MastraVector,
+  themeId: string,
+  queryVector: number[]
+): Promise<Map<string, VoteMetadata>> {
+  const votes = await vectorStore.query({
+    indexName: FEATURE_REQUEST_INDEX,
+    queryVector,
+    topK: MAX_THEME_VOTES,
+    filter: { kind: "vote", themeId },
+  });
+  return new Map(votes.map((vote) => [String(vote.id), vote.metadata as VoteMetadata]));
+}
+
+/**
+ * Adds the theme's votes to its stored counts. The vote count is the theme's
+ * own request plus its unique stored votes.
+ */
+function withVotes(theme: ThemeMetadata, votes: Map<string, VoteMetadata>): ThemeMetadata {
+  let { serviceTypes, usageFrequencies } = theme;
+  let planTiers = theme.planTiers ?? {};
+  for (const vote of votes.values()) {
+    serviceTypes = addCounts(serviceTypes, vote.serviceTypes);
+    usageFrequencies = addCounts(usageFrequencies, vote.usageFrequency);
+    planTiers = addCounts(planTiers, vote.planTier);
+  }
+  return { ...theme, voteCount: 1 + votes.size, serviceTypes, usageFrequencies, planTiers };
+}
+
+/**
+ * Loads a theme by id with the counts of all its votes
+ */
+async function loadTheme(
+  vectorStore: MastraVector,
+  themeId: string,
+  queryVector: number[]
+): Promise<ThemeMetadata | null> {
+  const theme = await loadStoredTheme(vectorStore, themeId, queryVector);
+  return theme && withVotes(theme, await listVotes(vectorStore, themeId, queryVector));
+}
+
+/**
+ * Finds the theme most similar to an embedding, if it clears the threshold
+ */
+export async function findDuplicateTheme(
+  vectorStore: MastraVector,
+  embedding: number[],
+  threshold: number = getSimilarityThreshold()
+): Promise<ThemeMatch | null> {
+  await ensureIndex(vectorStore);
+
+  const [best] = await vectorStore.query({
+    indexName: FEATURE_REQUEST_INDEX,
+    queryVector: embedding,
+    topK: 1,
+  });
+  if (!best || best.score < threshold) {
+    return null;
+  }
+
+  const { themeId } = best.metadata as ThemeMetadata | VoteMetadata;
+  const theme = await loadTheme(vectorStore, themeId, embedding);
+  return theme ? { theme, similarity: best.score } : null;
+}
+
+type ThemeParams = SubmissionSignals & {
+  themeId: string;
+  summary: string;
+  issueKey?: string;
+  issueUrl?: string;
+  priorityFactors?: PriorityFactors;
+  embedding?: number[];
+};
+
+/**
+ * Stores a new request as the first entry of a new theme. A theme that already
+ * exists (e.g. created by an earlier attempt of the same run) is returned as is.
+ */
+export async function createTheme(vectorStore: MastraVector, params: ThemeParams): Promise<ThemeMetadata> {
+  await ensureIndex(vectorStore);
+
+  const embedding = params.embedding ?? (await embedText(params.description));
+  const existing = await loadTheme(vectorStore, params.themeId, embedding);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  const theme: ThemeMetadata = {
+    kind: "theme",
+    themeId: params.themeId,
+    summary: params.summary,
+    issueKey: params.issueKey,
+    issueUrl: params.issueUrl,
+    voteCount: 1,
+    serviceTypes: addCounts({}, params.serviceTypes),
+    usageFrequencies: addCounts({}, params.usageFrequency),
+    planTiers: addCounts({}, params.planTier),
+    priorityFactors: params.priorityFactors,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await vectorStore.upsert({
+    indexName: FEATURE_REQUEST_INDEX,
+    vectors: [embedding],
+    metadata: [theme],
+    ids: [params.themeId],
+  });
+
+  return theme;
+}
+
+/**
+ * Records the reviewed summary and the published ticket on the theme the
+ * request created when it was first seen. Creates the theme if it is missing
+ * (e.g. duplicate detection failed for this request).
+ */
+export async function linkThemeToIssue(vectorStore: MastraVector, params: ThemeParams): Promise<ThemeMetadata> {
+  await ensureIndex(vectorStore);
+
+  const embedding = params.embedding ?? (await embedText(params.description));
+  const theme = await loadStoredTheme(vectorStore, params.themeId, embedding);
+  if (!theme) {
+    return createTheme(vectorStore, { ...params, embedding });
+  }
+
+  // Only the ticket fields change; votes recorded meanwhile are counted on load
+  const updated: ThemeMetadata = {
+    ...theme,
+    summary: params.summary,
+    issueKey: params.issueKey,
+    issueUrl: params.issueUrl,
+    priorityFactors: params.priorityFactors,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await vectorStore.updateVector({
+    indexName: FEATURE_REQUEST_INDEX,
+    id: params.themeId,
+    update: { metadata: updated },
+  });
+
+  return withVotes(updated, await listVotes(vectorStore, params.themeId, embedding));
+}
+
+/**
+ * Stores a near-duplicate request as a vote on a theme and returns the theme
+ * with the vote counted. Only the vote entry is written, so concurrent votes
+ * on the same theme are all counted and a repeated vote id is counted once.
+ */
+export async function addVoteToTheme(
+  vectorStore: MastraVector,
+  theme: ThemeMetadata,
+  params: SubmissionSignals & { voteId: string; embedding: number[] }
+): Promise<VoteResult> {
+  const newVote = !(await listVotes(vectorStore, theme.themeId, params.embedding)).has(params.voteId);
+  const vote: VoteMetadata = {
+    kind: "vote",
+    themeId: theme.themeId,
+    serviceTypes: params.serviceTypes,
+    usageFrequency: params.usageFrequency,
+    planTier: params.planTier,
+    createdAt: new Date().toISOString(),
+  };
+
+  await vectorStore.upsert({
+    indexName: FEATURE_REQUEST_INDEX,
+    vectors: [params.embedding],
+    metadata: [vote],
+    ids: [params.voteId],
+  });
+
+  const updated = await loadTheme(vectorStore, theme.themeId, params.embedding);
+  return { theme: updated ?? theme, newVote };
+}
@@ -1,109 +1,1303 @@
 import { createStep, createWorkflow } from "@mastra/core/workflows";
 import { z } from "zod";
+import {
+  MAX_SUMMARY_LENGTH,
+  bugReportSchema,
+  featureRequestInputSchema,
+  generatedBugReportSchema,
+  generatedJiraStorySchema,
+  issueDraftSchema,
+  jiraStorySchema,
+  parsedSubmissionSchema,
+  productAreaClassificationSchema,
+  productAreaSchema,
+  requestTypeClassificationSchema,
+  submissionClarificationSchema,
+  type IssueDraft,
+  type ParsedSubmission,
+  type ProductArea,
+  type ProductAreaClassification,
+  type RequestTypeClassification,
+  type SubmissionClarification,
+  type SubmissionMetadata,
+} from "../domain/feature-request";
+import {
+  findPiiLeaks,
+  redactText,
+  redactionReportSchema,
+  sanitizeFeatureRequestInput,
+} from "../privacy/pii-sanitizer";
+import { createdIssueSchema, getIssueTracker } from "../integrations/issue-tracker";
+import { notifyIfHighPriority } from "../alerts/high-priority-alerts";
+import { splitAnswer } from "../insights/theme-clustering";
+import { languageDetectionSchema } from "../agents/submission-translator-agent";
+import { clarityAssessmentSchema, type ClarityAssessment } from "../agents/clarity-agent";
+import {
+  CLARIFICATION_STEP_ID,
+  buildClarificationEmail,
+  getClarificationTimeoutMs,
+  getMinClarityScore,
+} from "../clarification/clarifying-questions";
+import { getMailer } from "../integrations/mailer";
+import { ENGLISH, formatOriginalTextAppendix, languageLabel, looksLikeEnglish } from "../i18n/language";
+import { routeClassification, routingDecisionSchema } from "../routing/product-area-routing";
+import {
+  formatPriorityBreakdown,
+  priorityBreakdownSchema,
+  prioritySignalsFor,
+  scorePriority,
+  type PriorityBreakdown,
+} from "../priority/priority-scoring";
+import { getSpreadsheetSink } from "../integrations/spreadsheet";
+import { processedSubmissions, type ProcessedSubmissionUpdate } from "../storage/processed-submissions";
+import { PUBLISH_STEP_ID } from "../queue/feature-request-worker";
+import { storyVersions } from "../storage/story-versions";
+import {
+  addVoteToTheme,
+  createTheme,
+  embedText,
+  findDuplicateTheme,
+  linkThemeToIssue,
+} from "../vectors/feature-request-index";
+import type { Agent } from "@mastra/core/agent";
+import type { CoreMessage } from "@mastra/core/llm";
+import type { Mastra } from "@mastra/core/mastra";
 
-const formInputSchema = z.object({
-    text: z.string().describe("The whole Typeform response as a text string"),
-  });
+// How the draft was produced; fallback means some fields are defaults, not model output
+const storyGenerationSchema = z.object({
+  attempts: z.number().describe("Model calls made, including repair attempts"),
+  repaired: z.boolean().describe("Whether the first response failed validation"),
+  fallback: z.boolean().describe("Whether any field was filled with a default after repairs ran out"),
+  defaultedFields: z.array(z.string()).describe("Fields filled with defaults"),
+  validationErrors: z.array(z.string()).describe("Validation errors from each failed attempt"),
+});
 
-const jiraStoryOutputSchema = z.object({
-  summary: z.string().describe("Short Jira ticket title / summary"),
-  description: z.string().describe("The description of the Jira story"),
-  acceptanceCriteria: z.string().describe("The acceptance criteria of the Jira story"),
-  noteForQA: z.string().describe("A note for the QA team to test the story"),
-  storyPoints: z.number().describe("The story points of the Jira story"),
-  // Highest priority is 1, lowest priority is 5
-  priority: z.enum(["1", "2", "3", "4", "5"]).describe("The priority of the Jira story"),
+const generatedStorySchema = z.object({
+  story: issueDraftSchema,
+  generation: storyGenerationSchema,
+  priorityBreakdown: priorityBreakdownSchema.optional().describe("How a story's priority was computed (stories only)"),
 });
 
+const typedSubmissionSchema = z.object({
+  submission: parsedSubmissionSchema,
+  requestType: requestTypeClassificationSchema,
+});
 
-const analyzeFeatureRequest = createStep({
-  id: "analyze-feature-request",
-  description: "Analyzes the feature request and prepares it for Jira using AI",
-  inputSchema: formInputSchema,
-  outputSchema: jiraStoryOutputSchema,
-  execute: async ({ inputData, mastra }) => {
-    const { text } = inputData;
+const classifiedSubmissionSchema = typedSubmissionSchema.extend({
+  classification: productAreaClassificationSchema,
+  routing: routingDecisionSchema,
+});
 
-    const agent = mastra?.getAgent("jiraFeatureRequestAgent");
+const duplicateMatchSchema = z.object({
+  themeId: z.string().describe("Id of the theme (first request on this topic)"),
+  similarity: z.number().describe("Cosine similarity to the closest stored request"),
+  issueKey: z.string().optional().describe("Existing ticket for the theme"),
+  summary: z.string().describe("Summary of the existing ticket"),
+  voteCount: z.number().describe("Number of requests for this theme, including this one"),
+  serviceTypes: z.record(z.string(), z.number()).describe("Aggregated service types across votes"),
+  usageFrequencies: z.record(z.string(), z.number()).describe("Aggregated usage frequencies across votes"),
+  comment: z.string().describe("+1 / additional context comment for the existing ticket"),
+  priorityBreakdown: priorityBreakdownSchema.optional().describe("Theme priority recomputed with the new vote"),
+  commentPosted: z.boolean().describe("Whether the comment was posted to the tracker"),
+});
+
+export const reviewDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reviewer: z.string().min(1).describe("Who made the decision (the reviewer the bearer token belongs to)"),
+  edits: jiraStorySchema.omit({ issueType: true }).partial()
+    .extend(bugReportSchema.omit({ issueType: true }).partial().shape)
+    .optional()
+    .describe("Field overrides applied on approval; fields of the other issue type are ignored"),
+  category: productAreaSchema.optional().describe("Corrected product area; re-routes the issue on approval"),
+  reason: z.string().optional().describe("Why the draft was rejected"),
+});
+
+// What a run waiting for the submitter's answers is suspended with
+export const clarificationRequestSchema = z.object({
+  clarityScore: z.number().describe("Clarity score (1-10) from the clarity agent"),
+  missingDetails: z.array(z.string()).describe("What the submission does not say"),
+  questions: z.array(z.string()).describe("Questions emailed to the submitter"),
+  sentAt: z.string(),
+  expiresAt: z.string().describe("When the run goes ahead without answers"),
+});
+
+const reviewRecordSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  reviewer: z.string(),
+  reviewedAt: z.string(),
+  reason: z.string().optional(),
+  edits: z.record(z.string(), z.object({
+    before: z.unknown(),
+    after: z.unknown(),
+  })).describe("Fields the reviewer changed, with the original and new values"),
+});
+
+const regenerationSchema = z.object({
+  submissionId: z.string().describe("Processed submission whose story was regenerated"),
+  version: z.number().describe("Version number the new story was saved as"),
+  diff: z.record(z.string(), z.object({
+    before: z.unknown(),
+    after: z.unknown(),
+  })).describe("Fields that changed compared with the previous version"),
+});
+
+const featureRequestResultSchema = z.object({
+  outcome: z.enum(["created", "duplicate", "rejected", "regenerated"]),
+  story: issueDraftSchema.optional().describe("Generated story or bug report (absent for duplicates)"),
+  requestType: requestTypeClassificationSchema.optional().describe("Whether the submission was handled as a feature or a bug"),
+  classification: productAreaClassificationSchema.optional().describe("Product area the request was assigned to"),
+  routing: routingDecisionSchema.optional().describe("Board, components, assignee and labels the issue is filed with"),
+  redactionReport: redactionReportSchema,
+  trackerIssue: createdIssueSchema.optional().describe("Issue created in the tracker, if one is configured"),
+  duplicate: duplicateMatchSchema.optional().describe("Existing theme this request was folded into"),
+  review: reviewRecordSchema.optional().describe("Human review of the draft story"),
+  generation: storyGenerationSchema.optional().describe("Structured output attempts and any fallback defaults"),
+  priorityBreakdown: priorityBreakdownSchema.optional().describe("Factor scores, weights and adjustments behind the story's priority"),
+  regeneration: regenerationSchema.optional().describe("Version saved by a regeneration run"),
+  clarification: submissionClarificationSchema.optional().describe("Clarifying questions asked of the submitter and their answers"),
+});
+
+type FeatureRequestResult = z.infer<typeof featureRequestResultSchema>;
+
+const sanitizedInputSchema = z.object({
+  submission: featureRequestInputSchema,
+  redactionReport: redactionReportSchema,
+});
+
+/**
+ * Updates the run's row in the submission history. Failures are logged, not
+ * thrown: the history is a read model and must never fail or retry a run.
+ */
+async function recordSubmission(runId: string, update: ProcessedSubmissionUpdate): Promise<void> {
+  try {
+    await processedSubmissions.record(runId, update);
+  } catch (error) {
+    console.error("Failed to record processed submission:", error);
+  }
+}
+
+/**
+ * Submission history fields for a finished (or paused) run
+ */
+function outcomeRecord(result: FeatureRequestResult): ProcessedSubmissionUpdate {
+  return {
+    status: result.outcome === "regenerated" ? undefined : result.outcome,
+    requestType: result.requestType?.requestType,
+    category: result.classification?.category,
+    priority: result.story?.priority ?? result.duplicate?.priorityBreakdown?.priority,
+    summary: result.story?.summary ?? result.duplicate?.summary,
+    story: result.story,
+    trackerKey: result.trackerIssue?.key ?? result.duplicate?.issueKey,
+    trackerUrl: result.trackerIssue?.url,
+  };
+}
+
+const sanitizePii = createStep({
+  id: "sanitize-pii",
+  description: "Deterministically redacts PII from the submission before any LLM call",
+  inputSchema: featureRequestInputSchema,
+  outputSchema: sanitizedInputSchema,
+  execute: async ({ inputData, runId }) => {
+    const { submission, report } = sanitizeFeatureRequestInput(inputData);
+
+    console.log(`🔒 Redacted ${report.totalRedactions} PII value(s) from submission`);
+
+    // Regeneration runs are saved as versions of the original submission, not as submissions of their own
+    if (inputData.metadata?.regenerationOf) {
+      return { submission, redactionReport: report };
+    }
+
+    // Only the redacted submission is kept in the history (without the contact
+    // email); regeneration re-runs it, so the original text is never stored
+    await recordSubmission(runId, {
+      status: "processing",
+      input: submission,
+      sanitizedText: submission.kind === "raw_text" ? submission.text : submission.featureDescription,
+      submittedAt: inputData.kind === "structured" ? inputData.metadata?.submittedAt : undefined,
+    });
+
+    return { submission, redactionReport: report };
+  },
+});
+
+// Agents answer with a JSON object; its fields are validated separately
+const agentJsonObjectSchema = z.record(z.string(), z.unknown());
+
+/**
+ * Extracts JSON from an agent response, tolerating markdown code fences.
+ * Callers narrow the result with a schema.
+ */
+function parseAgentJson(responseText: string): unknown {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  return JSON.parse(jsonMatch ? jsonMatch[0] : responseText);
+}
+
+const extractSubmission = createStep({
+  id: "extract-submission",
+  description: "Normalizes the input into a structured submission, parsing raw text with AI when needed",
+  inputSchema: sanitizedInputSchema,
+  outputSchema: parsedSubmissionSchema,
+  execute: async ({ inputData: { submission: inputData }, mastra }) => {
+    if (inputData.kind === "structured") {
+      // Webhook route already provides structured fields; no LLM extraction needed.
+      const { kind, metadata, contactEmail, ...submission } = inputData;
+      return submission;
+    }
+
+    const agent = mastra?.getAgent("typeformParserAgent");
     if (!agent) {
-      throw new Error("Jira Feature Request agent not found");
+      throw new Error("Typeform parser agent not found");
     }
 
-    console.log("🎫 Analyzing feature request and generating Jira ticket...");
+    console.log("🧾 Extracting fields from raw Typeform text...");
+
+    const response = await agent.generate(inputData.text);
+    const responseText = response.text.trim();
+
+    let parsedResponse: z.infer<typeof agentJsonObjectSchema>;
+    try {
+      parsedResponse = agentJsonObjectSchema.parse(parseAgentJson(responseText));
+    } catch (error) {
+      console.error("Failed to parse parser agent response:", responseText);
+      throw new Error(`Failed to parse Typeform response: ${error}`);
+    }
+
+    // The parser agent uses null for missing fields; our schema uses optional fields.
+    // The email was already redacted from the text, so drop the placeholder too.
+    const { contactEmail, ...fields } = parsedResponse;
+    const cleaned = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== null && value !== "")
+    );
+    const result = parsedSubmissionSchema.safeParse(cleaned);
+    if (!result.success || !result.data.featureDescription) {
+      throw new Error("Typeform parser agent did not return a feature description");
+    }
+
+    return result.data;
+  },
+});
+
+const detectLanguage = createStep({
+  id: "detect-language",
+  description: "Records the submission language and translates non-English descriptions to English",
+  inputSchema: parsedSubmissionSchema,
+  outputSchema: parsedSubmissionSchema,
+  execute: async ({ inputData, mastra }) => {
+    if (looksLikeEnglish(inputData.featureDescription)) {
+      return { ...inputData, language: ENGLISH };
+    }
+
+    let detection;
+    try {
+      // getAgent throws when the translator is not registered, which is handled like any other failure
+      const agent = mastra!.getAgent("submissionTranslatorAgent");
+      const response = await agent.generate(inputData.featureDescription, {
+        structuredOutput: { schema: languageDetectionSchema },
+      });
+      detection = response.object;
+    } catch (error) {
+      // Translation is best-effort; the Jira agent can still work from the original text
+      console.error("Language detection failed, continuing with the original text:", error);
+      return inputData;
+    }
+
+    const code = detection.languageCode.toLowerCase();
+    if (code === "en" || !detection.englishText.trim()) {
+      return { ...inputData, language: ENGLISH };
+    }
+
+    console.log(`🌐 Translated ${detection.languageName} submission to English`);
+
+    return {
+      ...inputData,
+      featureDescription: detection.englishText,
+      language: {
+        code,
+        name: detection.languageName,
+        translated: true,
+        originalDescription: inputData.featureDescription,
+      },
+    };
+  },
+});
+
+/**
+ * Returns the registered vector store, or undefined when duplicate detection is not set up
+ */
+function getFeatureRequestVector(mastra: Mastra | undefined) {
+  return mastra?.getVectors()?.featureRequestVector;
+}
+
+/**
+ * Appends the PM triage spreadsheet row. Failures are logged, not thrown:
+ * by the time we log, the ticket or vote already exists and a retry would duplicate it.
+ */
+async function appendSubmissionLogRow(
+  metadata: SubmissionMetadata | undefined,
+  submission: ParsedSubmission,
+  result: FeatureRequestResult
+): Promise<void> {
+  const sink = getSpreadsheetSink();
+  if (!sink) {
+    return;
+  }
+
+  const { story, trackerIssue, duplicate } = result;
+  try {
+    await sink.appendRow({
+      "Submitted At": metadata?.submittedAt || new Date().toISOString(),
+      "Response Token": metadata?.responseToken,
+      "Description": submission.featureDescription,
+      "Usage Frequency": submission.usageFrequency,
+      "Service Types": submission.serviceTypes,
+      "Interests": submission.userInterests,
+      "Summary": story?.summary ?? duplicate?.summary,
+      "Priority": story?.priority,
+      "Story Points": story?.issueType === "Story" ? story.storyPoints : undefined,
+      "Jira Key": trackerIssue?.key ?? duplicate?.issueKey,
+      "Outcome": result.outcome,
+    });
+    console.log(`📊 Logged submission to ${sink.name}`);
+  } catch (error) {
+    console.error("Failed to log submission to spreadsheet:", error);
+  }
+}
+
+function formatDuplicateComment(
+  submission: ParsedSubmission,
+  voteCount: number,
+  similarity: number,
+  priorityBreakdown?: PriorityBreakdown
+): string {
+  const lines = [
+    `**+1 from another GlossGenius pro** (${voteCount} requests total, similarity ${similarity.toFixed(2)})`,
+    "",
+    "## Additional Context",
+    "",
+    submission.featureDescription,
+    "",
+    `- **Usage Frequency:** ${submission.usageFrequency || "Not provided"}`,
+    `- **Service Types:** ${submission.serviceTypes || "Not provided"}`,
+    `- **Interest Areas:** ${submission.userInterests || "Not provided"}`,
+  ];
+  if (priorityBreakdown) {
+    lines.push(`- **Recomputed Priority:** ${formatPriorityBreakdown(priorityBreakdown)}`);
+  }
+  return lines.join("\n");
+}
+
+const detectDuplicate = createStep({
+  id: "detect-duplicate",
+  description: "Searches previously filed requests for a near-duplicate and records a vote instead of a new story",
+  inputSchema: parsedSubmissionSchema,
+  outputSchema: parsedSubmissionSchema,
+  execute: async ({ inputData, mastra, runId, bail, getInitData, getStepResult }) => {
+    // A regenerated submission would match its own theme
+    const vectorStore = getFeatureRequestVector(mastra);
+    if (!vectorStore || getInitData<typeof featureRequestInputSchema>().metadata?.regenerationOf) {
+      return inputData;
+    }
+
+    let embedding: number[];
+    let match;
+    try {
+      embedding = await embedText(inputData.featureDescription);
+      match = await findDuplicateTheme(vectorStore, embedding);
+    } catch (error) {
+      // Duplicate detection is best-effort; never block ticket creation on it
+      console.error("Duplicate detection failed, continuing as new request:", error);
+      return inputData;
+    }
+
+    // A retried run finds the theme it recorded on its first attempt
+    if (!match || match.theme.themeId === runId) {
+      // Recorded now, so near-duplicates arriving while this request is in review are grouped with it;
+      // index-feature-request links the ticket once it is published
+      try {
+        await createTheme(vectorStore, {
+          themeId: runId,
+          summary: inputData.featureDescription.slice(0, MAX_SUMMARY_LENGTH),
+          embedding,
+          description: inputData.featureDescription,
+          serviceTypes: inputData.serviceTypes,
+          usageFrequency: inputData.usageFrequency,
+          planTier: prioritySignalsFor(inputData).planTiers[0],
+        });
+      } catch (error) {
+        console.error("Failed to record new theme, continuing:", error);
+      }
+      return inputData;
+    }
+
+    console.log(`🔁 Near-duplicate of theme ${match.theme.themeId} (similarity ${match.similarity.toFixed(2)})`);
+
+    let vote;
+    try {
+      vote = await addVoteToTheme(vectorStore, match.theme, {
+        voteId: runId,
+        embedding,
+        description: inputData.featureDescription,
+        serviceTypes: inputData.serviceTypes,
+        usageFrequency: inputData.usageFrequency,
+        planTier: prioritySignalsFor(inputData).planTiers[0],
+      });
+    } catch (error) {
+      // Same as a failed search: the draft still goes to review, where the duplicate can be spotted
+      console.error(`Failed to record vote on theme ${match.theme.themeId}, continuing as new request:`, error);
+      return inputData;
+    }
+    const { theme, newVote } = vote;
+
+    // More votes (and the strongest signals across voters) can raise the theme's priority
+    const priorityBreakdown = theme.priorityFactors
+      ? scorePriority(theme.priorityFactors, {
+          usageFrequencies: Object.keys(theme.usageFrequencies),
+          planTiers: Object.keys(theme.planTiers ?? {}),
+          voteCount: theme.voteCount,
+        })
+      : undefined;
+
+    const comment = formatDuplicateComment(inputData, theme.voteCount, match.similarity, priorityBreakdown);
+    let commentPosted = false;
+    const tracker = getIssueTracker();
+    // A retried run finds its own vote already recorded; it was announced on the first attempt
+    if (newVote && tracker && theme.issueKey) {
+      try {
+        await tracker.addComment(theme.issueKey, comment);
+        commentPosted = true;
+        console.log(`💬 Added +1 comment to ${theme.issueKey}`);
+      } catch (error) {
+        // The vote is already stored; retrying the run would not post the comment again
+        console.error(`Failed to add +1 comment to ${theme.issueKey}:`, error);
+      }
+    }
+
+    if (newVote) {
+      await notifyIfHighPriority({
+        event: "duplicate",
+        summary: theme.summary,
+        priority: priorityBreakdown?.priority,
+        serviceTypes: Object.keys(theme.serviceTypes),
+        duplicateCount: theme.voteCount,
+        ticketKey: theme.issueKey,
+        ticketUrl: theme.issueUrl,
+      });
+    }
+
+    const { redactionReport } = getStepResult(sanitizePii);
+    const result: FeatureRequestResult = {
+      outcome: "duplicate",
+      redactionReport,
+      duplicate: {
+        themeId: theme.themeId,
+        similarity: match.similarity,
+        issueKey: theme.issueKey,
+        summary: theme.summary,
+        voteCount: theme.voteCount,
+        serviceTypes: theme.serviceTypes,
+        usageFrequencies: theme.usageFrequencies,
+        comment,
+        commentPosted,
+        priorityBreakdown,
+      },
+    };
+
+    await appendSubmissionLogRow(getInitData<typeof featureRequestInputSchema>().metadata, inputData, result);
+    await recordSubmission(runId, outcomeRecord(result));
 
-    // Build a structured prompt for the agent with the raw Typeform response
-    const prompt = `Please analyze the following Typeform feature request submission and generate a complete Jira ticket specification.
+    // Skip story generation entirely; the run ends with the duplicate result
+    return bail(result);
+  },
+});
+
+// Without a classification, submissions are handled as feature requests as they always were
+const UNTYPED: RequestTypeClassification = {
+  requestType: "feature",
+  confidence: 0,
+  rationale: "Automatic classification failed",
+};
+
+const classifyRequestType = createStep({
+  id: "classify-request-type",
+  description: "Decides whether the submission is a feature request or a bug report",
+  inputSchema: parsedSubmissionSchema,
+  outputSchema: typedSubmissionSchema,
+  execute: async ({ inputData, mastra, getInitData }) => {
+    // Responses from a bug report form need no guessing
+    if (getInitData<typeof featureRequestInputSchema>().metadata?.formKind === "bug_report") {
+      return {
+        submission: inputData,
+        requestType: { requestType: "bug" as const, confidence: 1, rationale: "Submitted through a bug report form" },
+      };
+    }
+
+    let requestType: RequestTypeClassification;
+    try {
+      const agent = mastra!.getAgent("requestTypeClassifierAgent");
+      const response = await agent.generate(formatSubmissionForPrompt(inputData), {
+        structuredOutput: { schema: requestTypeClassificationSchema },
+      });
+      requestType = response.object;
+    } catch (error) {
+      console.error("Request type classification failed, handling as a feature request:", error);
+      requestType = UNTYPED;
+    }
+
+    console.log(`🧭 Handling submission as a ${requestType.requestType} (confidence ${requestType.confidence.toFixed(2)})`);
+
+    return { submission: inputData, requestType };
+  },
+});
 
-## Raw Typeform Response
+// Requests that cannot be classified go to triage rather than a guessed team board
+const UNCLASSIFIED: ProductAreaClassification = {
+  category: "Other",
+  confidence: 0,
+  rationale: "Automatic classification failed",
+};
 
-${text}
+const classifyProductArea = createStep({
+  id: "classify-product-area",
+  description: "Assigns the request to a product area and resolves the team board it is routed to",
+  inputSchema: typedSubmissionSchema,
+  outputSchema: classifiedSubmissionSchema,
+  execute: async ({ inputData, mastra, runId }) => {
+    const { submission } = inputData;
+    let classification: ProductAreaClassification;
+    try {
+      const agent = mastra!.getAgent("productAreaClassifierAgent");
+      const response = await agent.generate(formatSubmissionForPrompt(submission), {
+        structuredOutput: { schema: productAreaClassificationSchema },
+      });
+      classification = response.object;
+    } catch (error) {
+      // Classification only decides routing; a failure sends the request to triage
+      console.error("Product area classification failed, routing to triage:", error);
+      classification = UNCLASSIFIED;
+    }
+
+    const routing = routeClassification(classification, runId);
+    console.log(
+      `🗂️ Classified as ${classification.category} (confidence ${classification.confidence.toFixed(2)}), routed to ${routing.queue}`
+    );
+
+    return { ...inputData, classification, routing };
+  },
+});
+
+/**
+ * Redacts the submitter's answers like the original submission
+ */
+function redactClarification(clarification: SubmissionClarification): SubmissionClarification {
+  return {
+    ...clarification,
+    answers: clarification.answers.map((answer) => redactText(answer).text),
+    reply: clarification.reply === undefined ? undefined : redactText(clarification.reply).text,
+  };
+}
+
+const requestClarification = createStep({
+  id: CLARIFICATION_STEP_ID,
+  description: "Emails clarifying questions to the submitter of a vague feature request and waits for the answers",
+  inputSchema: classifiedSubmissionSchema,
+  outputSchema: classifiedSubmissionSchema,
+  resumeSchema: submissionClarificationSchema,
+  suspendSchema: clarificationRequestSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra, runId, getInitData }) => {
+    // Resumed by POST /clarifications/:runId, or with status timed_out once nobody answered
+    if (resumeData) {
+      console.log(
+        resumeData.status === "answered"
+          ? "💬 Submitter answered the clarifying questions"
+          : "⌛ Clarifying questions went unanswered; writing the story with assumptions"
+      );
+      const submission = { ...inputData.submission, clarification: redactClarification(resumeData) };
+      return { ...inputData, submission };
+    }
+
+    // Only new feature requests can be held; imported history and regenerations go straight on
+    const input = getInitData<typeof featureRequestInputSchema>();
+    const contactEmail = input.kind === "structured" ? input.contactEmail : undefined;
+    const mailer = getMailer();
+    if (
+      inputData.requestType.requestType !== "feature" ||
+      !contactEmail ||
+      !mailer ||
+      input.metadata?.regenerationOf ||
+      input.metadata?.source?.channel === "import"
+    ) {
+      return inputData;
+    }
+
+    let assessment: ClarityAssessment;
+    try {
+      const agent = mastra!.getAgent("clarityAgent");
+      const response = await agent.generate(formatSubmissionForPrompt(inputData.submission), {
+        structuredOutput: { schema: clarityAssessmentSchema },
+      });
+      assessment = response.object;
+    } catch (error) {
+      // Clarification is optional; the Jira agent can still work with assumptions
+      console.error("Clarity assessment failed, continuing without questions:", error);
+      return inputData;
+    }
+
+    const questions = assessment.questions.slice(0, 3);
+    if (assessment.clarityScore >= getMinClarityScore() || questions.length === 0) {
+      return inputData;
+    }
+
+    const sentAt = new Date();
+    const expiresAt = new Date(sentAt.getTime() + getClarificationTimeoutMs()).toISOString();
+    const { submission } = inputData;
+    try {
+      // The address is used only here, never in a prompt, log line or stored result
+      await mailer.send({
+        to: contactEmail,
+        ...buildClarificationEmail({
+          runId,
+          questions,
+          description: submission.language?.originalDescription ?? submission.featureDescription,
+          expiresAt,
+        }),
+      });
+    } catch (error) {
+      console.error("Failed to email clarifying questions, continuing with assumptions:", error);
+      return inputData;
+    }
+
+    console.log(`❓ Clarity ${assessment.clarityScore}/10; emailed ${questions.length} question(s) via ${mailer.name}`);
+    await recordSubmission(runId, { status: "awaiting_clarification" });
+    return await suspend({
+      clarityScore: assessment.clarityScore,
+      missingDetails: assessment.missingDetails,
+      questions,
+      sentAt: sentAt.toISOString(),
+      expiresAt,
+    });
+  },
+});
+
+function formatContextEntries(entries: Record<string, string | number> | undefined): string[] {
+  return Object.entries(entries || {}).map(([key, value]) => `- **${key}:** ${value}`);
+}
+
+/**
+ * Renders the structured submission for the Jira agent. The contact email is
+ * intentionally left out so it never reaches the LLM.
+ */
+function formatSubmissionForPrompt(submission: ParsedSubmission): string {
+  const sections = [
+    `**Feature Description:**\n${submission.featureDescription}`,
+    `**Usage Frequency:** ${submission.usageFrequency || "Not provided"}`,
+    `**Service Types:** ${submission.serviceTypes || "Not provided"}`,
+    `**Interest Areas:** ${submission.userInterests || "Not provided"}`,
+  ];
+
+  const contextLines = [
+    ...formatContextEntries(submission.context?.hiddenFields),
+    ...formatContextEntries(submission.context?.variables),
+  ];
+  if (contextLines.length > 0) {
+    sections.push(`**Account Context:**\n${contextLines.join("\n")}`);
+  }
+
+  if (submission.language?.translated) {
+    sections.push(`**Submission Language:** ${submission.language.name} (feature description translated to English)`);
+  }
+
+  if (submission.clarification) {
+    sections.push(formatClarificationForPrompt(submission.clarification));
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Renders the follow-up questions and the submitter's answers. Unanswered
+ * questions are listed too, so the agent states its assumptions for them.
+ */
+function formatClarificationForPrompt(clarification: SubmissionClarification): string {
+  if (clarification.status === "timed_out") {
+    const questions = clarification.questions.map((question, index) => `${index + 1}. ${question}`);
+    return `**Clarifying Questions (not answered):** The submitter did not reply to these questions; make reasonable assumptions for them and state each one in the Problem Statement.\n${questions.join("\n")}`;
+  }
+
+  const lines = clarification.questions.map((question, index) => {
+    const answer = clarification.answers[index]?.trim();
+    return `${index + 1}. ${question}\n   Answer: ${answer || "Not answered"}`;
+  });
+  const reply = clarification.reply?.trim() ? `\n\n**Submitter's Reply:**\n${clarification.reply.trim()}` : "";
+  return `**Clarifying Questions (answered by the submitter):**\n${lines.join("\n")}${reply}`;
+}
+
+/**
+ * Builds the Jira agent prompt for a submission. Shared with the eval CLI so
+ * recorded responses come from the exact prompt the workflow sends.
+ */
+export function buildJiraStoryPrompt(submission: ParsedSubmission, category?: ProductArea): string {
+  const productArea = category ? `\n\n**Product Area:** ${category}` : "";
+  return `Please analyze the following Typeform feature request submission and generate a complete Jira ticket specification.
+
+## Typeform Submission
+
+${formatSubmissionForPrompt(submission)}${productArea}
 
 ---
 
-Extract the relevant information from this submission (feature description, usage frequency, service types, user interests) and generate a comprehensive Jira ticket with all required fields. Remember to:
+Use the submission fields above (feature description, usage frequency, service types, user interests, and account context such as plan tier or app version when present) to generate a comprehensive Jira ticket with all required fields. Remember to:
 1. Create an actionable, specific ticket title
 2. Include detailed problem statement and proposed solution
 3. Write 8-12 testable acceptance criteria
 4. Provide thorough QA testing notes
 5. Estimate story points with justification
-6. Assign appropriate priority based on the scoring rubric
+6. Score the four priority factors with rationales (the priority itself is calculated from them)
 7. Do NOT include any user email or PII in the output
 
 Return ONLY valid JSON with no markdown formatting.`;
+}
 
-    const response = await agent.generate(prompt);
-    const responseText = response.text.trim();
+/**
+ * Builds the bug report agent prompt for a submission classified as a bug
+ */
+export function buildBugReportPrompt(submission: ParsedSubmission, category?: ProductArea): string {
+  const productArea = category ? `\n\n**Product Area:** ${category}` : "";
+  return `Please turn the following Typeform submission, which reports a bug, into a Jira bug that an engineer can reproduce.
+
+## Typeform Submission
+
+${formatSubmissionForPrompt(submission)}${productArea}
+
+---
+
+Use the submission fields above, and account context such as app version or platform when present. Remember to:
+1. Describe the symptom in the title, not a proposed fix
+2. Write numbered steps to reproduce, marking inferred steps as assumed
+3. State expected and actual behavior separately
+4. Choose the platform and severity from the allowed values
+5. Do NOT include any user email or PII in the output
+
+Return ONLY valid JSON with no markdown formatting.`;
+}
+
+const MAX_STORY_ATTEMPTS = Number(process.env.STORY_GENERATION_MAX_ATTEMPTS) || 3;
+
+/**
+ * Returns the validation error and raw model text when a structured output
+ * call failed schema validation, or null for any other failure
+ */
+function getStructuredOutputFailure(error: unknown): { message: string; rawOutput: string } | null {
+  const mastraError = error as { id?: string; cause?: unknown; details?: { value?: unknown } };
+  if (mastraError?.id !== "STRUCTURED_OUTPUT_SCHEMA_VALIDATION_FAILED") {
+    return null;
+  }
+  const message = mastraError.cause instanceof z.ZodError
+    ? mastraError.cause.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ")
+    : String((error as Error).message);
+  return { message, rawOutput: String(mastraError.details?.value ?? "") };
+}
+
+/**
+ * Keeps every field of the last response that is valid on its own and fills
+ * the rest with the given defaults, reporting which fields were defaulted
+ */
+function salvageFields<T extends Record<string, unknown>>(
+  rawOutput: string,
+  schema: z.ZodObject,
+  defaults: T
+): { value: T; defaultedFields: string[] } {
+  let parsed: Record<string, unknown> = {};
+  try {
+    parsed = agentJsonObjectSchema.parse(parseAgentJson(rawOutput));
+  } catch {
+    // Nothing usable; every field is defaulted
+  }
+
+  const value: Record<string, unknown> = { ...defaults };
+  const defaultedFields: string[] = [];
+  for (const field of Object.keys(defaults)) {
+    const result = schema.shape[field].safeParse(parsed[field]);
+    if (result.success) {
+      value[field] = result.data;
+    } else {
+      defaultedFields.push(field);
+    }
+  }
+  return { value: value as T, defaultedFields };
+}
+
+// Conservative story defaults; the placeholders tell the reviewer what to fill in
+function defaultStory(submission: ParsedSubmission): z.infer<typeof generatedJiraStorySchema> {
+  // Middle scores on every factor land in the middle priority band
+  const unscored = { score: 5, rationale: "Not scored by the agent; defaulted" };
+  return {
+    summary: `[Feature] - ${submission.featureDescription.substring(0, 80)}`,
+    description: submission.featureDescription,
+    acceptanceCriteria: "Acceptance criteria could not be generated; add them during review.",
+    noteForQA: "",
+    storyPoints: 5,
+    priorityFactors: { userImpact: unscored, businessValue: unscored, feasibility: unscored, urgency: unscored },
+  };
+}
+
+function defaultBugReport(submission: ParsedSubmission): z.infer<typeof generatedBugReportSchema> {
+  return {
+    summary: `[Bug] - ${submission.featureDescription.substring(0, 80)}`,
+    description: submission.featureDescription,
+    stepsToReproduce: "Steps to reproduce could not be generated; add them during review.",
+    expectedBehavior: "Could not be determined; confirm with the reporter during review.",
+    actualBehavior: submission.featureDescription,
+    platform: "Unknown",
+    severity: "Major",
+    priority: "3",
+  };
+}
+
+/**
+ * Generates output constrained to the given schema. When the model's output
+ * fails validation, the errors are sent back for a bounded number of repair
+ * attempts before falling back to the defaults.
+ */
+async function generateWithRepair<TSchema extends z.ZodObject>(
+  agent: Agent,
+  prompt: string,
+  schema: TSchema,
+  defaults: z.infer<TSchema>
+): Promise<{ value: z.infer<TSchema>; generation: z.infer<typeof storyGenerationSchema> }> {
+  const messages: CoreMessage[] = [{ role: "user", content: prompt }];
+  const validationErrors: string[] = [];
+  let rawOutput = "";
 
-    // Parse the JSON response from the agent
-    let parsedResponse;
+  for (let attempt = 1; attempt <= MAX_STORY_ATTEMPTS; attempt++) {
     try {
-      // Try to extract JSON from the response if it's wrapped in markdown
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        parsedResponse = JSON.parse(responseText);
-      }
+      const response = await agent.generate(messages, {
+        structuredOutput: { schema: schema as z.ZodObject },
+      });
+      return {
+        value: response.object as z.infer<TSchema>,
+        generation: {
+          attempts: attempt,
+          repaired: attempt > 1,
+          fallback: false,
+          defaultedFields: [],
+          validationErrors,
+        },
+      };
     } catch (error) {
-      console.error("Failed to parse agent response:", responseText);
-      throw new Error(`Failed to parse Jira ticket response: ${error}`);
-    }
-
-    // Validate and extract required fields
-    const summary = parsedResponse.summary || `[Feature] - ${text.substring(0, 80)}`;
-    const description = parsedResponse.description || "";
-    const acceptanceCriteria = parsedResponse.acceptanceCriteria || "";
-    const noteForQA = parsedResponse.noteForQA || "";
-    const storyPoints = typeof parsedResponse.storyPoints === "number" 
-      ? parsedResponse.storyPoints 
-      : 5; // Default to 5 if not provided
-    const priority = ["1", "2", "3", "4", "5"].includes(parsedResponse.priority) 
-      ? parsedResponse.priority 
-      : "3"; // Default to medium priority
+      const failure = getStructuredOutputFailure(error);
+      if (!failure) {
+        throw error;
+      }
+
+      console.warn(`⚠️ Generation attempt ${attempt}/${MAX_STORY_ATTEMPTS} failed validation: ${failure.message}`);
+      validationErrors.push(`Attempt ${attempt}: ${failure.message}`);
+      rawOutput = failure.rawOutput;
+      messages.push(
+        { role: "assistant", content: rawOutput || "(empty response)" },
+        {
+          role: "user",
+          content: `Your response did not match the required JSON schema:\n${failure.message}\n\nReturn the complete corrected JSON object with every field.`,
+        }
+      );
+    }
+  }
+
+  const { value, defaultedFields } = salvageFields(rawOutput, schema, defaults);
+  console.warn(`⚠️ Generation fell back to defaults for: ${defaultedFields.join(", ") || "no fields"}`);
+  return {
+    value,
+    generation: {
+      attempts: MAX_STORY_ATTEMPTS,
+      repaired: true,
+      fallback: defaultedFields.length > 0,
+      defaultedFields,
+      validationErrors,
+    },
+  };
+}
+
+/**
+ * Applies what the workflow knows about the submission but the agent does
+ * not decide: the language label and, for translated requests, the original text
+ */
+function finalizeDraft<T extends IssueDraft>(draft: T, submission: ParsedSubmission): T {
+  const { language } = submission;
+  if (!language) {
+    return draft;
+  }
+  return {
+    ...draft,
+    description: language.translated
+      ? `${draft.description}\n\n${formatOriginalTextAppendix(language)}`
+      : draft.description,
+    labels: [languageLabel(language)],
+  };
+}
+
+const analyzeFeatureRequest = createStep({
+  id: "analyze-feature-request",
+  description: "Analyzes the feature request and prepares it for Jira using AI",
+  inputSchema: classifiedSubmissionSchema,
+  outputSchema: generatedStorySchema,
+  execute: async ({ inputData: { submission, classification }, mastra }) => {
+    const agent = mastra?.getAgent("jiraFeatureRequestAgent");
+    if (!agent) {
+      throw new Error("Jira Feature Request agent not found");
+    }
+
+    console.log("🎫 Analyzing feature request and generating Jira ticket...");
+
+    const prompt = buildJiraStoryPrompt(submission, classification.category);
+    const { value, generation } = await generateWithRepair(agent, prompt, generatedJiraStorySchema, defaultStory(submission));
+    const { priorityFactors, ...fields } = value;
+    const priorityBreakdown = scorePriority(priorityFactors, prioritySignalsFor(submission));
+    const story = finalizeDraft({ issueType: "Story" as const, ...fields, priority: priorityBreakdown.priority }, submission);
 
     console.log("✅ Jira ticket generated successfully");
-    console.log(`   Title: ${summary}`);
-    console.log(`   Priority: P${priority} | Story Points: ${storyPoints}`);
+    console.log(`   Title: ${story.summary}`);
+    console.log(`   Priority: ${formatPriorityBreakdown(priorityBreakdown)} | Story Points: ${story.storyPoints}`);
+
+    return { story, generation, priorityBreakdown };
+  },
+});
 
+const analyzeBugReport = createStep({
+  id: "analyze-bug-report",
+  description: "Turns a bug report into a reproducible Jira bug using AI",
+  inputSchema: classifiedSubmissionSchema,
+  outputSchema: generatedStorySchema,
+  execute: async ({ inputData: { submission, classification }, mastra }) => {
+    const agent = mastra?.getAgent("bugReportAgent");
+    if (!agent) {
+      throw new Error("Bug report agent not found");
+    }
+
+    console.log("🐞 Analyzing bug report and generating Jira bug...");
+
+    const prompt = buildBugReportPrompt(submission, classification.category);
+    const { value, generation } = await generateWithRepair(agent, prompt, generatedBugReportSchema, defaultBugReport(submission));
+    const bug = finalizeDraft({ issueType: "Bug" as const, ...value }, submission);
+
+    console.log("✅ Jira bug generated successfully");
+    console.log(`   Title: ${bug.summary}`);
+    console.log(`   Priority: P${bug.priority} | Severity: ${bug.severity} | Platform: ${bug.platform}`);
+
+    return { story: bug, generation };
+  },
+});
+
+const collectDraft = createStep({
+  id: "collect-draft",
+  description: "Takes the draft from whichever of the feature and bug branches ran",
+  inputSchema: z.object({
+    "analyze-feature-request": generatedStorySchema.optional(),
+    "analyze-bug-report": generatedStorySchema.optional(),
+  }),
+  outputSchema: generatedStorySchema,
+  execute: async ({ inputData }) => {
+    const draft = inputData["analyze-feature-request"] ?? inputData["analyze-bug-report"];
+    if (!draft) {
+      throw new Error("Neither the feature nor the bug branch produced a draft");
+    }
+    return draft;
+  },
+});
+
+const guardAgainstPiiLeaks = createStep({
+  id: "guard-against-pii-leaks",
+  description: "Re-scans every generated story field and fails the run if any PII leaked",
+  inputSchema: generatedStorySchema,
+  outputSchema: featureRequestResultSchema,
+  execute: async ({ inputData: { story, generation, priorityBreakdown }, getInitData, getStepResult }) => {
+    // Values redacted from the input must not reappear, even if the detectors miss them
+    const { matches } = sanitizeFeatureRequestInput(getInitData<typeof featureRequestInputSchema>());
+    const knownValues = matches.map((match) => match.value);
+
+    // Factor rationales are published with the result, so they are scanned too
+    const leaks = findPiiLeaks({ ...story, priorityFactors: priorityBreakdown?.factors }, knownValues);
+    if (leaks.length > 0) {
+      const details = leaks.map((leak) => `${leak.field}:${leak.type}`).join(", ");
+      console.error("PII detected in generated story:", details);
+      throw new Error(`PII leak detected in generated story (${details})`);
+    }
+
+    const { redactionReport } = getStepResult(sanitizePii);
+    const { requestType, classification, routing } = getStepResult(classifyProductArea);
+    const { clarification } = getStepResult(requestClarification).submission;
     return {
-      summary,
-      description,
-      acceptanceCriteria,
-      noteForQA,
-      storyPoints,
-      priority: priority as "1" | "2" | "3" | "4" | "5",
+      outcome: "created" as const,
+      story,
+      requestType,
+      classification,
+      routing,
+      redactionReport,
+      generation,
+      priorityBreakdown,
+      clarification,
     };
   },
 });
 
+const saveRegeneratedVersion = createStep({
+  id: "save-regenerated-version",
+  description: "Ends regeneration runs by saving the draft as a new version of the original submission's story",
+  inputSchema: featureRequestResultSchema,
+  outputSchema: featureRequestResultSchema,
+  execute: async ({ inputData, runId, bail, getInitData }) => {
+    const submissionId = getInitData<typeof featureRequestInputSchema>().metadata?.regenerationOf;
+    if (!submissionId) {
+      return inputData;
+    }
+
+    const original = await processedSubmissions.get(submissionId);
+    const version = await storyVersions.addRegenerated(
+      submissionId,
+      { runId, story: inputData.story! },
+      original ? { runId: original.id, story: original.story } : undefined
+    );
+
+    console.log(`🔄 Saved version ${version.version} of ${submissionId} (${Object.keys(version.diff).length} field(s) changed)`);
+
+    // Nothing is published: reviewers pick the canonical version explicitly
+    return bail({
+      ...inputData,
+      outcome: "regenerated" as const,
+      regeneration: { submissionId, version: version.version, diff: version.diff },
+    });
+  },
+});
+
+const reviewStory = createStep({
+  id: "review-story",
+  description: "Suspends until a reviewer approves (optionally editing) or rejects the draft story",
+  inputSchema: featureRequestResultSchema,
+  outputSchema: featureRequestResultSchema,
+  resumeSchema: reviewDecisionSchema,
+  suspendSchema: z.object({
+    draft: issueDraftSchema,
+    generation: storyGenerationSchema.optional(),
+    classification: productAreaClassificationSchema.optional(),
+    routing: routingDecisionSchema.optional(),
+  }),
+  execute: async ({ inputData, resumeData, suspend, bail, runId }) => {
+    // REQUIRE_REVIEW=false publishes drafts directly (e.g. for local runs),
+    // except drafts with defaulted fields or an unconfirmed product area, which always need a human
+    const needsReview = inputData.generation?.fallback || inputData.routing?.triaged;
+    if (process.env.REQUIRE_REVIEW === "false" && !needsReview) {
+      return inputData;
+    }
+
+    if (!resumeData) {
+      console.log(inputData.routing?.triaged ? "⏸️ Draft story awaiting triage" : "⏸️ Draft story awaiting review");
+      await recordSubmission(runId, { ...outcomeRecord(inputData), status: "awaiting_review" });
+      return await suspend({
+        draft: inputData.story!,
+        generation: inputData.generation,
+        classification: inputData.classification,
+        routing: inputData.routing,
+      });
+    }
+
+    const reviewedAt = new Date().toISOString();
+
+    if (resumeData.decision === "reject") {
+      console.log(`🚫 Draft rejected by ${resumeData.reviewer}`);
+      const rejected: FeatureRequestResult = {
+        ...inputData,
+        outcome: "rejected",
+        review: {
+          status: "rejected",
+          reviewer: resumeData.reviewer,
+          reviewedAt,
+          reason: resumeData.reason,
+          edits: {},
+        },
+      };
+      await recordSubmission(runId, outcomeRecord(rejected));
+      return bail(rejected);
+    }
+
+    const draft = inputData.story!;
+    // Parsing against the draft's own issue type drops edits meant for the other type
+    const story = issueDraftSchema.parse({ ...draft, ...resumeData.edits });
+    const edits: Record<string, { before: unknown; after: unknown }> = {};
+    for (const [field, value] of Object.entries(resumeData.edits || {})) {
+      const before = draft[field as keyof typeof draft];
+      if (value !== undefined && field in story && value !== before) {
+        edits[field] = { before, after: value };
+      }
+    }
+
+    // A reviewer-confirmed category is certain, so it always routes to the team board
+    let { classification, routing } = inputData;
+    if (resumeData.category) {
+      if (resumeData.category !== classification?.category) {
+        edits.category = { before: classification?.category, after: resumeData.category };
+      }
+      classification = {
+        category: resumeData.category,
+        confidence: 1,
+        rationale: `Set by reviewer ${resumeData.reviewer}`,
+      };
+      routing = routeClassification(classification, runId);
+    }
+
+    console.log(`👍 Draft approved by ${resumeData.reviewer} (${Object.keys(edits).length} field(s) edited)`);
+
+    return {
+      ...inputData,
+      story,
+      classification,
+      routing,
+      review: {
+        status: "approved" as const,
+        reviewer: resumeData.reviewer,
+        reviewedAt,
+        edits,
+      },
+    };
+  },
+});
+
+const createTrackerIssue = createStep({
+  id: PUBLISH_STEP_ID,
+  description: "Creates the story in the configured issue tracker (Jira Cloud in production)",
+  inputSchema: featureRequestResultSchema,
+  outputSchema: featureRequestResultSchema,
+  // Resumed (with no data) by the worker's retries or the publish route
+  resumeSchema: z.object({}),
+  suspendSchema: z.object({ error: z.string() }),
+  execute: async ({ inputData, suspend, runId }) => {
+    const tracker = getIssueTracker();
+    if (!tracker) {
+      console.log("ℹ️ No issue tracker configured - skipping issue creation");
+      return inputData;
+    }
+
+    console.log(`📌 Creating issue via ${tracker.name}...`);
+    let trackerIssue;
+    try {
+      trackerIssue = await tracker.createIssue(inputData.story!, inputData.routing);
+    } catch (error) {
+      // Failing here would end the run and lose the approved draft; suspending keeps it resumable
+      const message = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+      console.error(`Issue creation failed: ${message}`);
+      await recordSubmission(runId, { error: message });
+      return await suspend({ error: message });
+    }
+    console.log(`✅ Created issue ${trackerIssue.key}: ${trackerIssue.url}`);
+
+    return { ...inputData, trackerIssue };
+  },
+});
+
+const notifyHighPriority = createStep({
+  id: "notify-high-priority",
+  description: "Announces new stories that match the notification rules (e.g. priority 1-2) in the team channel",
+  inputSchema: featureRequestResultSchema,
+  outputSchema: featureRequestResultSchema,
+  execute: async ({ inputData, getStepResult }) => {
+    // Only stories from analyze-feature-request; bugs have their own triage
+    const { story, classification, trackerIssue } = inputData;
+    if (story?.issueType !== "Story") {
+      return inputData;
+    }
+
+    await notifyIfHighPriority({
+      event: "created",
+      summary: story.summary,
+      priority: story.priority,
+      storyPoints: story.storyPoints,
+      category: classification?.category,
+      serviceTypes: splitAnswer(getStepResult(detectLanguage).serviceTypes),
+      duplicateCount: 1,
+      ticketKey: trackerIssue?.key,
+      ticketUrl: trackerIssue?.url,
+    });
+    return inputData;
+  },
+});
+
+const indexFeatureRequest = createStep({
+  id: "index-feature-request",
+  description: "Links the new request's theme in the vector index to its ticket for future duplicate detection",
+  inputSchema: featureRequestResultSchema,
+  outputSchema: featureRequestResultSchema,
+  execute: async ({ inputData, mastra, runId, getStepResult }) => {
+    const vectorStore = getFeatureRequestVector(mastra);
+    if (!vectorStore || !inputData.story) {
+      return inputData;
+    }
+
+    const submission = getStepResult(detectLanguage);
+    try {
+      await linkThemeToIssue(vectorStore, {
+        themeId: runId,
+        summary: inputData.story.summary,
+        issueKey: inputData.trackerIssue?.key,
+        issueUrl: inputData.trackerIssue?.url,
+        description: submission.featureDescription,
+        serviceTypes: submission.serviceTypes,
+        usageFrequency: submission.usageFrequency,
+        planTier: prioritySignalsFor(submission).planTiers[0],
+        priorityFactors: inputData.priorityBreakdown?.factors,
+      });
+    } catch (error) {
+      console.error("Failed to index feature request:", error);
+    }
+
+    return inputData;
+  },
+});
+
+const logSubmission = createStep({
+  id: "log-submission",
+  description: "Appends one row per processed submission to the PM triage spreadsheet and records the outcome in the submission history",
+  inputSchema: featureRequestResultSchema,
+  outputSchema: featureRequestResultSchema,
+  execute: async ({ inputData, runId, getInitData, getStepResult }) => {
+    const { metadata } = getInitData<typeof featureRequestInputSchema>();
+    await appendSubmissionLogRow(metadata, getStepResult(detectLanguage), inputData);
+    await recordSubmission(runId, outcomeRecord(inputData));
+    return inputData;
+  },
+});
+
 const featureRequestWorkflow = createWorkflow({
   id: "feature-request-workflow",
   description: "Processes feature requests: sanitizes PII, analyzes with LLM, and prepares a Jira-ready story",
-  inputSchema: formInputSchema,
-  outputSchema: jiraStoryOutputSchema,
+  inputSchema: featureRequestInputSchema,
+  outputSchema: featureRequestResultSchema,
 })
-  // Webhook route already provides structured fields; analyze directly.
-  .then(analyzeFeatureRequest)
+  // PII is masked before any LLM sees the submission
+  .then(sanitizePii)
+  // Structured webhook input passes straight through; raw text goes via the parser agent.
+  .then(extractSubmission)
+  // Non-English descriptions are translated; the original is kept for the story appendix
+  .then(detectLanguage)
+  // Near-duplicates become a vote on the existing ticket and end the run here
+  .then(detectDuplicate)
+  .then(classifyRequestType)
+  // Low-confidence areas go to the triage queue and are held for review
+  .then(classifyProductArea)
+  // Vague feature requests wait for the submitter's answers (or the timeout)
+  .then(requestClarification)
+  // Features become Stories and bugs become Bugs, each with its own agent and schema
+  .branch([
+    [async ({ inputData }) => inputData.requestType.requestType === "feature", analyzeFeatureRequest],
+    [async ({ inputData }) => inputData.requestType.requestType === "bug", analyzeBugReport],
+  ])
+  .then(collectDraft)
+  .then(guardAgainstPiiLeaks)
+  // Regeneration runs stop here with a new story version
+  .then(saveRegeneratedVersion)
+  // Nothing is published until a reviewer approves the draft
+  .then(reviewStory)
+  .then(createTrackerIssue)
+  // Rules match the analyzed story; it is announced once the ticket can be linked
+  .then(notifyHighPriority)
+  .then(indexFeatureRequest)
+  .then(logSubmission)
 
 featureRequestWorkflow.commit();
 
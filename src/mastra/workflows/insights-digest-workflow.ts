@@ -0,0 +1,328 @@
+import { createStep, createWorkflow } from "@mastra/core/workflows";
+import { z } from "zod";
+import {
+  DIGEST_PERIODS,
+  digestWindowSchema,
+  generatedDigestSchema,
+  insightsDigestSchema,
+  themeStatsSchema,
+  type DigestPeriod,
+  type DigestWindow,
+  type GeneratedDigest,
+  type InsightsDigest,
+  type ThemeDigest,
+} from "../domain/insights-digest";
+import { digestTitle, renderDigestHtml, renderDigestMarkdown } from "../insights/digest-rendering";
+import {
+  clusterSubmissions,
+  rankThemes,
+  splitAnswer,
+  type DigestSubmission,
+} from "../insights/theme-clustering";
+import { getNotifier } from "../integrations/notifier";
+import { findPiiLeaks, redactText } from "../privacy/pii-sanitizer";
+import { processedSubmissions } from "../storage/processed-submissions";
+import { getEmbeddingModel } from "../vectors/feature-request-index";
+
+/**
+ * Insights Digest Workflow
+ *
+ * Turns a week's or month's submissions into a product insights digest:
+ * clusters the stored (sanitized) submissions into themes, ranks them, has the
+ * digest agent write up the top themes with representative quotes, renders
+ * Markdown and HTML and delivers them through the configured notifier
+ * (NOTIFIER; see integrations/notifier).
+ *
+ * Scheduled by GET /digests/run (see routes/digests.ts). Only text that was
+ * sanitized before it was stored reaches the agent, and quotes are checked
+ * against the submissions and scanned for PII again before they are sent.
+ */
+
+const DEFAULT_MAX_THEMES = 10;
+
+// Embedding requests are sent in chunks of this many texts
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Longest quote kept in a digest, in characters
+const MAX_QUOTE_LENGTH = 300;
+
+const digestRequestSchema = z.object({
+  period: z.enum(DIGEST_PERIODS).default("weekly"),
+  before: z.string().optional().describe("Digest the last full period before this date (ISO 8601); defaults to now"),
+});
+
+const digestSubmissionSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  usageFrequency: z.string().optional(),
+  serviceTypes: z.array(z.string()),
+  category: z.string().optional(),
+  summary: z.string().optional(),
+  trackerKey: z.string().optional(),
+  submittedAt: z.string(),
+});
+
+const collectedSubmissionsSchema = z.object({
+  window: digestWindowSchema,
+  submissions: z.array(digestSubmissionSchema),
+});
+
+const clusteredThemeSchema = z.object({
+  stats: themeStatsSchema,
+  // Sanitized texts of the submissions closest to the theme's centroid
+  representativeTexts: z.array(z.string()),
+  storySummaries: z.array(z.string()),
+});
+
+type ClusteredTheme = z.infer<typeof clusteredThemeSchema>;
+
+const clusteredThemesSchema = z.object({
+  window: digestWindowSchema,
+  submissionCount: z.number().int(),
+  themeCount: z.number().int(),
+  themes: z.array(clusteredThemeSchema),
+});
+
+const deliveredDigestSchema = z.object({
+  digest: insightsDigestSchema,
+  markdown: z.string(),
+  html: z.string(),
+  delivered: z.boolean().describe("Whether a notifier sent the digest"),
+  notifier: z.string().optional(),
+});
+
+function getMaxThemes(): number {
+  const configured = Number(process.env.DIGEST_MAX_THEMES);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_THEMES;
+}
+
+/**
+ * The last full week (Monday to Monday, UTC) or calendar month before `before`
+ */
+export function digestWindow(period: DigestPeriod, before: Date = new Date()): DigestWindow {
+  if (period === "monthly") {
+    const to = new Date(Date.UTC(before.getUTCFullYear(), before.getUTCMonth(), 1));
+    const from = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - 1, 1));
+    const label = from.toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+    return { period, from: from.toISOString(), to: to.toISOString(), label };
+  }
+
+  const daysSinceMonday = (before.getUTCDay() + 6) % 7;
+  const to = new Date(Date.UTC(before.getUTCFullYear(), before.getUTCMonth(), before.getUTCDate() - daysSinceMonday));
+  const from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+  return { period, from: from.toISOString(), to: to.toISOString(), label: `Week of ${from.toISOString().slice(0, 10)}` };
+}
+
+const collectSubmissions = createStep({
+  id: "collect-submissions",
+  description: "Loads the period's processed feature requests from the submission history",
+  inputSchema: digestRequestSchema,
+  outputSchema: collectedSubmissionsSchema,
+  execute: async ({ inputData }) => {
+    const before = inputData.before ? new Date(inputData.before) : new Date();
+    if (Number.isNaN(before.getTime())) {
+      throw new Error(`Invalid date: ${inputData.before}`);
+    }
+    const window = digestWindow(inputData.period, before);
+
+    const rows = await processedSubmissions.listSubmittedBetween(window.from, window.to);
+    const submissions: DigestSubmission[] = [];
+    for (const row of rows) {
+      if (!row.sanitizedText?.trim()) continue;
+      // The stored input is the original submission minus the contact email
+      const input = (row.input ?? {}) as { usageFrequency?: string; serviceTypes?: string };
+      submissions.push({
+        id: row.id,
+        text: row.sanitizedText,
+        usageFrequency: input.usageFrequency,
+        serviceTypes: splitAnswer(input.serviceTypes),
+        category: row.category,
+        summary: row.summary,
+        trackerKey: row.trackerKey,
+        submittedAt: row.submittedAt ?? row.createdAt,
+      });
+    }
+
+    console.log(`📊 ${submissions.length} feature request(s) for ${window.label}`);
+    return { window, submissions };
+  },
+});
+
+const clusterThemes = createStep({
+  id: "cluster-themes",
+  description: "Embeds the submissions, clusters them into themes and ranks the themes",
+  inputSchema: collectedSubmissionsSchema,
+  outputSchema: clusteredThemesSchema,
+  execute: async ({ inputData: { window, submissions } }) => {
+    const embeddings: number[][] = [];
+    for (let start = 0; start < submissions.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = submissions.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const result = await getEmbeddingModel().doEmbed({ values: batch.map((submission) => submission.text) });
+      embeddings.push(...result.embeddings);
+    }
+
+    const clusters = clusterSubmissions(submissions.map((submission, i) => ({ submission, embedding: embeddings[i] })));
+    const ranked = rankThemes(clusters);
+    console.log(`🧩 ${ranked.length} theme(s) found`);
+
+    const themes = ranked.slice(0, getMaxThemes()).map((theme, index): ClusteredTheme => ({
+      stats: {
+        themeId: theme.id,
+        rank: index + 1,
+        volume: theme.volume,
+        weightedVolume: theme.weightedVolume,
+        serviceSpread: theme.serviceSpread,
+        serviceTypes: theme.serviceTypes,
+        category: theme.category,
+        trackerKeys: theme.trackerKeys,
+        score: theme.score,
+      },
+      representativeTexts: theme.representatives.map((submission) => submission.text),
+      storySummaries: [...new Set(theme.submissions.map((submission) => submission.summary).filter((summary): summary is string => !!summary))],
+    }));
+
+    return { window, submissionCount: submissions.length, themeCount: ranked.length, themes };
+  },
+});
+
+function formatThemesForPrompt(window: DigestWindow, themes: ClusteredTheme[]): string {
+  const sections = themes.map(({ stats, representativeTexts, storySummaries }) => {
+    const serviceTypes = Object.entries(stats.serviceTypes).map(([name, count]) => `${name} (${count})`).join(", ");
+    return [
+      `### ${stats.themeId} (rank ${stats.rank})`,
+      `Requests: ${stats.volume}, usage-weighted volume: ${stats.weightedVolume.toFixed(1)}`,
+      `Service types: ${serviceTypes || "not given"} (${Math.round(stats.serviceSpread * 100)}% of the period's service types)`,
+      `Product area: ${stats.category ?? "unknown"}`,
+      `Existing tickets: ${stats.trackerKeys.length > 0 ? stats.trackerKeys.join(", ") : "none"}`,
+      storySummaries.length > 0 ? `Ticket summaries:\n${storySummaries.slice(0, 5).map((summary) => `- ${summary}`).join("\n")}` : "",
+      `Submissions:\n${representativeTexts.map((text, i) => `[${i + 1}] ${text}`).join("\n")}`,
+    ].filter(Boolean).join("\n");
+  });
+
+  return `Write the insights digest for ${window.label} (${window.period}).\n\n${sections.join("\n\n")}`;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Keeps quotes that appear verbatim in the theme's submissions, with any PII
+ * the detectors find masked again
+ */
+function verifiedQuotes(quotes: string[], sourceTexts: string[]): string[] {
+  const sources = sourceTexts.map((text) => normalizeWhitespace(text).toLowerCase());
+  return quotes
+    .map((quote) => normalizeWhitespace(quote).replace(/^["“]|["”]$/g, ""))
+    .filter((quote) => quote && quote.length <= MAX_QUOTE_LENGTH && sources.some((source) => source.includes(quote.toLowerCase())))
+    .map((quote) => redactText(quote).text);
+}
+
+/**
+ * Digest entry built from the numbers alone, used when the agent fails or
+ * leaves a theme out
+ */
+function fallbackThemeDigest({ stats, representativeTexts, storySummaries }: ClusteredTheme): ThemeDigest {
+  const title = storySummaries[0]?.replace(/^\[[^\]]+\] - /, "")
+    ?? normalizeWhitespace(representativeTexts[0] ?? stats.themeId).slice(0, 60);
+  const firstText = normalizeWhitespace(representativeTexts[0] ?? "");
+  return {
+    themeId: stats.themeId,
+    title,
+    summary: `${stats.volume} request(s) on this theme${stats.category ? ` in ${stats.category}` : ""}.`,
+    quotes: firstText && firstText.length <= MAX_QUOTE_LENGTH ? [redactText(firstText).text] : [],
+    suggestedAction: stats.trackerKeys.length > 0
+      ? `Review the existing tickets (${stats.trackerKeys.join(", ")}).`
+      : "Review the submissions and decide whether to create a ticket.",
+  };
+}
+
+const writeDigest = createStep({
+  id: "write-digest",
+  description: "Has the digest agent write up each theme with representative anonymized quotes",
+  inputSchema: clusteredThemesSchema,
+  outputSchema: insightsDigestSchema,
+  execute: async ({ inputData: { window, submissionCount, themeCount, themes }, mastra }) => {
+    let generated: GeneratedDigest | undefined;
+    if (themes.length > 0) {
+      try {
+        // getAgent throws when the digest agent is not registered, which is handled like any other failure
+        const agent = mastra!.getAgent("insightsDigestAgent");
+        const response = await agent.generate(formatThemesForPrompt(window, themes), {
+          structuredOutput: { schema: generatedDigestSchema },
+        });
+        generated = response.object;
+      } catch (error) {
+        // The ranked themes are still worth sending without the write-up
+        console.error("Digest generation failed, sending the themes without a write-up:", error);
+      }
+    }
+
+    const written = new Map((generated?.themes ?? []).map((theme) => [theme.themeId, theme]));
+    const digestThemes = themes.map((theme) => {
+      const entry = written.get(theme.stats.themeId);
+      if (!entry) {
+        return { ...fallbackThemeDigest(theme), stats: theme.stats };
+      }
+
+      const checked = { ...entry, quotes: verifiedQuotes(entry.quotes, theme.representativeTexts) };
+      const leaks = findPiiLeaks({ title: checked.title, summary: checked.summary, suggestedAction: checked.suggestedAction });
+      if (leaks.length > 0) {
+        console.error(`PII detected in digest for ${theme.stats.themeId}:`, leaks.map((leak) => `${leak.field}:${leak.type}`).join(", "));
+        return { ...fallbackThemeDigest(theme), stats: theme.stats };
+      }
+      return { ...checked, stats: theme.stats };
+    });
+
+    const headline = generated && findPiiLeaks({ headline: generated.headline }).length === 0
+      ? generated.headline
+      : digestThemes[0]
+        ? `Top theme: ${digestThemes[0].title} (${digestThemes[0].stats.volume} request(s))`
+        : "No feature requests this period";
+
+    return {
+      window,
+      submissionCount,
+      themeCount,
+      headline,
+      themes: digestThemes,
+      generatedAt: new Date().toISOString(),
+    } satisfies InsightsDigest;
+  },
+});
+
+const deliverDigest = createStep({
+  id: "deliver-digest",
+  description: "Renders the digest as Markdown and HTML and sends it through the configured notifier",
+  inputSchema: insightsDigestSchema,
+  outputSchema: deliveredDigestSchema,
+  execute: async ({ inputData: digest }) => {
+    const markdown = renderDigestMarkdown(digest);
+    const html = renderDigestHtml(digest);
+
+    const notifier = getNotifier();
+    if (!notifier) {
+      console.log("📭 No notifier configured; digest not sent");
+      return { digest, markdown, html, delivered: false };
+    }
+
+    await notifier.send({ kind: "digest", title: digestTitle(digest), markdown, html });
+    console.log(`📬 Digest sent via ${notifier.name}`);
+    return { digest, markdown, html, delivered: true, notifier: notifier.name };
+  },
+});
+
+const insightsDigestWorkflow = createWorkflow({
+  id: "insights-digest-workflow",
+  description: "Clusters a period's feature requests into ranked themes and sends a product insights digest",
+  inputSchema: digestRequestSchema,
+  outputSchema: deliveredDigestSchema,
+})
+  .then(collectSubmissions)
+  .then(clusterThemes)
+  .then(writeDigest)
+  .then(deliverDigest);
+
+insightsDigestWorkflow.commit();
+
+export { insightsDigestWorkflow };